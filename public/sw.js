@@ -18,20 +18,22 @@ registerRoute(
     plugins: [new ExpirationPlugin({ maxAgeSeconds: 60 * 60 * 24 * 365, maxEntries: 30 })],
   })
 );
-// Background sync for POST requests to sync endpoints
+// Background sync for POST requests to sync endpoints. The app also retries from its own queue; a replay
+// of a batch that already landed is harmless because the server records each item at most once by id.
 const bgSyncPlugin = new BackgroundSyncPlugin('syncQueue', {
   maxRetentionTime: 24 * 60 // Retry for up to 24 hours
 });
 registerRoute(
-  ({ url }) => url.pathname.startsWith('/api/sync/'),
+  ({ url }) => url.pathname === '/api/sync' || url.pathname.startsWith('/api/sync/'),
   new NetworkOnly({
     plugins: [bgSyncPlugin]
   }),
   'POST'
 );
-// Cache other API GET calls with a stale-while-revalidate strategy
+// Cache other API GET calls with a stale-while-revalidate strategy. Pull-sync responses are deltas the
+// app mirrors itself, so a cached one must never be replayed.
 registerRoute(
-  ({ url, request }) => url.pathname.startsWith('/api/') && request.method === 'GET',
+  ({ url, request }) => url.pathname.startsWith('/api/') && !url.pathname.startsWith('/api/sync/') && request.method === 'GET',
   new StaleWhileRevalidate({
     cacheName: 'api-cache',
     plugins: [new ExpirationPlugin({ maxAgeSeconds: 60 * 60 * 24, maxEntries: 50 })],
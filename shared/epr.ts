@@ -0,0 +1,26 @@
+import type { EprFeeBasis, EprStream, EprTariff, Material } from './types';
+import { roundMoney } from './tickets';
+import { eprStreamOf } from './materials';
+// --- EPR fee calculation shared by the POS (estimate) and the worker (authoritative) ---
+const samePro = (a?: string, b?: string) => (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+/** A PRO-specific tariff beats the stream default; within each, the most recently effective row wins. */
+export function resolveEprTariff(tariffs: readonly EprTariff[], query: { epr_stream: EprStream; pro?: string; at: number }): EprTariff | undefined {
+  let best: EprTariff | undefined;
+  for (const t of tariffs) {
+    if (t.epr_stream !== query.epr_stream || t.effective_from > query.at || (t.effective_to !== undefined && query.at >= t.effective_to)) continue;
+    if (t.pro && !samePro(t.pro, query.pro)) continue;
+    if (!best || (!!t.pro && !best.pro) || (!!t.pro === !!best.pro && t.effective_from > best.effective_from)) best = t;
+  }
+  return best;
+}
+export function eprFeeBasis(
+  tariffs: readonly EprTariff[],
+  line: { ledger_entry_id: string; weight_kg: number; material?: Pick<Material, 'epr_stream' | 'pro'> },
+  at: number,
+): EprFeeBasis {
+  const epr_stream = eprStreamOf(line.material);
+  const pro = line.material?.pro || undefined;
+  const tariff = resolveEprTariff(tariffs, { epr_stream, pro, at });
+  const rate = tariff?.rate_per_kg ?? 0;
+  return { ledger_entry_id: line.ledger_entry_id, epr_stream, pro, tariff_id: tariff?.id, rate_per_kg: rate, weight_kg: line.weight_kg, fee: roundMoney(rate * line.weight_kg) };
+}
@@ -0,0 +1,21 @@
+import type { EprStream, InventoryLedgerEntry, Material } from './types';
+// --- Material catalogue helpers shared by the POS, reports and the worker ---
+const matchKey = (value: string) => value.trim().toLowerCase();
+/** Display label used on tickets and stored as the ledger entry's material_type. */
+export const materialLabel = (m: Pick<Material, 'name' | 'grade'>): string => m.grade ? `${m.name} (${m.grade})` : m.name;
+/**
+ * Builds a lookup from ledger entries to catalogue materials. Entries carry material_id; entries captured
+ * before the catalogue existed are matched on their label, name or code instead.
+ */
+export function materialResolver(materials: readonly Material[]) {
+  const byId = new Map(materials.map(m => [m.id, m]));
+  const byKey = new Map<string, Material>();
+  for (const m of materials) {
+    for (const key of [m.code, m.name, materialLabel(m)]) {
+      if (!byKey.has(matchKey(key))) byKey.set(matchKey(key), m);
+    }
+  }
+  return (entry: Pick<InventoryLedgerEntry, 'material_id' | 'material_type'>): Material | undefined =>
+    (entry.material_id ? byId.get(entry.material_id) : undefined) ?? byKey.get(matchKey(entry.material_type));
+}
+export const eprStreamOf = (material: Pick<Material, 'epr_stream'> | undefined): EprStream => material?.epr_stream ?? 'Other';
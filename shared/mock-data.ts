@@ -1,4 +1,5 @@
-import type { Supplier, InventoryLedgerEntry, Transaction, User } from './types';
+import type { Supplier, InventoryLedgerEntry, Transaction, User, Material, EprTariff } from './types';
+import { EPR_STREAMS } from './types';
 import { v4 as uuid } from 'uuid';
 export const MOCK_USERS: User[] = [
   {
@@ -76,12 +77,40 @@ export const MOCK_SUPPLIERS: Supplier[] = [
     updated_at: Date.now() - 172800000,
   },
 ];
+const material = (id: string, code: string, name: string, epr_stream: Material['epr_stream'], extra: Partial<Material> = {}): Material => ({
+  id, code, name, epr_stream, is_weee: false, default_unit: 'kg', active: true, created_at: Date.now(), updated_at: Date.now(), ...extra,
+});
+export const MOCK_MATERIALS: Material[] = [
+  material('mat-cu-bright', 'CU1', 'Copper Wire', 'Metals', { grade: 'Bright' }),
+  material('mat-cu-mixed', 'CU2', 'Copper', 'Metals', { grade: 'Mixed' }),
+  material('mat-brass', 'BR', 'Brass', 'Metals'),
+  material('mat-al-cans', 'ALC', 'Aluminium Cans', 'Metals'),
+  material('mat-steel', 'FE', 'Steel', 'Metals', { grade: 'Heavy Melt' }),
+  material('mat-pet', 'PET', 'PET Bottles', 'Plastic'),
+  material('mat-hdpe', 'HDPE', 'HDPE Containers', 'Plastic'),
+  material('mat-cardboard', 'K4', 'Cardboard', 'Paper & Packaging'),
+  material('mat-paper', 'PAP', 'Office Paper', 'Paper & Packaging'),
+  material('mat-glass', 'GL', 'Glass Bottles', 'Glass'),
+  material('mat-weee', 'WEEE', 'Electronic Scrap', 'Electrical & Electronic', { is_weee: true }),
+  material('mat-battery', 'BAT', 'Lead-Acid Batteries', 'Electrical & Electronic', { is_weee: true, default_unit: 'unit' }),
+];
+// Flat 0.10 ZAR/kg per stream, matching the fee the POS charged before tariffs were configurable.
+export const MOCK_EPR_TARIFFS: EprTariff[] = EPR_STREAMS.map(stream => ({
+  id: `tariff-default-${stream.toLowerCase().replace(/[^a-z]+/g, '-')}`,
+  epr_stream: stream,
+  rate_per_kg: 0.1,
+  effective_from: 0,
+  created_by: 'system',
+  created_by_username: 'system',
+  created_at: 0,
+}));
 const ledgerEntry1Id = uuid();
 export const MOCK_INVENTORY_LEDGER: InventoryLedgerEntry[] = [
   {
     id: ledgerEntry1Id,
     supplier_id: MOCK_SUPPLIERS[0].id,
-    material_type: 'Copper Wire',
+    material_id: 'mat-cu-bright',
+    material_type: 'Copper Wire (Bright)',
     weight_kg: 125.5,
     capture_timestamp: Date.now(),
     operator_id: 'op-001',
@@ -0,0 +1,61 @@
+import type { User } from './types';
+// --- Permission Catalogue ---
+// Single source of truth for authorisation. The worker middleware and the React guards both
+// resolve access through `hasPermission`, so the UI and API cannot disagree.
+export const PERMISSIONS = {
+  'dashboard:read': 'View the dashboard',
+  'pos:capture': 'Capture weights and transactions at the POS',
+  'ledger:read': 'View the inventory ledger',
+  'ledger:write': 'Create and sync ledger entries, and request corrections',
+  'ledger:approve': 'Approve or reject ledger corrections',
+  'transaction:read': 'View transactions',
+  'transaction:write': 'Create and sync transactions',
+  'sync:resolve': "Inspect this terminal's sync queue and resolve rejected items",
+  'supplier:read': 'View suppliers',
+  'supplier:write': 'Create and delete suppliers',
+  'materials:manage': 'Maintain the material catalogue',
+  'pricing:manage': 'Maintain price lists and supplier price tiers',
+  'pricing:override': 'Approve line amounts that differ from the price list',
+  'epr:read': 'View EPR compliance reports',
+  'epr:export': 'Export EPR audit files',
+  'epr:configure': 'Maintain the EPR tariff schedule',
+  'hardware:manage': 'Configure scales and cameras',
+  'devices:read': 'View registered terminals and when they last synced',
+  'devices:manage': 'Approve, rename and revoke terminals',
+  'users:manage': 'Create users and change roles, features and credentials',
+  'security:manage': 'Manage sessions and security policy',
+  'audit:read': 'View the authentication event log',
+  'chat:access': 'Use team chat',
+} as const;
+export type Permission = keyof typeof PERMISSIONS;
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+export const ROLE_PERMISSIONS: Record<User['role'], readonly Permission[]> = {
+  operator: ['dashboard:read', 'pos:capture', 'ledger:write', 'transaction:write', 'supplier:read'],
+  manager: ['dashboard:read', 'pos:capture', 'ledger:read', 'ledger:write', 'ledger:approve', 'transaction:read', 'transaction:write', 'supplier:read', 'supplier:write', 'sync:resolve', 'devices:read', 'materials:manage', 'pricing:manage', 'pricing:override'],
+  admin: ALL_PERMISSIONS,
+  auditor: ['dashboard:read', 'ledger:read', 'transaction:read', 'supplier:read', 'epr:read', 'epr:export', 'audit:read'],
+};
+// Scopes an admin may grant to an API key. Keys act for integrations rather than people, so user,
+// security and hardware administration can never be delegated to one.
+export const API_KEY_SCOPES: readonly Permission[] = ['ledger:read', 'ledger:write', 'transaction:read', 'transaction:write', 'supplier:read', 'epr:read', 'epr:export'];
+// Named feature flags that grant extra permissions on top of the role. Only these bundles grant anything;
+// user, security and device administration come with a role, never with a feature.
+export const FEATURE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  'chat-access': ['chat:access'],
+  'epr-reports': ['epr:read', 'epr:export'],
+  'ledger-approval': ['ledger:approve'],
+  'price-override': ['pricing:override'],
+  'sync-resolve': ['sync:resolve'],
+};
+export function permissionsFor(user: Pick<User, 'role' | 'features'> | null | undefined): Set<Permission> {
+  const granted = new Set<Permission>(user ? ROLE_PERMISSIONS[user.role] ?? [] : []);
+  for (const feature of user?.features ?? []) {
+    for (const p of FEATURE_PERMISSIONS[feature] ?? []) granted.add(p);
+  }
+  return granted;
+}
+export function hasPermission(user: Pick<User, 'role' | 'features'> | null | undefined, ...required: Permission[]): boolean {
+  if (!user) return false;
+  const granted = permissionsFor(user);
+  return required.every(p => granted.has(p));
+}
@@ -0,0 +1,35 @@
+import type { PriceRule, Supplier } from './types';
+import { roundMoney } from './tickets';
+// --- Price list resolution shared by the POS and the worker ---
+export type PriceRuleScope = 'supplier' | 'tier' | 'base';
+export const priceRuleScope = (rule: Pick<PriceRule, 'supplier_id' | 'tier'>): PriceRuleScope => rule.supplier_id ? 'supplier' : rule.tier ? 'tier' : 'base';
+const SCOPE_RANK: Record<PriceRuleScope, number> = { supplier: 2, tier: 1, base: 0 };
+export const isRuleEffective = (rule: Pick<PriceRule, 'effective_from' | 'effective_to'>, at: number): boolean =>
+  rule.effective_from <= at && (rule.effective_to === undefined || at < rule.effective_to);
+export const isInWeightBand = (rule: Pick<PriceRule, 'min_kg' | 'max_kg'>, weightKg: number): boolean =>
+  weightKg >= (rule.min_kg ?? 0) && (rule.max_kg === undefined || weightKg < rule.max_kg);
+/**
+ * Picks the price for a material, supplier and weight at a moment in time: the most specific scope
+ * (supplier, then tier, then base) wins, and within a scope the most recently effective rule.
+ */
+export function resolvePriceRule(
+  rules: readonly PriceRule[],
+  query: { material_id: string; supplier?: Pick<Supplier, 'id' | 'price_tier'>; weight_kg: number; at?: number },
+): PriceRule | undefined {
+  const at = query.at ?? Date.now();
+  const tier = query.supplier?.price_tier ?? 'standard';
+  let best: PriceRule | undefined;
+  for (const rule of rules) {
+    if (rule.material_id !== query.material_id || !isRuleEffective(rule, at) || !isInWeightBand(rule, query.weight_kg)) continue;
+    if (rule.supplier_id && rule.supplier_id !== query.supplier?.id) continue;
+    if (!rule.supplier_id && rule.tier && rule.tier !== tier) continue;
+    if (!best) {
+      best = rule;
+      continue;
+    }
+    const rank = SCOPE_RANK[priceRuleScope(rule)] - SCOPE_RANK[priceRuleScope(best)];
+    if (rank > 0 || (rank === 0 && rule.effective_from > best.effective_from)) best = rule;
+  }
+  return best;
+}
+export const lineAmount = (pricePerKg: number, weightKg: number): number => roundMoney(pricePerKg * weightKg);
@@ -0,0 +1,23 @@
+import type { Transaction, TransactionLine } from './types';
+import { roundWeight } from './weighing';
+// --- Buy ticket helpers shared by the POS and the worker ---
+export const PAYMENT_METHODS = ['cash', 'eft'] as const;
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+type LinePayment = Pick<TransactionLine, 'ledger_entry_id' | 'amount' | 'epr_fee'>;
+/** Lines of a transaction; single-entry transactions from before tickets existed are treated as one line. */
+export function transactionLines(t: Pick<Transaction, 'ledger_entry_id' | 'amount' | 'epr_fee' | 'lines'>): LinePayment[] {
+  return t.lines?.length ? t.lines : [{ ledger_entry_id: t.ledger_entry_id, amount: t.amount, epr_fee: t.epr_fee }];
+}
+export function ticketTotals(lines: readonly Pick<TransactionLine, 'weight_kg' | 'amount' | 'epr_fee'>[]) {
+  return {
+    weight_kg: roundWeight(lines.reduce((sum, l) => sum + l.weight_kg, 0)),
+    amount: roundMoney(lines.reduce((sum, l) => sum + l.amount, 0)),
+    epr_fee: roundMoney(lines.reduce((sum, l) => sum + l.epr_fee, 0)),
+  };
+}
+/** Derives the header fields of a multi-line ticket from its lines so the two can never disagree. */
+export function withTicketTotals<T extends Pick<Transaction, 'ledger_entry_id' | 'amount' | 'epr_fee' | 'lines'>>(t: T): T {
+  if (!t.lines?.length) return t;
+  const { amount, epr_fee } = ticketTotals(t.lines);
+  return { ...t, ledger_entry_id: t.lines[0].ledger_entry_id, amount, epr_fee };
+}
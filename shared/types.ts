@@ -1,23 +1,149 @@
+import type { Permission } from './permissions';
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
 }
 // --- SuiteWaste OS Core Types ---
+export type UserRole = 'operator' | 'manager' | 'admin' | 'auditor';
 export interface User {
   id: string;
   username: string;
   email?: string;
-  password_hash: string;
-  role: 'operator' | 'manager' | 'admin' | 'auditor';
+  password_hash: string; // pbkdf2$<iterations>$<salt>$<hash>; legacy plaintext is upgraded on login
+  password_updated_at?: number; // epoch millis
+  must_change_password?: boolean; // set after an admin reset
+  pin_hash?: string; // operator quick-login PIN, hashed like password_hash
+  failed_pin_attempts?: number;
+  pin_locked_until?: number; // epoch millis
+  totp_enabled?: boolean;
+  totp_secret?: string; // base32, only set once enrolment is confirmed
+  totp_pending_secret?: string; // base32, issued by setup and promoted on the first valid code
+  totp_last_counter?: number; // last accepted time step, so a code can't be replayed
+  recovery_code_hashes?: string[]; // sha-256 of unused single-use recovery codes
+  role: UserRole;
   active: boolean;
   features?: string[];
   created_at: number; // epoch millis
+  created_by?: string; // user id of the admin who created the account
+  updated_at?: number; // epoch millis
+  updated_by?: string;
 }
+// Secrets never leave the worker; has_pin tells the UI whether quick login is set up.
+export type PublicUser = Omit<User, 'password_hash' | 'pin_hash' | 'totp_secret' | 'totp_pending_secret' | 'totp_last_counter' | 'recovery_code_hashes'> & {
+  has_pin?: boolean;
+  recovery_codes_remaining?: number;
+  totp_enrollment_required?: boolean; // the security policy requires 2FA for this role but it is not set up yet
+};
+export const PIN_LENGTH = 4;
+// Wrong PINs in a row before PIN login locks, and for how long; terminals apply the same offline.
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 15 * 60 * 1000;
 export interface Session {
   id: string;
   userId: string;
-  createdAt: number;
+  createdAt: number; // epoch millis
+  lastSeenAt?: number; // epoch millis, slides forward on activity
+  userAgent?: string;
+  ip?: string;
+  deviceName?: string;
+}
+export interface SessionInfo extends Session {
+  username?: string;
+  idleExpiresAt: number; // epoch millis
+  absoluteExpiresAt: number; // epoch millis
+  current?: boolean;
+}
+export interface SecurityPolicy {
+  id: string;
+  session_idle_timeout_min: number;
+  session_absolute_timeout_hours: number;
+  totp_required_roles?: UserRole[];
+  updated_at: number; // epoch millis
+}
+// --- Auth Audit Types ---
+export type AuthEventType =
+  | 'login_success'
+  | 'login_failure'
+  | 'login_locked'
+  | 'pin_login_success'
+  | 'pin_login_failure'
+  | 'logout'
+  | 'session_revoked'
+  | 'sessions_cleared'
+  | 'password_changed'
+  | 'password_reset'
+  | 'totp_enabled'
+  | 'totp_disabled'
+  | 'totp_failure'
+  | 'totp_reset'
+  | 'recovery_code_used'
+  | 'api_key_created'
+  | 'api_key_revoked'
+  | 'user_created'
+  | 'user_deleted';
+export interface AuthEvent {
+  id: string; // inverted-timestamp prefix so the index lists newest first
+  type: AuthEventType;
+  timestamp: number; // epoch millis
+  username?: string;
+  userId?: string;
+  actorId?: string; // admin who performed the action, when different from userId
+  ip?: string;
+  userAgent?: string;
+  detail?: string;
+}
+export interface LoginChallenge {
+  id: string; // opaque token handed to the client between the password and TOTP steps
+  userId: string;
+  expiresAt: number; // epoch millis
+  attempts: number;
+  deviceName?: string;
+}
+// Returned by /api/auth/login instead of a session when the account has TOTP enabled.
+export interface TotpChallengeResponse {
+  totpRequired: true;
+  challengeToken: string;
+}
+export interface TotpLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+export interface TotpSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+// --- Integration API Keys ---
+export interface ApiKey {
+  id: string; // 12 hex chars, embedded in the token as swk_<id>_<secret>
+  name: string;
+  key_hash: string; // sha-256 of the full token
+  scopes: Permission[];
+  created_at: number; // epoch millis
+  created_by: string; // admin user id
+  expires_at?: number; // epoch millis; omitted = never expires
+  last_used_at?: number; // epoch millis
+  last_used_ip?: string;
+  revoked_at?: number; // epoch millis
+  revoked_by?: string;
+}
+export type PublicApiKey = Omit<ApiKey, 'key_hash'>;
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: Permission[];
+  expiresInDays?: number;
+}
+// The plaintext token is only ever returned once, in the create response.
+export interface CreateApiKeyResponse {
+  key: PublicApiKey;
+  token: string;
+}
+export interface LoginThrottle {
+  id: string; // "user:<username>" or "ip:<address>"
+  failures: number;
+  lastFailureAt: number; // epoch millis
+  lockedUntil: number; // epoch millis
 }
 export interface Supplier {
   id: string;
@@ -28,31 +154,349 @@ export interface Supplier {
   address?: string;
   epr_number?: string;
   is_weee_compliant: boolean;
+  price_tier?: SupplierTier; // absent = 'standard'
   created_at: number; // epoch millis
   updated_at: number; // epoch millis
 }
-export interface InventoryLedgerEntry {
+export const SUPPLIER_TIERS = ['standard', 'silver', 'gold'] as const;
+export type SupplierTier = typeof SUPPLIER_TIERS[number];
+export const EPR_STREAMS = ['Plastic', 'Paper & Packaging', 'Glass', 'Metals', 'Electrical & Electronic', 'Other'] as const;
+export type EprStream = typeof EPR_STREAMS[number];
+export type MaterialUnit = 'kg' | 'unit';
+// Catalogue entry. Materials are deactivated rather than deleted because ledger entries reference them.
+export interface Material {
+  id: string;
+  code: string; // short uppercase code shown on tickets, unique across the catalogue
+  name: string;
+  grade?: string; // e.g. "Bright", "#2", "Mixed"
+  epr_stream: EprStream;
+  pro?: string; // producer responsibility organisation the material's fees are paid to; absent = stream default
+  is_weee: boolean;
+  default_unit: MaterialUnit;
+  active: boolean;
+  created_at: number; // epoch millis
+  updated_at: number; // epoch millis
+}
+export type MaterialInput = Pick<Material, 'code' | 'name' | 'grade' | 'epr_stream' | 'pro' | 'is_weee' | 'default_unit' | 'active'>;
+// EPR fee rate for a stream, optionally specific to one PRO. Like prices, tariffs are superseded by newer
+// rows rather than edited, so every recorded fee can be traced to the tariff that produced it.
+export interface EprTariff {
+  id: string;
+  epr_stream: EprStream;
+  pro?: string; // absent = applies to the whole stream
+  rate_per_kg: number; // ZAR
+  effective_from: number; // epoch millis
+  effective_to?: number; // epoch millis, exclusive
+  created_by: string;
+  created_by_username: string;
+  created_at: number; // epoch millis
+  updated_at?: number; // epoch millis, set when the tariff is ended
+}
+export type CreateEprTariffRequest = Pick<EprTariff, 'epr_stream' | 'pro' | 'rate_per_kg' | 'effective_from'>;
+// How one line's EPR fee was derived, stored on the Transaction when the server computes it.
+export interface EprFeeBasis {
+  ledger_entry_id: string;
+  epr_stream: EprStream;
+  pro?: string;
+  tariff_id?: string; // absent when no tariff applied (fee 0)
+  rate_per_kg: number;
+  weight_kg: number;
+  fee: number;
+}
+export interface EprTariffPreview {
+  transactions: number; // transactions with at least one line the proposed tariff would price
+  lines_affected: number;
+  current_fees: number;
+  recalculated_fees: number;
+  by_stream: { [stream: string]: { current: number; recalculated: number } };
+}
+// A buy price for one material. Rules are never edited: a price change is a new rule with a later
+// effective_from, so the full history stays available. Scope is either everyone, one supplier tier or
+// one supplier; the most specific effective rule wins.
+export interface PriceRule {
   id: string;
+  material_id: string;
+  price_per_kg: number; // ZAR
+  tier?: SupplierTier;
+  supplier_id?: string;
+  min_kg?: number; // inclusive lower bound of the weight band
+  max_kg?: number; // exclusive upper bound of the weight band
+  effective_from: number; // epoch millis
+  effective_to?: number; // epoch millis, exclusive; set when a rule is ended early
+  created_by: string;
+  created_by_username: string;
+  created_at: number; // epoch millis
+  updated_at?: number; // epoch millis, set when the rule is ended
+}
+export type CreatePriceRuleRequest = Pick<PriceRule, 'material_id' | 'price_per_kg' | 'tier' | 'supplier_id' | 'min_kg' | 'max_kg' | 'effective_from' | 'effective_to'>;
+// Audit record of a line amount that differs from the price list, approved by someone with pricing:override.
+export interface PriceOverride {
+  id: string;
+  material_id: string;
   supplier_id: string;
-  material_type: string;
   weight_kg: number;
+  price_rule_id?: string;
+  computed_amount: number; // what the price list gave (0 when no price applied)
+  override_amount: number;
+  reason: string;
+  requested_by: string;
+  approved_by: string;
+  approved_by_username: string;
+  created_at: number; // epoch millis
+}
+export interface CreatePriceOverrideRequest {
+  material_id: string;
+  supplier_id: string;
+  weight_kg: number;
+  price_rule_id?: string;
+  computed_amount: number;
+  override_amount: number;
+  reason: string;
+  // Required when the signed-in user can't approve overrides: a manager confirms at the terminal.
+  approver?: { username: string; password: string; code?: string };
+}
+// How a captured weight was shown to be at rest, kept with the capture as legal-for-trade evidence.
+export interface StabilityEvidence {
+  method: 'indicator' | 'variance'; // the indicator's own stable flag, or the spread of recent samples
+  samples: { kg: number; at: number }[]; // readings in the window, oldest first; at = epoch millis
+  spread_kg: number; // max - min over the window
+  window_ms: number;
+  division_kg: number; // scale division the captured weight was rounded to
+  min_kg: number; // minimum weight in force for the scale
+  raw?: string; // indicator line the weight was taken from
+}
+export interface InventoryLedgerEntry {
+  id: string;
+  supplier_id: string;
+  material_id?: string; // catalogue material; absent on entries captured before the catalogue existed
+  material_type: string; // material label at capture time, kept so renames never rewrite history
+  weight_kg: number; // net weight; equals gross_kg - tare_kg when both are recorded
+  gross_kg?: number;
+  tare_kg?: number;
+  tare_preset_id?: string; // tare came from a stored preset rather than a second weighing
+  weighing_session_id?: string; // two-pass weighing that produced this entry
+  ticket_id?: string; // buy ticket (Transaction id) this entry was paid out on
   capture_timestamp: number; // epoch millis
   operator_id?: string;
-  device_id?: string;
+  device_id?: string; // approved terminal that captured the entry
+  scale_id?: string; // scale attached to that terminal at capture time
+  stability?: StabilityEvidence; // absent on keyed-in entries and those captured before stability checks
   photo_attachment_key?: string;
   notes?: string;
   is_synced: boolean;
   created_at: number; // epoch millis
+  entry_type?: LedgerEntryType; // absent on entries captured before corrections existed = 'capture'
+  corrects_entry_id?: string; // on reversal/correction entries: the original entry being corrected
+  correction_id?: string; // the approved LedgerCorrection that produced this entry
+  sequence?: number; // position in the tamper-evident chain, assigned by the server; absent on legacy entries
+  prev_hash?: string; // entry_hash of sequence - 1 ("genesis" for the first entry)
+  entry_hash?: string; // sha-256 over the canonical entry content, including prev_hash
+}
+// Entries are never edited: a correction appends a 'reversal' (negated weight) and a replacement 'correction'.
+export type LedgerEntryType = 'capture' | 'reversal' | 'correction';
+export type LedgerCorrectionStatus = 'pending' | 'approved' | 'rejected';
+export interface LedgerCorrectionProposal {
+  supplier_id: string;
+  material_id?: string;
+  material_type: string;
+  weight_kg: number;
+  notes?: string;
+}
+export interface LedgerCorrection {
+  id: string;
+  entry_id: string; // original entry
+  reason: string;
+  proposed: LedgerCorrectionProposal;
+  status: LedgerCorrectionStatus;
+  requested_by: string; // user id
+  requested_by_username?: string; // snapshot for display
+  requested_at: number; // epoch millis
+  decided_by?: string; // approving/rejecting manager; never the requester
+  decided_by_username?: string;
+  decided_at?: number; // epoch millis
+  decision_note?: string;
+  reversal_entry_id?: string;
+  replacement_entry_id?: string;
+}
+export type CreateLedgerCorrectionRequest = LedgerCorrectionProposal & { reason: string };
+export interface LedgerChainHead {
+  id: string;
+  sequence: number; // last sequence appended
+  head_hash: string;
+  updated_at: number; // epoch millis
+  pending?: InventoryLedgerEntry; // the entry head_hash seals, until it is stored
+}
+export type LedgerChainBreakReason = 'missing_entry' | 'duplicate_sequence' | 'broken_link' | 'content_modified';
+export interface LedgerVerification {
+  valid: boolean;
+  checked: number; // chained entries verified before stopping
+  unchained: number; // legacy entries captured before the chain existed
+  head_sequence: number;
+  verified_at: number; // epoch millis
+  first_break?: { sequence: number; entry_id?: string; reason: LedgerChainBreakReason };
+}
+// --- Offline Sync ---
+// Every queued item carries its own client-generated id, which doubles as its idempotency key: the server
+// remembers a digest of the first payload it accepted under that id and compares replays against it.
+export type SyncItemKind = 'ledger' | 'transaction';
+export type SyncItemStatus = 'accepted' | 'duplicate' | 'rejected';
+export interface SyncItemResult {
+  id: string;
+  status: SyncItemStatus;
+  reason?: string; // set when rejected
+  retryable?: boolean; // rejected for a transient reason; the client keeps the item queued
+}
+export interface SyncResponse {
+  results: SyncItemResult[];
+}
+// One outbox flush. The server records the ledger entries first, so a transaction is only accepted once
+// every entry it pays for is on the ledger.
+export interface SyncEnvelope {
+  ledger?: InventoryLedgerEntry[];
+  transactions?: Transaction[];
+  device_id?: string; // the terminal flushing; recorded as its last sync
+  rejected?: number; // items the terminal is holding as rejected, reported for its backlog
+}
+export interface SyncEnvelopeResponse {
+  ledger: SyncItemResult[];
+  transactions: SyncItemResult[];
+}
+export interface SyncReceipt {
+  id: string; // "<kind>:<item id>"
+  digest: string; // SHA-256 of the canonical payload first accepted under this id
+  status: 'pending' | 'done';
+  updated_at: number; // epoch millis
+}
+// Reference data a POS mirrors so it works from a cold start without network. Each collection holds the
+// records changed since the cursor plus the ids of every live record, so the terminal can drop deleted ones.
+export interface ReferenceDelta<T> {
+  changed: T[];
+  ids: string[];
+}
+// pin_hash is only sent to approved terminals, for operators the server would let in by PIN, so the
+// terminal can switch operator without network.
+export type OperatorProfile = Pick<PublicUser, 'id' | 'username' | 'role' | 'features' | 'active' | 'created_at'> & Pick<User, 'pin_hash' | 'pin_locked_until'>;
+export interface ReferencePull {
+  cursor: number; // server time of this pull; send it back as `since`
+  full: boolean; // no usable `since` was given, so `changed` holds every record
+  suppliers: ReferenceDelta<Supplier>;
+  materials: ReferenceDelta<Material>;
+  price_rules: ReferenceDelta<PriceRule>;
+  epr_tariffs: ReferenceDelta<EprTariff>;
+  tare_presets: ReferenceDelta<TarePreset>;
+  operators: OperatorProfile[]; // active users with a PIN, always sent whole
+}
+// --- Terminals ---
+// A POS tablet or weighbridge PC. It registers itself once and, after an admin approves it, stamps its id
+// on every capture. Check-ins are recorded so a terminal that has stopped syncing stands out.
+export type DeviceStatus = 'pending' | 'approved' | 'revoked';
+export interface DeviceBacklog {
+  pending_ledger: number;
+  pending_transactions: number;
+  rejected: number;
+}
+export interface Device {
+  id: string; // issued by the server at registration
+  name: string;
+  status: DeviceStatus;
+  scale_id?: string; // asset id of the scale attached to this terminal
+  user_agent?: string;
+  registered_at: number; // epoch millis
+  registered_by: string; // user id
+  reviewed_at?: number; // epoch millis, when approved or revoked
+  reviewed_by?: string;
+  last_seen_at?: number; // epoch millis, last reference pull or outbox flush
+  last_sync_at?: number; // epoch millis, last outbox flush
+  backlog?: DeviceBacklog; // what the terminal still held after its last flush
+  updated_at: number; // epoch millis
+}
+export interface RegisterDeviceRequest {
+  name: string;
+}
+export type UpdateDeviceRequest = Partial<Pick<Device, 'name' | 'scale_id'>>;
+// --- Two-Pass Weighing ---
+export type WeighKind = 'gross' | 'tare';
+export interface WeighCapture {
+  weight_kg: number;
+  captured_at: number; // epoch millis
+  operator_id?: string;
+  device_id?: string;
+  scale_id?: string;
+  stability?: StabilityEvidence;
+}
+export type WeighingSessionStatus = 'open' | 'completed' | 'cancelled';
+// A vehicle or container weighed loaded and empty, possibly minutes apart and on different terminals.
+export interface WeighingSession {
+  id: string;
+  reference: string; // normalised vehicle registration or container id
+  status: WeighingSessionStatus;
+  supplier_id?: string;
+  material_type?: string;
+  gross?: WeighCapture;
+  tare?: WeighCapture;
+  tare_preset_id?: string;
+  net_kg?: number;
+  ledger_entry_id?: string;
+  created_at: number; // epoch millis
+  updated_at: number; // epoch millis
+}
+export interface OpenWeighingSessionRequest {
+  reference: string;
+  kind: WeighKind;
+  weight_kg: number;
+  supplier_id?: string;
+  material_type?: string;
+  device_id?: string;
+  scale_id?: string;
+  stability?: StabilityEvidence;
 }
+// Either weight_kg (second weighing) or tare_preset_id must be given.
+export interface CompleteWeighingSessionRequest {
+  weight_kg?: number;
+  tare_preset_id?: string;
+  supplier_id?: string;
+  material_id?: string;
+  material_type?: string;
+  notes?: string;
+  device_id?: string;
+  scale_id?: string;
+  stability?: StabilityEvidence; // of weight_kg
+  ticket_id?: string; // open buy ticket the resulting entry becomes a line of
+}
+export interface TarePreset {
+  id: string; // normalised reference, so each vehicle/container has at most one preset
+  reference: string; // as entered, for display
+  kind: 'vehicle' | 'container';
+  tare_kg: number;
+  description?: string;
+  updated_at: number; // epoch millis
+  updated_by?: string;
+}
+// One weighed material on a buy ticket. Each line has its own ledger entry for stock and EPR reporting.
+export interface TransactionLine {
+  ledger_entry_id: string;
+  material_id?: string;
+  material_type: string;
+  weight_kg: number;
+  amount: number;
+  epr_fee: number;
+  price_per_kg?: number; // price-list rate the amount was calculated from
+  price_rule_id?: string;
+  price_override_id?: string; // amount was overridden; see the PriceOverride for the approval
+}
+// A Transaction is one payment to a supplier. Multi-line tickets list their lines; amount and epr_fee
+// are then the line totals and ledger_entry_id is the first line's entry.
 export interface Transaction {
   id: string;
   ledger_entry_id: string;
+  lines?: TransactionLine[]; // absent on single-entry transactions recorded before tickets existed
   amount: number;
   currency: string;
   payment_method?: string;
   transaction_timestamp: number; // epoch millis
   receipt_key?: string;
   epr_fee: number;
+  epr_basis?: EprFeeBasis[]; // one per line; set by the server, absent on transactions recorded before tariffs existed
   is_synced: boolean;
   created_at: number; // epoch millis
 }
@@ -69,4 +513,23 @@ export interface EPRReport {
     [stream: string]: EPRStreamData;
   };
 }
-export type ConfigUserUpdate = Pick<User, 'id' | 'role' | 'active' | 'features'>;
\ No newline at end of file
+export type ConfigUserUpdate = Pick<User, 'id' | 'role' | 'active' | 'features'>;
+export interface CreateUserRequest {
+  username: string;
+  email?: string;
+  role: User['role'];
+  password: string; // temporary; the user must change it on first login
+  features?: string[];
+}
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+export interface ResetPasswordRequest {
+  newPassword: string;
+}
+export interface PinLoginRequest {
+  username: string;
+  pin: string;
+  deviceName?: string;
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import type { StabilityEvidence } from './types';
+// --- Weighing helpers shared by the POS and the worker ---
+// Scales resolve to 10 g; derived weights are rounded the same way so gross - tare = net exactly.
+export const roundWeight = (kg: number): number => Math.round(kg * 100) / 100;
+export const netWeight = (grossKg: number, tareKg: number): number => roundWeight(grossKg - tareKg);
+/** Rounds to the nearest scale division (e), as a trade-approved indicator displays it. */
+export const roundToDivision = (kg: number, divisionKg: number): number => divisionKg > 0 ? roundWeight(Math.round(kg / divisionKg) * divisionKg) : roundWeight(kg);
+export const MAX_STABILITY_SAMPLES = 100;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+/** Returns why stability evidence sent with a capture is malformed, or null when it is absent or well-formed. */
+export function stabilityEvidenceError(evidence: StabilityEvidence | undefined): string | null {
+  if (evidence === undefined) return null;
+  if (!evidence || typeof evidence !== 'object' || (evidence.method !== 'indicator' && evidence.method !== 'variance')) return 'Invalid stability evidence';
+  if (!Array.isArray(evidence.samples) || evidence.samples.length === 0 || evidence.samples.length > MAX_STABILITY_SAMPLES) return `Stability evidence needs 1-${MAX_STABILITY_SAMPLES} samples`;
+  if (evidence.samples.some(s => !s || !isNumber(s.kg) || !isNumber(s.at))) return 'Invalid stability sample';
+  if (![evidence.spread_kg, evidence.window_ms, evidence.division_kg, evidence.min_kg].every(isNumber)) return 'Invalid stability evidence';
+  if (evidence.raw !== undefined && (typeof evidence.raw !== 'string' || evidence.raw.length > 200)) return 'Invalid stability evidence';
+  return null;
+}
+/** Registrations and container ids match regardless of case and spacing ("ca 123-456" = "CA123-456"). */
+export const normalizeReference = (reference: string): string => reference.toUpperCase().replace(/\s+/g, '');
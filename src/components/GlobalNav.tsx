@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { NavLink, Link, useNavigate } from 'react-router-dom';
-import { HardHat, Menu, LayoutDashboard, Weight, Users, BookOpen, Settings2, LogOut, FileText, MessageCircle } from 'lucide-react';
+import { HardHat, Menu, LayoutDashboard, Weight, Users, BookOpen, Settings2, LogOut, FileText, MessageCircle, CloudUpload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { ThemeToggle } from '@/components/ThemeToggle';
@@ -10,15 +10,18 @@ import { useAuth } from '@/hooks/useAuth';
 import { api } from '@/lib/api-client';
 import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-const navItems = [
-  { href: '/', label: 'Dashboard', icon: LayoutDashboard, roles: ['operator', 'manager', 'admin', 'auditor'] },
-  { href: '/quick-weight', label: 'Weigh', icon: Weight, roles: ['operator', 'manager', 'admin'] },
-  { href: '/suppliers', label: 'Suppliers', icon: Users, roles: ['manager', 'admin'] },
-  { href: '/ledger', label: 'Ledger', icon: BookOpen, roles: ['manager', 'admin', 'auditor'] },
-  { href: '/transactions', label: 'Transactions', icon: FileText, roles: ['manager', 'admin', 'auditor'] },
-  { href: '/chat', label: 'Chat', icon: MessageCircle, roles: ['operator','manager','admin','auditor'], features: ['chat-access'] },
-  { href: '/hardware', label: 'Hardware', icon: Settings2, roles: ['admin'] },
-  { href: '/settings', label: 'Settings', icon: Settings2, roles: ['admin'] },
+import { hasPermission, type Permission } from '@shared/permissions';
+// Items without a permission are available to every signed-in user.
+const navItems: { href: string; label: string; icon: typeof LayoutDashboard; permission?: Permission }[] = [
+  { href: '/', label: 'Dashboard', icon: LayoutDashboard, permission: 'dashboard:read' },
+  { href: '/quick-weight', label: 'Weigh', icon: Weight, permission: 'pos:capture' },
+  { href: '/suppliers', label: 'Suppliers', icon: Users, permission: 'supplier:write' },
+  { href: '/ledger', label: 'Ledger', icon: BookOpen, permission: 'ledger:read' },
+  { href: '/transactions', label: 'Transactions', icon: FileText, permission: 'transaction:read' },
+  { href: '/sync-queue', label: 'Sync', icon: CloudUpload, permission: 'sync:resolve' },
+  { href: '/chat', label: 'Chat', icon: MessageCircle, permission: 'chat:access' },
+  { href: '/hardware', label: 'Hardware', icon: Settings2, permission: 'hardware:manage' },
+  { href: '/settings', label: 'Settings', icon: Settings2 },
 ];
 export function GlobalNav() {
   const [isMobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -38,11 +41,7 @@ export function GlobalNav() {
       navigate('/login', { replace: true });
     }
   };
-  const accessibleNavItems = navItems.filter(item =>
-    user &&
-    item.roles.includes(user.role) &&
-    (!item.features || item.features.every(f => user.features?.includes(f)))
-  );
+  const accessibleNavItems = navItems.filter(item => user && (!item.permission || hasPermission(user, item.permission)));
   return (
     <>
       <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 md:block hidden">
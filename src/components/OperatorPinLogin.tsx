@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { PinLoginRequest, PublicUser } from '@shared/types';
+import { PIN_LENGTH } from '@shared/types';
+import { api } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PinPad } from '@/components/PinPad';
+import { useReferenceStore } from '@/stores/useReferenceStore';
+import { offlinePinError } from '@/lib/offline-pin';
+import { cn } from '@/lib/utils';
+const RECENT_OPERATORS_KEY = 'suitewaste-recent-operators';
+const MAX_RECENT_OPERATORS = 6;
+const readRecentOperators = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENT_OPERATORS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter((u): u is string => typeof u === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+const rememberOperator = (username: string) => {
+  const next = [username, ...readRecentOperators().filter(u => u !== username)].slice(0, MAX_RECENT_OPERATORS);
+  localStorage.setItem(RECENT_OPERATORS_KEY, JSON.stringify(next));
+};
+export type PinLoginResponse = { user: PublicUser; token: string };
+type OperatorPinLoginProps = {
+  onSuccess: (data: PinLoginResponse) => void;
+  // When given, a PIN the server cannot be reached to check is checked against the mirrored roster instead.
+  onOfflineSuccess?: (operator: PublicUser) => void;
+  excludeUsername?: string;
+  className?: string;
+};
+/**
+ * Username + PIN pad login for operators. Usernames used on this terminal are offered as one-tap buttons,
+ * topped up from the mirrored operator roster, which also drops operators who lost their PIN.
+ */
+export function OperatorPinLogin({ onSuccess, onOfflineSuccess, excludeUsername, className }: OperatorPinLoginProps) {
+  const [recent] = useState(readRecentOperators);
+  const roster = useReferenceStore(s => s.operators);
+  const rosterNames = roster.map(o => o.username);
+  const known = roster.length > 0 ? recent.filter(u => rosterNames.includes(u)) : recent;
+  const candidates = [...known, ...rosterNames.filter(u => !known.includes(u))].filter(u => u !== excludeUsername).slice(0, MAX_RECENT_OPERATORS);
+  const [username, setUsername] = useState(candidates[0] ?? '');
+  const [pin, setPin] = useState('');
+  const mutation = useMutation({
+    mutationFn: (body: PinLoginRequest) => api<PinLoginResponse>('/api/auth/pin-login', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    onSuccess: (data) => {
+      rememberOperator(data.user.username);
+      setPin('');
+      onSuccess(data);
+    },
+    onError: async (error, body) => {
+      setPin('');
+      // fetch only rejects with a TypeError when the request never reached the server.
+      if (!onOfflineSuccess || !(error instanceof TypeError)) {
+        toast.error('PIN Login Failed', { description: error.message });
+        return;
+      }
+      const operator = roster.find(o => o.username.toLowerCase() === body.username.toLowerCase());
+      const offlineError = await offlinePinError(operator, body.pin);
+      if (offlineError || !operator) {
+        toast.error('PIN Login Failed', { description: offlineError ?? 'Unknown operator.' });
+        return;
+      }
+      const { pin_hash: _pinHash, pin_locked_until: _lockedUntil, ...profile } = operator;
+      rememberOperator(operator.username);
+      onOfflineSuccess({ ...profile, has_pin: true });
+    },
+  });
+  const submit = (value: string) => {
+    if (!username.trim()) {
+      toast.error('Select or enter your username first.');
+      return;
+    }
+    if (value.length !== PIN_LENGTH) return;
+    mutation.mutate({ username: username.trim(), pin: value });
+  };
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="space-y-2">
+        <Label htmlFor="pin-username">Operator</Label>
+        {candidates.length > 0 && (
+          <div className="grid grid-cols-2 gap-2">
+            {candidates.map(u => (
+              <Button key={u} type="button" variant={u === username ? 'default' : 'outline'} className="h-14 text-base" onClick={() => setUsername(u)}>{u}</Button>
+            ))}
+          </div>
+        )}
+        <Input id="pin-username" placeholder="Username" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} className="h-14 bg-secondary/50" />
+      </div>
+      <PinPad value={pin} onChange={setPin} onComplete={submit} disabled={mutation.isPending} />
+      {mutation.isPending && <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />}
+    </div>
+  );
+}
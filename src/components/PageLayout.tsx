@@ -1,12 +1,18 @@
 import { Navigate } from 'react-router-dom';
 import { GlobalNav } from '@/components/GlobalNav';
 import { useAuth } from '@/hooks/useAuth';
+import { useSessionKeepAlive } from '@/hooks/useSessionKeepAlive';
 import { Loader2 } from 'lucide-react';
+import type { Permission } from '@shared/permissions';
+import { RequirePermission } from '@/components/RequirePermission';
 type PageLayoutProps = {
   children: React.ReactNode;
+  /** Permission(s) required to see the page content; users without it get an access-denied notice. */
+  permission?: Permission | Permission[];
 };
-export function PageLayout({ children }: PageLayoutProps) {
+export function PageLayout({ children, permission }: PageLayoutProps) {
   const { user, isLoading } = useAuth();
+  useSessionKeepAlive();
   if (isLoading) {
     return (
       <div className="h-dvh w-full flex items-center justify-center bg-background">
@@ -23,7 +29,7 @@ export function PageLayout({ children }: PageLayoutProps) {
       <main className="flex-1 overflow-y-auto pb-24 md:pb-12 relative z-0">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="py-8 md:py-10 lg:py-12">
-            {children}
+            {permission ? <RequirePermission permission={permission}>{children}</RequirePermission> : children}
           </div>
         </div>
       </main>
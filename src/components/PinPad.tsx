@@ -0,0 +1,51 @@
+import { Delete } from 'lucide-react';
+import { PIN_LENGTH } from '@shared/types';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { cn } from '@/lib/utils';
+type PinPadProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  className?: string;
+};
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'] as const;
+/** Masked PIN entry with oversized keys so operators can type it wearing gloves. */
+export function PinPad({ value, onChange, onComplete, disabled, className }: PinPadProps) {
+  const update = (next: string) => {
+    onChange(next);
+    if (next.length === PIN_LENGTH) onComplete?.(next);
+  };
+  const press = (key: typeof KEYS[number]) => {
+    if (key === 'clear') return update('');
+    if (key === 'back') return update(value.slice(0, -1));
+    if (value.length < PIN_LENGTH) update(value + key);
+  };
+  return (
+    <div className={cn('flex flex-col items-center gap-6', className)}>
+      <InputOTP maxLength={PIN_LENGTH} value={value} onChange={update} disabled={disabled} inputMode="numeric" pattern="^[0-9]*$">
+        <InputOTPGroup>
+          {Array.from({ length: PIN_LENGTH }).map((_, i) => (
+            <InputOTPSlot key={i} index={i} className="h-16 w-16 text-3xl font-mono [-webkit-text-security:disc]" />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+      <div className="grid grid-cols-3 gap-3 w-full max-w-xs">
+        {KEYS.map(key => (
+          <Button
+            key={key}
+            type="button"
+            variant={key === 'clear' || key === 'back' ? 'outline' : 'secondary'}
+            className="h-16 text-2xl font-semibold"
+            disabled={disabled}
+            onClick={() => press(key)}
+            aria-label={key === 'back' ? 'Delete last digit' : key === 'clear' ? 'Clear PIN' : key}
+          >
+            {key === 'back' ? <Delete className="h-6 w-6" /> : key === 'clear' ? <span className="text-base">Clear</span> : key}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
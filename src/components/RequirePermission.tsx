@@ -0,0 +1,26 @@
+import type { ReactNode } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { PERMISSIONS, type Permission } from '@shared/permissions';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { usePermission } from '@/hooks/usePermission';
+type RequirePermissionProps = {
+  permission: Permission | Permission[];
+  children: ReactNode;
+  /** Rendered instead of the default "Access Denied" alert; pass null to render nothing. */
+  fallback?: ReactNode;
+};
+export function RequirePermission({ permission, children, fallback }: RequirePermissionProps) {
+  const required = Array.isArray(permission) ? permission : [permission];
+  const allowed = usePermission(...required);
+  if (allowed) return <>{children}</>;
+  if (fallback !== undefined) return <>{fallback}</>;
+  return (
+    <Alert variant="destructive" className="max-w-2xl mx-auto">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>Access Denied</AlertTitle>
+      <AlertDescription>
+        This area requires: {required.map(p => PERMISSIONS[p]).join(', ')}. Please contact an administrator.
+      </AlertDescription>
+    </Alert>
+  );
+}
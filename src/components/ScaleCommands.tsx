@@ -0,0 +1,52 @@
+import { Eraser, Gauge, Loader2, Target, Weight, type LucideIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import type { CommandOutcome } from '@/stores/useScaleConnection';
+import { SCALE_COMMANDS, scaleDriver, type ScaleCommand } from '@/lib/scale-drivers';
+import { cn } from '@/lib/utils';
+import { useScaleStore } from '@/stores/useScaleStore';
+type ScaleCommandsProps = {
+  send: (command: ScaleCommand) => Promise<CommandOutcome>;
+  pending: ScaleCommand | null;
+  disabled?: boolean;
+  className?: string;
+};
+const COMMAND_BUTTONS: Record<ScaleCommand, { label: string; icon: LucideIcon }> = {
+  zero: { label: 'Zero', icon: Target },
+  tare: { label: 'Tare', icon: Weight },
+  'clear-tare': { label: 'Clear Tare', icon: Eraser },
+  'request-weight': { label: 'Read Weight', icon: Gauge },
+};
+const FAILURES: Record<Exclude<CommandOutcome, 'accepted' | 'sent'>, string> = {
+  busy: 'The scale is busy. Try again in a moment.',
+  'out-of-range': 'The scale refused: the weight is out of range.',
+  rejected: 'The scale rejected the command.',
+  'no-reply': 'The scale did not answer.',
+  failed: 'Could not send the command to the scale.',
+  unsupported: 'This scale protocol does not support that command.',
+};
+/** Large zero/tare/read-weight keys for the commands the configured driver can send. Hidden for drivers that cannot send any. */
+export function ScaleCommands({ send, pending, disabled, className }: ScaleCommandsProps) {
+  const driverId = useScaleStore(s => s.driverId);
+  const commands = SCALE_COMMANDS.filter(c => scaleDriver(driverId).commands[c]);
+  if (commands.length === 0) return null;
+  const run = async (command: ScaleCommand) => {
+    const { label } = COMMAND_BUTTONS[command];
+    const outcome = await send(command);
+    if (outcome === 'accepted') toast.success(`${label}: done.`);
+    else if (outcome !== 'sent') toast.error(`${label}: ${FAILURES[outcome]}`);
+  };
+  return (
+    <div className={cn('grid grid-cols-2 gap-3 sm:grid-cols-4', className)}>
+      {commands.map(command => {
+        const { label, icon: Icon } = COMMAND_BUTTONS[command];
+        return (
+          <Button key={command} type="button" variant="secondary" className="h-14 text-base font-semibold" disabled={disabled || pending !== null} onClick={() => run(command)}>
+            {pending === command ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Icon className="mr-2 h-5 w-5" />}
+            {label}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
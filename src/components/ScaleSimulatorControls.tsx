@@ -0,0 +1,28 @@
+import { useState } from 'react';
+import { PackageMinus, PackagePlus, TriangleAlert, Unplug } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { activeSimulator } from '@/lib/scale-simulator';
+import { cn } from '@/lib/utils';
+/** Puts loads on the simulated platform, for trainers and for demos of faults the scenarios do not cover. */
+export function ScaleSimulatorControls({ disabled, className }: { disabled?: boolean; className?: string }) {
+  const [load, setLoad] = useState('50');
+  const kg = parseFloat(load);
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <Input type="number" min={0} step="0.1" value={load} onChange={e => setLoad(e.target.value)} className="h-12 w-28 font-mono" aria-label="Simulated load (kg)" />
+      <Button type="button" variant="outline" className="h-12" disabled={disabled || !Number.isFinite(kg) || kg < 0} onClick={() => activeSimulator()?.place(kg)}>
+        <PackagePlus className="mr-2 h-4 w-4" /> Place
+      </Button>
+      <Button type="button" variant="outline" className="h-12" disabled={disabled} onClick={() => activeSimulator()?.place(0)}>
+        <PackageMinus className="mr-2 h-4 w-4" /> Clear
+      </Button>
+      <Button type="button" variant="outline" className="h-12" disabled={disabled} onClick={() => activeSimulator()?.overload()}>
+        <TriangleAlert className="mr-2 h-4 w-4" /> Overload
+      </Button>
+      <Button type="button" variant="outline" className="h-12" disabled={disabled} onClick={() => activeSimulator()?.pullCable()}>
+        <Unplug className="mr-2 h-4 w-4" /> Pull Cable
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+import { cn } from '@/lib/utils';
+export const TOTP_CODE_LENGTH = 6;
+type TotpCodeInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  className?: string;
+};
+/** Six-digit authenticator code entry, split 3+3 the way authenticator apps display it. */
+export function TotpCodeInput({ value, onChange, onComplete, disabled, autoFocus, className }: TotpCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={TOTP_CODE_LENGTH}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      autoComplete="one-time-code"
+      inputMode="numeric"
+      pattern="^[0-9]*$"
+      containerClassName={cn('justify-center', className)}
+    >
+      <InputOTPGroup>
+        {[0, 1, 2].map(i => <InputOTPSlot key={i} index={i} className="h-14 w-12 text-2xl font-mono" />)}
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        {[3, 4, 5].map(i => <InputOTPSlot key={i} index={i} className="h-14 w-12 text-2xl font-mono" />)}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -3,7 +3,7 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { api } from '@/lib/api-client';
-import type { User } from '@shared/types';
+import type { PublicUser } from '@shared/types';
 export function useAuth() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -19,7 +19,7 @@ export function useAuth() {
     queryFn: async () => {
       const activeToken = token || localStorage.getItem('token');
       if (!activeToken) throw new Error('No token');
-      return api<User>('/api/auth/me', {
+      return api<PublicUser>('/api/auth/me', {
         headers: { Authorization: `Bearer ${activeToken}` },
       });
     },
@@ -0,0 +1,7 @@
+import { hasPermission, type Permission } from '@shared/permissions';
+import { useAuthStore } from '@/stores/useAuthStore';
+/** True when the signed-in user holds every listed permission (same check the worker enforces). */
+export function usePermission(...permissions: Permission[]): boolean {
+  const user = useAuthStore(s => s.user);
+  return hasPermission(user, ...permissions);
+}
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { api } from '@/lib/api-client';
+import { useAuthStore } from '@/stores/useAuthStore';
+// Renew at most this often; the server only tracks activity at minute precision anyway.
+const RENEW_INTERVAL_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const;
+/**
+ * Slides the server-side idle timeout while the operator is actually using the page.
+ * A tablet left untouched stops renewing, so its session expires after the configured idle window.
+ */
+export function useSessionKeepAlive() {
+  const token = useAuthStore(s => s.token);
+  const lastRenewRef = useRef<number>(Date.now());
+  useEffect(() => {
+    if (!token) return;
+    const onActivity = () => {
+      const now = Date.now();
+      if (now - lastRenewRef.current < RENEW_INTERVAL_MS || !navigator.onLine) return;
+      lastRenewRef.current = now;
+      api('/api/auth/renew', { method: 'POST' }).catch(() => {
+        // A 401 here is picked up by useAuth on the next /me refetch
+      });
+    };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity));
+  }, [token]);
+}
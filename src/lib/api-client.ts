@@ -26,6 +26,9 @@ export async function api<T>(path: string, init?: RequestInit): Promise<T> {
   // Perform the request with the fully merged headers and the remaining init options
   const res = await fetch(path, { headers, ...restInit })
   const json = (await res.json()) as ApiResponse<T>
-  if (!res.ok || !json.success || json.data === undefined) throw new Error(json.error || 'Request failed')
+  if (!res.ok || !json.success || json.data === undefined) {
+    // Expose the HTTP status so callers (e.g. useAuth) can tell an expired session from other failures
+    throw Object.assign(new Error(json.error || 'Request failed'), { status: res.status })
+  }
   return json.data
 }
\ No newline at end of file
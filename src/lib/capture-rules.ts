@@ -0,0 +1,54 @@
+// --- Legal-for-Trade Capture Rules ---
+// A weight may only be captured once the load has settled, within the scale's range, rounded to its
+// division. The samples that proved it settled are returned so they can be stored with the capture.
+import type { StabilityEvidence } from '@shared/types';
+import { MAX_STABILITY_SAMPLES, roundToDivision, roundWeight } from '@shared/weighing';
+import type { ScaleDriver, ScaleReading } from '@/lib/scale-drivers';
+export interface CaptureRules {
+  division_kg: number; // verification scale interval (e); captures are rounded to it
+  min_kg: number; // minimum capacity; lighter loads cannot be weighed for trade
+  use_indicator_flag: boolean; // trust the indicator's stable flag when its driver reports one
+  window_ms: number; // how long the weight must hold still when judged by variance
+  max_spread_kg: number; // largest max - min over the window still counted as still
+  min_samples: number; // fewest readings in the window before variance is judged at all
+}
+// OIML class III: a platform scale with 100 g divisions has a 20 e (2 kg) minimum.
+export const DEFAULT_CAPTURE_RULES: CaptureRules = { division_kg: 0.1, min_kg: 2, use_indicator_flag: true, window_ms: 1500, max_spread_kg: 0.1, min_samples: 3 };
+export const DIVISIONS_KG = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20] as const;
+// A reading older than this means the indicator has gone quiet, whatever the window.
+const STALE_READING_MS = 2000;
+export type CaptureAssessment =
+  | { status: 'stable'; weight_kg: number; evidence: StabilityEvidence }
+  | { status: 'motion' | 'blocked'; reason: string };
+/** Decides whether the live weight may be captured for trade, given the recent readings oldest first. */
+export function assessCapture(samples: readonly ScaleReading[], driver: ScaleDriver, rules: CaptureRules, now = Date.now()): CaptureAssessment {
+  const latest = samples[samples.length - 1];
+  if (!latest || now - latest.received_at > Math.max(STALE_READING_MS, rules.window_ms)) return { status: 'blocked', reason: 'No reading from the scale' };
+  if (latest.overload) return { status: 'blocked', reason: 'Scale is overloaded' };
+  if (latest.underload || latest.kg < 0) return { status: 'blocked', reason: 'Negative weight: zero the scale before weighing' };
+  const window = samples.filter(s => s.received_at >= now - rules.window_ms);
+  // Both paths store the window as evidence, and the server refuses a capture without it.
+  if (window.length < rules.min_samples) return { status: 'blocked', reason: 'Too few recent readings from the scale' };
+  const weights = window.map(s => s.kg);
+  const spread = roundWeight(Math.max(...weights) - Math.min(...weights));
+  const byFlag = rules.use_indicator_flag && driver.reportsStability;
+  const settled = byFlag
+    ? latest.stable
+    : samples[0].received_at <= now - rules.window_ms && spread <= rules.max_spread_kg && !window.some(s => s.overload || s.underload);
+  if (!settled) return { status: 'motion', reason: 'Waiting for the load to settle' };
+  const weight_kg = roundToDivision(latest.kg, rules.division_kg);
+  if (weight_kg < rules.min_kg) return { status: 'blocked', reason: `Below the ${rules.min_kg} kg minimum for this scale` };
+  return {
+    status: 'stable',
+    weight_kg,
+    evidence: {
+      method: byFlag ? 'indicator' : 'variance',
+      samples: window.slice(-MAX_STABILITY_SAMPLES).map(s => ({ kg: s.kg, at: s.received_at })),
+      spread_kg: spread,
+      window_ms: rules.window_ms,
+      division_kg: rules.division_kg,
+      min_kg: rules.min_kg,
+      raw: latest.raw.slice(0, 200),
+    },
+  };
+}
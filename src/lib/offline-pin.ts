@@ -0,0 +1,42 @@
+// --- Offline Operator PIN Check ---
+// Lets a terminal without network switch operator. Approved terminals mirror the PIN hashes of operators
+// allowed PIN login; wrong PINs count towards the same lockout the server applies, kept on this terminal.
+import { MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS, type OperatorProfile } from '@shared/types';
+const ATTEMPTS_KEY = 'suitewaste-offline-pin-attempts';
+type Attempts = Record<string, { failures: number; locked_until?: number }>;
+const readAttempts = (): Attempts => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ATTEMPTS_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+const decodeBase64 = (b64: string): Uint8Array => Uint8Array.from(atob(b64), ch => ch.charCodeAt(0));
+/** Checks a PIN against a `pbkdf2$<iterations>$<salt>$<hash>` record, as worker/security.ts stores it. */
+async function matchesPinHash(pin: string, stored: string): Promise<boolean> {
+  const [scheme, iterationsRaw, saltB64, hashB64] = stored.split('$');
+  const iterations = Number(iterationsRaw);
+  if (scheme !== 'pbkdf2' || !Number.isFinite(iterations) || !saltB64 || !hashB64) return false;
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const actual = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: decodeBase64(saltB64), iterations }, key, 256));
+  const expected = decodeBase64(hashB64);
+  return actual.length === expected.length && actual.every((b, i) => b === expected[i]);
+}
+/** Returns why `pin` does not switch to `operator` offline, or null when it does. */
+export async function offlinePinError(operator: OperatorProfile | undefined, pin: string, now = Date.now()): Promise<string | null> {
+  if (!operator?.pin_hash) return 'This operator cannot be switched to offline. Reconnect to sign in.';
+  const attempts = readAttempts();
+  const lockedUntil = Math.max(operator.pin_locked_until ?? 0, attempts[operator.id]?.locked_until ?? 0);
+  if (lockedUntil > now) {
+    const minutes = Math.ceil((lockedUntil - now) / 60000);
+    return `Too many wrong PINs. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+  }
+  const valid = await matchesPinHash(pin, operator.pin_hash);
+  const failures = valid ? 0 : (attempts[operator.id]?.failures ?? 0) + 1;
+  if (valid) delete attempts[operator.id];
+  else attempts[operator.id] = failures >= MAX_PIN_ATTEMPTS ? { failures: 0, locked_until: now + PIN_LOCKOUT_MS } : { failures };
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+  if (valid) return null;
+  return failures >= MAX_PIN_ATTEMPTS ? 'Too many wrong PINs. PIN login is locked for 15 minutes.' : `Incorrect PIN. ${MAX_PIN_ATTEMPTS - failures} attempt(s) left.`;
+}
@@ -0,0 +1,140 @@
+// --- Scale Protocol Drivers ---
+// Weighing indicators talk very different dialects over RS-232/USB serial. A driver knows how to frame one
+// line of output and turn it into a structured reading; the serial settings are only its defaults, since
+// most indicators let the installer change baud rate and framing.
+export const WEIGHT_UNITS = ['kg', 'g', 'lb', 't'] as const;
+export type WeightUnit = typeof WEIGHT_UNITS[number];
+const KG_PER_UNIT: Record<WeightUnit, number> = { kg: 1, g: 0.001, lb: 0.45359237, t: 1000 };
+export interface ScaleReading {
+  value: number; // as displayed by the indicator, signed
+  unit: WeightUnit;
+  kg: number; // value converted to kilograms, rounded to 10 g
+  stable: boolean; // the indicator reports the weight as settled; always false for drivers without the flag
+  overload: boolean; // over capacity ("OL"); value is meaningless
+  underload: boolean; // below zero range; value is meaningless
+  raw: string; // the line as received, for diagnostics
+  received_at: number; // epoch millis
+}
+export type SerialParity = 'none' | 'even' | 'odd';
+export type LineEnding = 'crlf' | 'cr' | 'lf';
+export interface SerialSettings {
+  baudRate: number;
+  dataBits: 7 | 8;
+  parity: SerialParity;
+  stopBits: 1 | 2;
+  lineEnding: LineEnding;
+}
+export const BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200] as const;
+export const LINE_ENDINGS: Record<LineEnding, string> = { crlf: '\r\n', cr: '\r', lf: '\n' };
+export const SCALE_COMMANDS = ['zero', 'tare', 'clear-tare', 'request-weight'] as const;
+export type ScaleCommand = typeof SCALE_COMMANDS[number];
+// How the indicator answered a command. Drivers that never answer are only ever 'sent'.
+export type CommandAck = 'accepted' | 'busy' | 'out-of-range' | 'rejected';
+export interface CommandSpec {
+  send: string; // written with the configured line ending
+  // Classifies a reply line; null for lines that are not an answer to this command (e.g. streamed weights).
+  reply?: (line: string) => CommandAck | null;
+}
+export interface ScaleDriver {
+  id: string;
+  label: string;
+  description: string;
+  defaults: SerialSettings;
+  reportsStability: boolean; // readings carry a real stable flag; otherwise stability must come from variance
+  // Continuous indicators stream on their own; command/response ones are polled with `poll`.
+  poll?: { command: string; intervalMs: number };
+  commands: Partial<Record<ScaleCommand, CommandSpec>>; // what the POS can ask the indicator to do
+  parse: (line: string) => Omit<ScaleReading, 'kg' | 'raw' | 'received_at'> | null;
+}
+const isUnit = (value: string): value is WeightUnit => (WEIGHT_UNITS as readonly string[]).includes(value);
+const unitOf = (token: string | undefined, fallback: WeightUnit = 'kg'): WeightUnit => {
+  const unit = token?.trim().toLowerCase().replace(/^lbs$/, 'lb') ?? '';
+  return isUnit(unit) ? unit : fallback;
+};
+const signed = (sign: string | undefined, digits: string): number => (sign === '-' ? -1 : 1) * parseFloat(digits);
+const OVERLOAD = /\b(OL|OVER(LOAD)?|O-L)\b/i;
+const UNDERLOAD = /\b(UL|UNDER(LOAD)?|U-L)\b/i;
+/** Any line holding a number, optionally signed and followed by a unit. No stability information. */
+const genericDriver: ScaleDriver = {
+  id: 'generic',
+  label: 'Generic (number only)',
+  description: 'Takes the first number on each line. Use for indicators that only print the weight.',
+  defaults: { baudRate: 9600, dataBits: 8, parity: 'none', stopBits: 1, lineEnding: 'crlf' },
+  reportsStability: false,
+  commands: {},
+  parse: (line) => {
+    if (OVERLOAD.test(line)) return { value: 0, unit: 'kg', stable: false, overload: true, underload: false };
+    if (UNDERLOAD.test(line)) return { value: 0, unit: 'kg', stable: false, overload: false, underload: true };
+    const match = line.match(/([+-])?\s*(\d+(?:\.\d+)?)\s*(kg|g|lbs?|t)?\b/i);
+    if (!match) return null;
+    return { value: signed(match[1], match[2]), unit: unitOf(match[3]), stable: false, overload: false, underload: false };
+  },
+};
+/**
+ * The comma-separated frame most Chinese and Taiwanese indicators stream: status, weight type, weight,
+ * e.g. "ST,GS,+0012.34kg". ST = stable, US = unstable, OL = overload; GS/NT/TR = gross/net/tare.
+ */
+const statusFrameDriver: ScaleDriver = {
+  id: 'st-gs',
+  label: 'ST,GS frame (continuous)',
+  description: 'Status,type,weight frames such as "ST,GS,+0012.34kg" from most generic platform indicators.',
+  defaults: { baudRate: 9600, dataBits: 8, parity: 'none', stopBits: 1, lineEnding: 'crlf' },
+  reportsStability: true,
+  // The usual single-letter keys on these indicators. They do not answer; the next streamed frame shows the result.
+  commands: { zero: { send: 'Z' }, tare: { send: 'T' }, 'clear-tare': { send: 'C' }, 'request-weight': { send: 'P' } },
+  parse: (line) => {
+    const match = line.trim().match(/^(ST|US|OL)\s*,\s*(GS|NT|TR)?\s*,?\s*([+-])?\s*(\d+(?:\.\d+)?)?\s*([a-z]+)?/i);
+    if (!match) return null;
+    const status = match[1].toUpperCase();
+    if (status === 'OL' || !match[4]) return { value: 0, unit: unitOf(match[5]), stable: false, overload: status === 'OL', underload: false };
+    return { value: signed(match[3], match[4]), unit: unitOf(match[5]), stable: status === 'ST', overload: false, underload: false };
+  },
+};
+/**
+ * Mettler Toledo Standard Interface Command Set. "SI" asks for the current weight immediately; the reply is
+ * "S S <weight> <unit>" when stable, "S D ..." while dynamic, "S +" / "S -" out of range and "S I" busy.
+ */
+const SICS_ACKS: Record<string, CommandAck> = { I: 'busy', '+': 'out-of-range', '-': 'out-of-range', L: 'rejected' };
+/** SICS replies echo the command, then a status: `accepted` lists the ones meaning success, the rest map via SICS_ACKS. */
+const sicsReply = (command: string, ...accepted: string[]) => (line: string): CommandAck | null => {
+  // Syntax, transmission or logical error. Not echoed, so only meaningful while nothing else is polling.
+  if (/^E[STL]$/.test(line.trim())) return 'rejected';
+  const match = line.trim().match(/^([A-Z]+)\s+(\S)/);
+  if (!match || match[1] !== command) return null;
+  return accepted.includes(match[2]) ? 'accepted' : SICS_ACKS[match[2]] ?? 'rejected';
+};
+const sicsDriver: ScaleDriver = {
+  id: 'mettler-sics',
+  label: 'Mettler Toledo SICS',
+  description: 'Polls with "SI" and reads "S S" (stable) / "S D" (dynamic) replies. For IND-series and most MT terminals.',
+  defaults: { baudRate: 9600, dataBits: 8, parity: 'none', stopBits: 1, lineEnding: 'crlf' },
+  reportsStability: true,
+  poll: { command: 'SI', intervalMs: 250 },
+  commands: {
+    zero: { send: 'Z', reply: sicsReply('Z', 'A') },
+    tare: { send: 'T', reply: sicsReply('T', 'S') },
+    'clear-tare': { send: 'TAC', reply: sicsReply('TAC', 'A') },
+    'request-weight': { send: 'SI', reply: sicsReply('S', 'S', 'D') },
+  },
+  parse: (line) => {
+    const match = line.trim().match(/^S\s+([SD+\-I])\s*([+-])?\s*(\d+(?:\.\d+)?)?\s*([a-z]+)?/i);
+    if (!match) return null;
+    const status = match[1].toUpperCase();
+    if (status === '+') return { value: 0, unit: 'kg', stable: false, overload: true, underload: false };
+    if (status === '-') return { value: 0, unit: 'kg', stable: false, overload: false, underload: true };
+    if (status === 'I' || !match[3]) return null; // busy; the next poll will answer
+    return { value: signed(match[2], match[3]), unit: unitOf(match[4]), stable: status === 'S', overload: false, underload: false };
+  },
+};
+export const SCALE_DRIVERS: readonly ScaleDriver[] = [genericDriver, statusFrameDriver, sicsDriver];
+export const DEFAULT_DRIVER_ID = genericDriver.id;
+export const scaleDriver = (id: string | undefined): ScaleDriver => SCALE_DRIVERS.find(d => d.id === id) ?? genericDriver;
+export const toKg = (value: number, unit: WeightUnit): number => Math.round(value * KG_PER_UNIT[unit] * 100) / 100;
+/** Parses one line with `driver`; null for lines that carry no weight (echoes, prompts, noise). */
+export function readLine(driver: ScaleDriver, line: string, receivedAt = Date.now()): ScaleReading | null {
+  const raw = line.trim();
+  if (!raw) return null;
+  const parsed = driver.parse(raw);
+  if (!parsed || !Number.isFinite(parsed.value)) return null;
+  return { ...parsed, kg: parsed.overload || parsed.underload ? 0 : toKg(parsed.value, parsed.unit), raw, received_at: receivedAt };
+}
@@ -0,0 +1,263 @@
+// --- Simulated Scale ---
+// A stand-in for a serial port with an indicator on the other end, for training, demos and end-to-end
+// tests. It speaks the configured driver's dialect, so parsing, polling, commands and the capture rules run
+// exactly as they would against hardware. Loads settle along a damped swing with a little noise, and
+// scenarios script what arrives on the platform.
+import { LINE_ENDINGS, scaleDriver, type LineEnding } from '@/lib/scale-drivers';
+export interface SimulationSettings {
+  scenario: string;
+  noise_kg: number; // reading jitter, ± this much
+  capacity_kg: number; // above this the indicator shows overload
+}
+interface ScenarioStep {
+  after_ms: number; // delay after the previous step
+  load_kg?: number; // what is now on the platform
+  wobble_kg?: number; // extra motion that keeps the load from settling (wind, a driver still moving)
+  disconnect?: boolean; // the cable is pulled
+}
+export interface SimulationScenario {
+  id: string;
+  label: string;
+  description: string;
+  loop: boolean;
+  steps: (random: () => number, capacityKg: number) => ScenarioStep[];
+}
+const between = (random: () => number, min: number, max: number) => Math.round((min + random() * (max - min)) * 10) / 10;
+export const SIMULATION_SCENARIOS: readonly SimulationScenario[] = [
+  {
+    id: 'manual',
+    label: 'Manual',
+    description: 'Empty platform; place and remove loads with the simulator controls.',
+    loop: false,
+    steps: () => [],
+  },
+  {
+    id: 'walk-in',
+    label: 'Walk-in customers',
+    description: 'Bags and bins of 5–120 kg arrive, settle, and are taken off again.',
+    loop: true,
+    steps: (random) => [{ after_ms: 3000, load_kg: between(random, 5, 120) }, { after_ms: 12_000, load_kg: 0 }],
+  },
+  {
+    id: 'vehicles',
+    label: 'Vehicles',
+    description: 'Trucks of 8–30 t drive on, stand for a gross or tare weigh, and drive off.',
+    loop: true,
+    steps: (random) => [{ after_ms: 4000, load_kg: between(random, 8000, 30_000) }, { after_ms: 20_000, load_kg: 0 }],
+  },
+  {
+    id: 'unsteady',
+    label: 'Unsteady load',
+    description: 'A load that keeps moving for 15 s before it settles, to practise waiting for stable.',
+    loop: true,
+    steps: (random) => [
+      { after_ms: 2000, load_kg: between(random, 200, 600), wobble_kg: 4 },
+      { after_ms: 15_000, wobble_kg: 0 },
+      { after_ms: 10_000, load_kg: 0 },
+    ],
+  },
+  {
+    id: 'overload',
+    label: 'Overload',
+    description: 'A normal load, then one over capacity, then the platform is cleared.',
+    loop: true,
+    steps: (_random, capacityKg) => [
+      { after_ms: 2000, load_kg: Math.round(capacityKg * 0.5) },
+      { after_ms: 8000, load_kg: Math.round(capacityKg * 1.2) },
+      { after_ms: 8000, load_kg: 0 },
+    ],
+  },
+  {
+    id: 'cable-fault',
+    label: 'Cable fault',
+    description: 'Weighs normally for a few seconds, then the connection drops.',
+    loop: false,
+    steps: (random) => [{ after_ms: 3000, load_kg: between(random, 20, 80) }, { after_ms: 12_000, disconnect: true }],
+  },
+];
+export const DEFAULT_SIMULATION: SimulationSettings = { scenario: 'walk-in', noise_kg: 0.02, capacity_kg: 60_000 };
+export const simulationScenario = (id: string | undefined): SimulationScenario => SIMULATION_SCENARIOS.find(s => s.id === id) ?? SIMULATION_SCENARIOS[0];
+// Fixed so that a scenario produces the same loads every run, which end-to-end tests rely on. Loads and
+// reading noise draw from separate generators, so how often the scale is read never shifts the loads.
+const LOAD_SEED = 20240601;
+const NOISE_SEED = 20240602;
+const STREAM_INTERVAL_MS = 100; // continuous indicators
+const SETTLE_TAU_MS = 400; // time constant of the swing towards a new load
+const SWING_PERIOD_MS = 750;
+const STABLE_BAND_KG = 0.05; // the indicator reports stable once the swing is inside this
+const ZERO_RANGE = 0.02; // of capacity; zeroing a heavier load is refused, as on a real indicator
+/** Small seeded PRNG (mulberry32); Math.random cannot be replayed. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+interface SimulatedReading {
+  kg: number; // displayed weight: gross less zero offset and tare
+  stable: boolean;
+  overload: boolean;
+  tared: boolean;
+}
+const signedKg = (kg: number, width = 0) => (kg < 0 ? '-' : '+') + Math.abs(kg).toFixed(2).padStart(width, '0');
+// Output frames per driver id; anything else gets the plain number the generic driver reads.
+const FRAMES: Record<string, (r: SimulatedReading) => string> = {
+  'st-gs': (r) => r.overload ? `OL,GS,` : `${r.stable ? 'ST' : 'US'},${r.tared ? 'NT' : 'GS'},${signedKg(r.kg, 7)}kg`,
+  'mettler-sics': (r) => r.overload ? 'S +' : `S ${r.stable ? 'S' : 'D'} ${r.kg.toFixed(2).padStart(10)} kg`,
+};
+const plainFrame = (r: SimulatedReading) => r.overload ? 'OL' : `${r.kg.toFixed(2)} kg`;
+const frameFor = (driverId: string) => FRAMES[driverId] ?? plainFrame;
+const opened: { port: SimulatedScalePort | null } = { port: null };
+/** The open simulated port, if any, for the simulator controls and for tests driving the POS. */
+export const activeSimulator = (): SimulatedScalePort | null => opened.port;
+/**
+ * Quacks like a Web Serial port. Continuous drivers get a frame every 100 ms; command/response ones (SICS)
+ * only answer what is written to them, including zero, tare and clear-tare.
+ */
+export class SimulatedScalePort extends EventTarget {
+  readable: ReadableStream<Uint8Array> | null = null;
+  writable: WritableStream<Uint8Array> | null = null;
+  private controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private stream: ReturnType<typeof setInterval> | null = null;
+  private loadRandom = seededRandom(LOAD_SEED);
+  private noiseRandom = seededRandom(NOISE_SEED);
+  private from = 0; // gross when the current load change started
+  private target = 0;
+  private since = Date.now();
+  private wobble = 0;
+  private zero = 0;
+  private tare = 0;
+  private readonly encoder = new TextEncoder();
+  private readonly terminator: string;
+  constructor(private readonly driverId: string, lineEnding: LineEnding, private readonly settings: SimulationSettings) {
+    super();
+    this.terminator = LINE_ENDINGS[lineEnding];
+  }
+  async open(): Promise<void> {
+    if (this.readable) throw new Error('The simulated port is already open.');
+    this.readable = new ReadableStream<Uint8Array>({
+      start: (controller) => { this.controller = controller; },
+      cancel: () => { this.controller = null; },
+    });
+    const decoder = new TextDecoder();
+    let pending = '';
+    this.writable = new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        pending += decoder.decode(chunk, { stream: true });
+        const lines = pending.split(/\r\n|\r|\n/);
+        pending = lines.pop() ?? '';
+        lines.forEach(line => this.handle(line.trim()));
+      },
+    });
+    if (!scaleDriver(this.driverId).poll) this.stream = setInterval(() => this.emit(frameFor(this.driverId)(this.read())), STREAM_INTERVAL_MS);
+    this.runScenario();
+    opened.port = this;
+  }
+  async close(): Promise<void> {
+    this.stop();
+    try {
+      this.controller?.close();
+    } catch (error) {
+      // Already cancelled by the reader.
+    }
+    this.controller = null;
+    this.readable = null;
+    this.writable = null;
+  }
+  /** Puts `kg` on the platform; it swings and settles from whatever was there. */
+  place(kg: number, wobbleKg = 0): void {
+    const now = Date.now();
+    this.from = this.gross(now, false);
+    this.target = kg;
+    this.since = now;
+    this.wobble = wobbleKg;
+  }
+  overload(): void {
+    this.place(Math.round(this.settings.capacity_kg * 1.2));
+  }
+  /** Behaves like a pulled USB cable: the stream errors and the port reports a disconnect. */
+  pullCable(): void {
+    this.stop();
+    try {
+      this.controller?.error(new Error('The device has been lost.'));
+    } catch (error) {
+      // The reader is already gone.
+    }
+    this.controller = null;
+    this.dispatchEvent(new Event('disconnect'));
+  }
+  private stop(): void {
+    if (this.stream) clearInterval(this.stream);
+    this.stream = null;
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    if (opened.port === this) opened.port = null;
+  }
+  private runScenario(): void {
+    const scenario = simulationScenario(this.settings.scenario);
+    const steps = scenario.steps(this.loadRandom, this.settings.capacity_kg);
+    if (steps.length === 0) return;
+    let at = 0;
+    steps.forEach((step, i) => {
+      at += step.after_ms;
+      this.timers.push(setTimeout(() => {
+        if (step.disconnect) return this.pullCable();
+        if (step.load_kg !== undefined) this.place(step.load_kg, step.wobble_kg ?? 0);
+        else if (step.wobble_kg !== undefined) this.wobble = step.wobble_kg;
+        if (scenario.loop && i === steps.length - 1) this.runScenario();
+      }, at));
+    });
+  }
+  private gross(now: number, withNoise = true): number {
+    const t = now - this.since;
+    const swing = (this.from - this.target) * Math.exp(-t / SETTLE_TAU_MS) * Math.cos((2 * Math.PI * t) / SWING_PERIOD_MS);
+    const jitter = withNoise ? (this.noiseRandom() * 2 - 1) * (this.settings.noise_kg + this.wobble) : 0;
+    return this.target + swing + jitter;
+  }
+  private read(now = Date.now()): SimulatedReading {
+    const gross = this.gross(now) - this.zero;
+    const settled = Math.abs(this.from - this.target) * Math.exp(-(now - this.since) / SETTLE_TAU_MS) < STABLE_BAND_KG;
+    return { kg: gross - this.tare, stable: settled && this.wobble === 0, overload: gross > this.settings.capacity_kg, tared: this.tare !== 0 };
+  }
+  private emit(line: string): void {
+    this.controller?.enqueue(this.encoder.encode(line + this.terminator));
+  }
+  private handle(command: string): void {
+    const sics = this.driverId === 'mettler-sics';
+    const reading = this.read();
+    const reply = (line: string) => { if (sics) this.emit(line); };
+    switch (command) {
+      case 'SI':
+      case 'P':
+        return this.emit(frameFor(this.driverId)(reading));
+      case 'Z':
+        if (!reading.stable) return reply('Z I');
+        if (Math.abs(reading.kg + this.tare) > this.settings.capacity_kg * ZERO_RANGE) return reply(reading.kg > 0 ? 'Z +' : 'Z -');
+        this.zero += reading.kg + this.tare;
+        this.tare = 0;
+        return reply('Z A');
+      case 'T':
+        if (!reading.stable) return reply('T I');
+        if (reading.overload) return reply('T +');
+        if (reading.kg + this.tare <= 0) return reply('T L');
+        this.tare = reading.kg + this.tare;
+        return reply(`T S ${this.tare.toFixed(2).padStart(10)} kg`);
+      case 'C':
+      case 'TAC':
+        this.tare = 0;
+        return reply('TAC A');
+      default:
+        return reply('ES');
+    }
+  }
+}
+if (import.meta.env.DEV && typeof window !== 'undefined') {
+  // Lets end-to-end tests place loads on whichever page opened the simulator. Development builds only:
+  // in production nothing outside the simulator controls may put a weight into the capture path.
+  (window as unknown as { simulatedScale: typeof activeSimulator }).simulatedScale = activeSimulator;
+}
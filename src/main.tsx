@@ -20,6 +20,9 @@ import { HardwareIntegrations } from '@/pages/HardwareIntegrations';
 import { Login } from '@/pages/Login';
 import { Settings } from '@/pages/Settings';
 import { Chat } from '@/pages/Chat';
+import { SyncQueue } from '@/pages/SyncQueue';
+// Starts the offline mirror of suppliers, materials and prices so the POS works from a cold boot.
+import '@/stores/useReferenceStore';
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -46,6 +49,7 @@ const router = createBrowserRouter([
   { path: "/hardware", element: <HardwareIntegrations />, errorElement: <RouteErrorBoundary /> },
   { path: "/settings", element: <Settings />, errorElement: <RouteErrorBoundary /> },
   { path: "/chat", element: <Chat />, errorElement: <RouteErrorBoundary /> },
+  { path: "/sync-queue", element: <SyncQueue />, errorElement: <RouteErrorBoundary /> },
 ]);
 // PWA Service Worker Registration
 if ('serviceWorker' in navigator && import.meta.env.PROD) {
@@ -1,12 +1,10 @@
 import { useState } from 'react';
 import { PageLayout } from '@/components/PageLayout';
-import { useAuthStore } from '@/stores/useAuthStore';
-import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { ShieldAlert, Send } from 'lucide-react';
+import { Send } from 'lucide-react';
 import { cn } from '@/lib/utils';
 const mockMessages = [
   { id: 1, user: 'Admin', text: 'Welcome to the team chat! This is a mock interface for now.', timestamp: '10:30 AM', avatar: 'https://github.com/shadcn.png' },
@@ -14,20 +12,7 @@ const mockMessages = [
   { id: 3, user: 'Manager', text: 'Remember to log all high-value materials with photos.', timestamp: '10:32 AM', avatar: 'https://github.com/vercel.png' },
 ];
 export function Chat() {
-  const user = useAuthStore(s => s.user);
   const [message, setMessage] = useState('');
-  const hasChatAccess = user?.features?.includes('chat-access');
-  if (!hasChatAccess) {
-    return (
-      <PageLayout>
-        <Alert variant="destructive" className="max-w-2xl mx-auto">
-          <ShieldAlert className="h-4 w-4" />
-          <AlertTitle>Access Denied</AlertTitle>
-          <AlertDescription>You do not have permission to access the chat feature. Please contact an administrator.</AlertDescription>
-        </Alert>
-      </PageLayout>
-    );
-  }
   const handleSend = () => {
     if (message.trim()) {
       console.log('Sending message (mock):', message);
@@ -36,7 +21,7 @@ export function Chat() {
     }
   };
   return (
-    <PageLayout>
+    <PageLayout permission="chat:access">
       <div className="h-[calc(100dvh-10rem)] md:h-[calc(100dvh-8rem)] flex flex-col max-w-4xl mx-auto border rounded-lg shadow-lg">
         <header className="p-4 border-b">
           <h1 className="text-xl font-bold">Team Chat</h1>
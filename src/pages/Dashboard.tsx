@@ -14,6 +14,7 @@ import { format } from 'date-fns';
 import type { InventoryLedgerEntry, Supplier, Transaction, EPRReport } from '@shared/types';
 import { useOfflineStore } from '@/stores/useOfflineStore';
 import { useAuth } from '@/hooks/useAuth';
+import { usePermission } from '@/hooks/usePermission';
 const KpiCard = memo(({ title, value, icon: Icon, isLoading }: { title: string; value: string | number; icon: React.ElementType; isLoading: boolean }) => (
   <Card className="group hover:-translate-y-1 hover:scale-[1.02] transition-all duration-300 backdrop-blur-xl shadow-glow shadow-primary/20 group-hover:shadow-primary/40 bg-card/80">
     <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -47,6 +48,7 @@ const RecentActivityTable = memo(({ title, data, columns, isLoading, viewAllLink
 ));
 const DashboardContent = memo(() => {
   const { user } = useAuth();
+  const canReadEpr = usePermission('epr:read');
   const { data: dashboardData, isLoading: isLoadingDashboard } = useQuery({
     queryKey: ['dashboard'],
     queryFn: () => api<any>('/api/dashboard'),
@@ -55,10 +57,10 @@ const DashboardContent = memo(() => {
   const { data: eprData, isLoading: isLoadingEpr } = useQuery({
     queryKey: ['epr-report'],
     queryFn: () => api<EPRReport>('/api/epr-report'),
-    enabled: !!user && (user.role === 'admin' || user.role === 'auditor'),
+    enabled: !!user && canReadEpr,
   });
   const summary = dashboardData?.summary || {};
-  const isLoading = isLoadingDashboard || (user && ['admin', 'auditor'].includes(user.role) && isLoadingEpr);
+  const isLoading = isLoadingDashboard || (canReadEpr && isLoadingEpr);
   if (!user) return null;
   return (
     <Suspense fallback={<div className="grid place-items-center h-64"><Skeleton className="h-12 w-full rounded-lg" /></div>}>
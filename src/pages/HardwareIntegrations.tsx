@@ -1,14 +1,213 @@
-import { useState } from 'react';
+import { useState, memo } from 'react';
 import { PageLayout } from '@/components/PageLayout';
+import { ScaleCommands } from '@/components/ScaleCommands';
+import { ScaleSimulatorControls } from '@/components/ScaleSimulatorControls';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useSerialScale } from '@/hooks/useSerialScale';
 import { api } from '@/lib/api-client';
 import { toast } from 'sonner';
-import { Cable, Camera, CheckCircle, CircleDashed, Loader2, XCircle } from 'lucide-react';
+import { Cable, Camera, CheckCircle, CircleDashed, Loader2, Plus, Trash2, XCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { BAUD_RATES, SCALE_DRIVERS, scaleDriver, type LineEnding, type ScaleReading, type SerialSettings } from '@/lib/scale-drivers';
+import { assessCapture, DIVISIONS_KG, type CaptureAssessment, type CaptureRules } from '@/lib/capture-rules';
+import { SIMULATION_SCENARIOS, simulationScenario, type SimulationSettings } from '@/lib/scale-simulator';
+import { useScaleStore, type ScaleSource } from '@/stores/useScaleStore';
+import { useScaleConnection } from '@/stores/useScaleConnection';
+import { format } from 'date-fns';
+const LINE_ENDING_LABELS: Record<LineEnding, string> = { crlf: 'CR LF', cr: 'CR', lf: 'LF' };
+const ScaleProtocolCard = memo(({ connected }: { connected: boolean }) => {
+  const driverId = useScaleStore(s => s.driverId);
+  const serial = useScaleStore(s => s.serial);
+  const setDriver = useScaleStore(s => s.setDriver);
+  const setSerial = useScaleStore(s => s.setSerial);
+  const portLabel = useScaleStore(s => s.source === 'serial' && s.portKey ? s.pairings[s.portKey]?.label : undefined);
+  const driver = scaleDriver(driverId);
+  const field = <K extends keyof SerialSettings>(key: K, label: string, options: readonly { value: SerialSettings[K]; label: string }[]) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={String(serial[key])} onValueChange={v => setSerial({ [key]: options.find(o => String(o.value) === v)!.value } as Partial<SerialSettings>)}>
+        <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+        <SelectContent>{options.map(o => <SelectItem key={String(o.value)} value={String(o.value)}>{o.label}</SelectItem>)}</SelectContent>
+      </Select>
+    </div>
+  );
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scale Protocol</CardTitle>
+        <p className="text-sm text-muted-foreground">Match the indicator's output settings. {connected ? 'Changes apply the next time the scale connects.' : portLabel ? `Saved with ${portLabel}.` : 'Saved on this terminal.'}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Driver</Label>
+          <Select value={driver.id} onValueChange={setDriver}>
+            <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+            <SelectContent>{SCALE_DRIVERS.map(d => <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>)}</SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{driver.description}</p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {field('baudRate', 'Baud', BAUD_RATES.map(b => ({ value: b, label: String(b) })))}
+          {field('dataBits', 'Data bits', [{ value: 7, label: '7' }, { value: 8, label: '8' }])}
+          {field('parity', 'Parity', [{ value: 'none', label: 'None' }, { value: 'even', label: 'Even' }, { value: 'odd', label: 'Odd' }])}
+          {field('stopBits', 'Stop bits', [{ value: 1, label: '1' }, { value: 2, label: '2' }])}
+          {field('lineEnding', 'Line end', (Object.keys(LINE_ENDING_LABELS) as LineEnding[]).map(e => ({ value: e, label: LINE_ENDING_LABELS[e] })))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+// Ports the browser has granted, each remembered with its own driver and framing.
+const PairedScales = memo(({ connected }: { connected: boolean }) => {
+  const pairings = useScaleStore(s => s.pairings);
+  const portKey = useScaleStore(s => s.portKey);
+  const pair = useScaleConnection(s => s.pair);
+  const forget = useScaleConnection(s => s.forget);
+  const entries = Object.entries(pairings).sort(([, a], [, b]) => b.paired_at - a.paired_at);
+  return (
+    <div className="space-y-2">
+      <Label>Paired scales</Label>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None yet. Connecting a scale pairs it; it reconnects by itself after that.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {entries.map(([key, p]) => (
+            <li key={key} className="flex items-center gap-3 p-3 text-sm">
+              <div className="min-w-0 flex-1">
+                <div className="font-medium">{p.label} {key === portKey && <Badge variant="outline" className="ml-1">In use</Badge>}</div>
+                <div className="text-xs text-muted-foreground">{scaleDriver(p.driverId).label} · {p.serial.baudRate} baud · paired {format(p.paired_at, 'PP')}</div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => forget(key).catch(e => toast.error('Could not forget the scale', { description: e instanceof Error ? e.message : undefined }))}>
+                <Trash2 className="mr-1 h-4 w-4" /> Forget
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button variant="outline" className="h-12 w-full" disabled={connected} onClick={pair}>
+        <Plus className="mr-2 h-4 w-4" /> Pair Another Scale
+      </Button>
+    </div>
+  );
+});
+// Training, demos and end-to-end tests run against the simulator; it speaks whichever protocol is selected.
+const ScaleSourceCard = memo(({ connected }: { connected: boolean }) => {
+  const source = useScaleStore(s => s.source);
+  const simulation = useScaleStore(s => s.simulation);
+  const setSource = useScaleStore(s => s.setSource);
+  const setSimulation = useScaleStore(s => s.setSimulation);
+  const scenario = simulationScenario(simulation.scenario);
+  const number = (key: keyof Omit<SimulationSettings, 'scenario'>, label: string, step: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`sim-${key}`}>{label}</Label>
+      <Input id={`sim-${key}`} type="number" min={0} step={step} value={String(simulation[key])} onChange={e => { const v = Number(e.target.value); if (e.target.value !== '' && Number.isFinite(v) && v >= 0) setSimulation({ [key]: v }); }} className="h-12 font-mono" />
+    </div>
+  );
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scale Source</CardTitle>
+        <p className="text-sm text-muted-foreground">Use a simulated scale to train operators or demo the POS without an indicator. Captures from it are still recorded. {connected && 'Changes apply the next time the scale connects.'}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Source</Label>
+          <Select value={source} onValueChange={v => setSource(v as ScaleSource)}>
+            <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="serial">Serial port (Web Serial)</SelectItem>
+              <SelectItem value="simulated">Simulated scale</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {source === 'serial' && <PairedScales connected={connected} />}
+        {source === 'simulated' && (
+          <>
+            <div className="space-y-2">
+              <Label>Scenario</Label>
+              <Select value={scenario.id} onValueChange={v => setSimulation({ scenario: v })}>
+                <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+                <SelectContent>{SIMULATION_SCENARIOS.map(s => <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>)}</SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{scenario.description}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {number('noise_kg', 'Noise (± kg)', '0.01')}
+              {number('capacity_kg', 'Capacity (kg)', '100')}
+            </div>
+            <ScaleSimulatorControls disabled={!connected} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+const CaptureRulesCard = memo(() => {
+  const rules = useScaleStore(s => s.rules);
+  const setRules = useScaleStore(s => s.setRules);
+  const driver = scaleDriver(useScaleStore(s => s.driverId));
+  const number = (key: keyof CaptureRules, label: string, step: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`rule-${key}`}>{label}</Label>
+      <Input id={`rule-${key}`} type="number" min={0} step={step} value={String(rules[key])} onChange={e => { const v = Number(e.target.value); if (e.target.value !== '' && Number.isFinite(v) && v >= 0) setRules({ [key]: v }); }} className="h-12 font-mono" />
+    </div>
+  );
+  const byFlag = rules.use_indicator_flag && driver.reportsStability;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Capture Rules</CardTitle>
+        <p className="text-sm text-muted-foreground">The POS only captures a settled weight within this scale's range, rounded to its division. Set these to the scale's verification certificate.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Division (e)</Label>
+            <Select value={String(rules.division_kg)} onValueChange={v => setRules({ division_kg: Number(v) })}>
+              <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+              <SelectContent>{DIVISIONS_KG.map(d => <SelectItem key={d} value={String(d)}>{d >= 1 ? `${d} kg` : `${d * 1000} g`}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          {number('min_kg', 'Minimum (kg)', '0.1')}
+          <label className="col-span-2 flex items-center gap-3 self-end pb-3 text-sm">
+            <Switch checked={rules.use_indicator_flag} disabled={!driver.reportsStability} onCheckedChange={v => setRules({ use_indicator_flag: v })} />
+            {driver.reportsStability ? "Trust the indicator's stable flag" : 'This driver has no stable flag'}
+          </label>
+        </div>
+        <div className={cn('grid grid-cols-3 gap-4', byFlag && 'opacity-60')}>
+          {number('window_ms', 'Window (ms)', '100')}
+          {number('max_spread_kg', 'Max spread (kg)', '0.01')}
+          {number('min_samples', 'Min samples', '1')}
+        </div>
+        <p className="text-xs text-muted-foreground">{byFlag ? `Stability comes from the indicator; ${rules.min_samples}+ readings in the last ${rules.window_ms} ms are still needed as evidence.` : `Stable once ${rules.min_samples}+ readings over ${rules.window_ms} ms stay within ${rules.max_spread_kg} kg.`}</p>
+      </CardContent>
+    </Card>
+  );
+});
+const ReadingDetails = memo(({ reading, assessment }: { reading: ScaleReading | null; assessment: CaptureAssessment }) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    {reading ? (
+      <>
+        {assessment.status === 'stable' ? <Badge variant="secondary">Stable: {assessment.weight_kg.toFixed(2)} kg</Badge> : <Badge variant={assessment.status === 'motion' ? 'outline' : 'destructive'}>{assessment.reason}</Badge>}
+        {!reading.overload && !reading.underload && reading.unit !== 'kg' && <span className="text-muted-foreground">{reading.value} {reading.unit}</span>}
+        <code className="ml-auto max-w-full truncate rounded bg-muted px-2 py-1 font-mono text-xs" title="Last line received">{reading.raw}</code>
+      </>
+    ) : (
+      <span className="text-muted-foreground">No reading yet.</span>
+    )}
+  </div>
+));
 export function HardwareIntegrations() {
-  const { weight, status, connect, disconnect } = useSerialScale();
+  const { weight, reading, samples, status, pendingCommand, connect, disconnect, sendCommand } = useSerialScale();
+  const driverId = useScaleStore(s => s.driverId);
+  const rules = useScaleStore(s => s.rules);
+  const assessment = assessCapture(samples, scaleDriver(driverId), rules);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [isFetchingImage, setIsFetchingImage] = useState(false);
   const handleSnapshot = async () => {
@@ -29,10 +228,11 @@ export function HardwareIntegrations() {
     connecting: <CircleDashed className="h-5 w-5 text-yellow-500 animate-spin" />,
     connected: <CheckCircle className="h-5 w-5 text-green-500" />,
     parsing: <CheckCircle className="h-5 w-5 text-green-500 animate-pulse" />,
+    reconnecting: <CircleDashed className="h-5 w-5 text-yellow-500 animate-spin" />,
     error: <XCircle className="h-5 w-5 text-red-500" />,
   };
   return (
-    <PageLayout>
+    <PageLayout permission="hardware:manage">
       <div className="space-y-8">
         <h1 className="text-3xl font-bold tracking-tight">Hardware Integrations</h1>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8">
@@ -47,9 +247,11 @@ export function HardwareIntegrations() {
             <CardContent className="space-y-4">
               <div className="text-center p-8 bg-muted rounded-lg">
                 <span className={cn("text-[clamp(4rem,16vw,8rem)] font-mono font-bold", status === 'connected' || status === 'parsing' ? 'text-foreground' : 'text-muted-foreground')}>
-                  {weight.toFixed(2)} kg
+                  {reading?.overload ? 'OL' : `${weight.toFixed(2)} kg`}
                 </span>
               </div>
+              <ReadingDetails reading={reading} assessment={assessment} />
+              <ScaleCommands send={sendCommand} pending={pendingCommand} disabled={status !== 'connected' && status !== 'parsing'} />
               <div className="grid grid-cols-1 md:flex gap-4">
                 <Button onClick={connect} disabled={status === 'connected' || status === 'connecting'} className="flex-1 h-14">
                   <Cable className="mr-2 h-4 w-4" /> Connect
@@ -80,6 +282,9 @@ export function HardwareIntegrations() {
               </Button>
             </CardContent>
           </Card>
+          <ScaleSourceCard connected={status === 'connected' || status === 'parsing'} />
+          <ScaleProtocolCard connected={status === 'connected' || status === 'parsing'} />
+          <CaptureRulesCard />
         </div>
       </div>
     </PageLayout>
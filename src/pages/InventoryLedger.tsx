@@ -1,7 +1,8 @@
-import { useMemo, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { memo, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api-client';
-import type { InventoryLedgerEntry, Supplier } from '@shared/types';
+import type { CreateLedgerCorrectionRequest, InventoryLedgerEntry, LedgerChainBreakReason, LedgerCorrection, LedgerVerification, Material, Supplier } from '@shared/types';
+import { materialLabel, materialResolver } from '@shared/materials';
 import { PageLayout } from '@/components/PageLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -10,16 +11,189 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
 import { BarChart, PieChart, ResponsiveContainer, Bar, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
-import { CheckCircle, CircleDashed } from 'lucide-react';
+import { CheckCircle, CircleDashed, Loader2, PencilLine, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePermission } from '@/hooks/usePermission';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { toast } from 'sonner';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 const COLORS = ['#38761d', '#5a9a47', '#7cb870', '#a0d69a', '#c5f4c3'];
 const PAGE_SIZE = 10;
+const BREAK_REASONS: Record<LedgerChainBreakReason, string> = {
+  missing_entry: 'an entry is missing',
+  duplicate_sequence: 'a sequence number is duplicated',
+  broken_link: 'an entry does not link to its predecessor',
+  content_modified: 'an entry was modified after capture',
+};
+/** Re-walks the server-side hash chain so auditors can see at a glance whether the ledger was tampered with. */
+const IntegrityIndicator = memo(() => {
+  const { data, isFetching, isError, refetch } = useQuery({
+    queryKey: ['ledger-verify'],
+    queryFn: () => api<LedgerVerification>('/api/ledger/verify'),
+  });
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      {isError ? (
+        <span className="text-sm text-muted-foreground">Integrity check unavailable</span>
+      ) : !data ? (
+        <span className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Verifying ledger…</span>
+      ) : data.valid ? (
+        <span className="flex items-center gap-2 rounded-full bg-green-500/10 px-3 py-1 text-sm font-medium text-green-500" title={`Verified ${format(data.verified_at, 'PPpp')}`}>
+          <ShieldCheck className="h-4 w-4" /> Integrity verified · {data.checked} chained entries{data.unchained > 0 && ` (+${data.unchained} legacy)`}
+        </span>
+      ) : (
+        <span className="flex items-center gap-2 rounded-full bg-destructive/10 px-3 py-1 text-sm font-medium text-destructive">
+          <ShieldAlert className="h-4 w-4" /> Chain broken at #{data.first_break?.sequence}: {data.first_break ? BREAK_REASONS[data.first_break.reason] : 'unknown'}
+        </span>
+      )}
+      <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isFetching} aria-label="Re-verify ledger">
+        <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+      </Button>
+    </div>
+  );
+});
+type CorrectEntryDialogProps = { entry: InventoryLedgerEntry | null; suppliers: Supplier[]; materials: Material[]; onClose: () => void };
+const CorrectEntryDialog = memo(({ entry, suppliers, materials, onClose }: CorrectEntryDialogProps) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Partial<CreateLedgerCorrectionRequest>>({});
+  const supplierId = draft.supplier_id ?? entry?.supplier_id ?? '';
+  const materialId = draft.material_id ?? (entry ? materialResolver(materials)(entry)?.id : undefined) ?? '';
+  const material = materials.find(m => m.id === materialId);
+  const materialOptions = materials.filter(m => m.active || m.id === materialId);
+  const weight = draft.weight_kg ?? entry?.weight_kg ?? 0;
+  const reason = draft.reason ?? '';
+  const close = () => {
+    setDraft({});
+    onClose();
+  };
+  const mutation = useMutation({
+    mutationFn: (body: CreateLedgerCorrectionRequest) => api<LedgerCorrection>(`/api/ledger/${entry?.id}/corrections`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    onSuccess: () => {
+      toast.success('Correction submitted', { description: 'A manager must approve it before the ledger changes.' });
+      queryClient.invalidateQueries({ queryKey: ['ledger-corrections'] });
+      close();
+    },
+    onError: (e) => toast.error('Could not submit correction', { description: e.message }),
+  });
+  return (
+    <Dialog open={!!entry} onOpenChange={open => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Correct Ledger Entry</DialogTitle>
+          <DialogDescription>The original entry is kept. Once approved, a reversal and a corrected replacement are added to the ledger.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Supplier</Label>
+            <Select value={supplierId} onValueChange={v => setDraft(d => ({ ...d, supplier_id: v }))}>
+              <SelectTrigger className="h-12"><SelectValue placeholder="Select supplier" /></SelectTrigger>
+              <SelectContent>{suppliers.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Material</Label>
+              <Select value={materialId} onValueChange={v => setDraft(d => ({ ...d, material_id: v }))}>
+                <SelectTrigger className="h-12"><SelectValue placeholder={entry?.material_type ?? 'Select material'} /></SelectTrigger>
+                <SelectContent>{materialOptions.map(m => <SelectItem key={m.id} value={m.id}>{m.code} · {materialLabel(m)}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correct-weight">Weight (kg)</Label>
+              <Input id="correct-weight" type="number" step="0.01" min={0} value={weight} onChange={e => setDraft(d => ({ ...d, weight_kg: Number(e.target.value) }))} className="h-12 font-mono" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correct-reason">Reason</Label>
+            <Textarea id="correct-reason" placeholder="e.g., Captured against the wrong supplier" value={reason} onChange={e => setDraft(d => ({ ...d, reason: e.target.value }))} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button disabled={reason.trim().length < 5 || !supplierId || !material || weight <= 0 || mutation.isPending} onClick={() => material && mutation.mutate({ supplier_id: supplierId, material_id: material.id, material_type: materialLabel(material), weight_kg: weight, reason })}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Submit for Approval
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+type PendingCorrectionsCardProps = { corrections: LedgerCorrection[]; entries: InventoryLedgerEntry[]; supplierName: (id: string) => string };
+const PendingCorrectionsCard = memo(({ corrections, entries, supplierName }: PendingCorrectionsCardProps) => {
+  const queryClient = useQueryClient();
+  const canApprove = usePermission('ledger:approve');
+  const currentUserId = useAuthStore(s => s.user?.id);
+  const decide = useMutation({
+    mutationFn: ({ id, action, note }: { id: string; action: 'approve' | 'reject'; note?: string }) => api<LedgerCorrection>(`/api/ledger/corrections/${id}/${action}`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    }),
+    onSuccess: (correction) => {
+      toast.success(correction.status === 'approved' ? 'Correction approved and posted to the ledger' : 'Correction rejected');
+      queryClient.invalidateQueries({ queryKey: ['ledger-corrections'] });
+      queryClient.invalidateQueries({ queryKey: ['ledger'] });
+      queryClient.invalidateQueries({ queryKey: ['ledger-verify'] });
+    },
+    onError: (e) => toast.error('Decision failed', { description: e.message }),
+  });
+  const reject = (id: string) => {
+    const note = window.prompt('Reason for rejecting this correction (optional):');
+    if (note !== null) decide.mutate({ id, action: 'reject', note });
+  };
+  if (corrections.length === 0) return null;
+  return (
+    <Card className="border-yellow-500/30">
+      <CardHeader><CardTitle>Corrections Awaiting Approval</CardTitle></CardHeader>
+      <CardContent>
+        <div className="min-w-full overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader><TableRow><TableHead>Requested</TableHead><TableHead>Original</TableHead><TableHead>Corrected To</TableHead><TableHead>Reason</TableHead><TableHead className="text-right">Decision</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {corrections.map(k => {
+                const original = entries.find(e => e.id === k.entry_id);
+                const ownRequest = k.requested_by === currentUserId;
+                const busy = decide.isPending && decide.variables?.id === k.id;
+                return (
+                  <TableRow key={k.id}>
+                    <TableCell className="text-sm">{format(k.requested_at, 'PPp')}<div className="text-xs text-muted-foreground">by {k.requested_by_username || k.requested_by}</div></TableCell>
+                    <TableCell className="text-sm">{original ? `${supplierName(original.supplier_id)} · ${original.material_type} · ${original.weight_kg.toFixed(2)} kg` : k.entry_id}</TableCell>
+                    <TableCell className="text-sm">{supplierName(k.proposed.supplier_id)} · {k.proposed.material_type} · {k.proposed.weight_kg.toFixed(2)} kg</TableCell>
+                    <TableCell className="max-w-[240px] text-sm">{k.reason}</TableCell>
+                    <TableCell className="text-right">
+                      {canApprove ? (
+                        <div className="flex justify-end gap-2" title={ownRequest ? 'Another manager must decide on your own request' : undefined}>
+                          <Button size="sm" variant="outline" disabled={ownRequest || busy} onClick={() => reject(k.id)}>Reject</Button>
+                          <Button size="sm" disabled={ownRequest || busy} onClick={() => decide.mutate({ id: k.id, action: 'approve' })}>
+                            {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Approve
+                          </Button>
+                        </div>
+                      ) : <Badge variant="outline">Pending</Badge>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
 export function InventoryLedger() {
   const [materialFilter, setMaterialFilter] = useState('');
   const [supplierFilter, setSupplierFilter] = useState('all');
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [page, setPage] = useState(1);
+  const [correcting, setCorrecting] = useState<InventoryLedgerEntry | null>(null);
+  const canRequestCorrection = usePermission('ledger:write');
   const { data: ledgerEntries, isLoading: isLoadingLedger } = useQuery({
     queryKey: ['ledger'],
     queryFn: () => api<InventoryLedgerEntry[]>('/api/ledger'),
@@ -28,6 +202,17 @@ export function InventoryLedger() {
     queryKey: ['suppliers'],
     queryFn: () => api<Supplier[]>('/api/suppliers'),
   });
+  const { data: materials } = useQuery({ queryKey: ['materials'], queryFn: () => api<Material[]>('/api/materials') });
+  const { data: corrections } = useQuery({
+    queryKey: ['ledger-corrections'],
+    queryFn: () => api<LedgerCorrection[]>('/api/ledger/corrections'),
+  });
+  const supplierName = (id: string) => suppliers?.find(s => s.id === id)?.name || 'Unknown';
+  const pendingCorrections = useMemo(() => corrections?.filter(k => k.status === 'pending') ?? [], [corrections]);
+  // Originals stay in the ledger; their status is derived from the reversal entries that point back at them.
+  const reversedIds = useMemo(() => new Set(ledgerEntries?.filter(e => e.entry_type === 'reversal' && e.corrects_entry_id).map(e => e.corrects_entry_id!)), [ledgerEntries]);
+  const pendingIds = useMemo(() => new Set(pendingCorrections.map(k => k.entry_id)), [pendingCorrections]);
+  const correctionReasons = useMemo(() => new Map(corrections?.map(k => [k.id, k.reason])), [corrections]);
   const filteredEntries = useMemo(() => {
     const from = dateFrom ? new Date(dateFrom).getTime() : 0;
     const to = dateTo ? new Date(dateTo).getTime() + 86400000 : Infinity; // include whole day
@@ -57,13 +242,17 @@ export function InventoryLedger() {
     return Object.entries(weights).map(([name, value]) => ({ name, value })).sort((a,b) => b.value - a.value);
   }, [filteredEntries, suppliers]);
   return (
-    <PageLayout>
+    <PageLayout permission="ledger:read">
       <div className="space-y-8">
-        <h1 className="text-3xl font-bold tracking-tight">Inventory Ledger</h1>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold tracking-tight">Inventory Ledger</h1>
+          <IntegrityIndicator />
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <Card><CardHeader><CardTitle>Weight by Material (kg)</CardTitle></CardHeader><CardContent><ResponsiveContainer width="100%" height={300} className="!min-h-[250px] md:min-h-[300px]"><PieChart><Pie data={weightByMaterial} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} fill="#8884d8" labelLine={false} label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}>{weightByMaterial.map((entry, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}</Pie><Tooltip /><Legend /></PieChart></ResponsiveContainer></CardContent></Card>
           <Card><CardHeader><CardTitle>Weight by Supplier (kg)</CardTitle></CardHeader><CardContent><ResponsiveContainer width="100%" height={300} className="!min-h-[250px] md:min-h-[300px]"><BarChart data={weightBySupplier}><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="name" tick={{ fontSize: 12 }} interval={0} angle={-30} textAnchor="end" height={70} /><YAxis /><Tooltip /><Legend /><Bar dataKey="value" fill="#38761d" /></BarChart></ResponsiveContainer></CardContent></Card>
         </div>
+        <PendingCorrectionsCard corrections={pendingCorrections} entries={ledgerEntries ?? []} supplierName={supplierName} />
         <Card>
           <CardHeader>
             <div className="flex flex-col md:flex-row gap-4 justify-between items-start md:items-center">
@@ -81,19 +270,40 @@ export function InventoryLedger() {
           <CardContent>
             <div className="min-w-full overflow-x-auto border rounded-lg">
               <Table>
-                <TableHeader><TableRow><TableHead>Timestamp</TableHead><TableHead>Supplier</TableHead><TableHead>Material</TableHead><TableHead className="text-right">Weight (kg)</TableHead><TableHead className="text-center">Status</TableHead></TableRow></TableHeader>
+                <TableHeader><TableRow><TableHead>Timestamp</TableHead><TableHead>Supplier</TableHead><TableHead>Material</TableHead><TableHead className="text-right">Weight (kg)</TableHead><TableHead className="text-center">Status</TableHead>{canRequestCorrection && <TableHead className="text-right">Action</TableHead>}</TableRow></TableHeader>
                 <TableBody>
-                  {isLoadingLedger ? (Array.from({ length: 5 }).map((_, i) => (<TableRow key={i}><TableCell colSpan={5}><Skeleton className="h-8 w-full" /></TableCell></TableRow>)))
+                  {isLoadingLedger ? (Array.from({ length: 5 }).map((_, i) => (<TableRow key={i}><TableCell colSpan={6}><Skeleton className="h-8 w-full" /></TableCell></TableRow>)))
                    : paginatedEntries.length > 0 ? (paginatedEntries.map(entry => (
-                      <TableRow key={entry.id}>
-                        <TableCell>{format(new Date(entry.capture_timestamp), 'PPpp')}</TableCell>
+                      <TableRow key={entry.id} className={reversedIds.has(entry.id) ? 'opacity-60' : undefined}>
+                        <TableCell>
+                          <div>{format(new Date(entry.capture_timestamp), 'PPpp')}</div>
+                          {entry.sequence !== undefined && <div className="font-mono text-xs text-muted-foreground" title={entry.entry_hash}>#{entry.sequence}</div>}
+                        </TableCell>
                         <TableCell>{suppliers?.find(s => s.id === entry.supplier_id)?.name || 'Unknown'}</TableCell>
                         <TableCell>{entry.material_type}</TableCell>
-                        <TableCell className="text-right font-mono">{entry.weight_kg.toFixed(2)}</TableCell>
-                        <TableCell className="text-center">{entry.is_synced ? <CheckCircle className="h-5 w-5 text-green-500 inline" /> : <CircleDashed className="h-5 w-5 text-yellow-500 inline animate-spin" />}</TableCell>
+                        <TableCell className={`text-right font-mono ${entry.weight_kg < 0 ? 'text-destructive' : ''}`}>
+                          {entry.weight_kg.toFixed(2)}
+                          {entry.gross_kg !== undefined && entry.tare_kg !== undefined && <div className="text-xs text-muted-foreground">{entry.gross_kg.toFixed(2)} − {entry.tare_kg.toFixed(2)}</div>}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <div className="flex items-center justify-center gap-2" title={entry.correction_id ? correctionReasons.get(entry.correction_id) : undefined}>
+                            {entry.is_synced ? <CheckCircle className="h-5 w-5 text-green-500 inline" /> : <CircleDashed className="h-5 w-5 text-yellow-500 inline animate-spin" />}
+                            {entry.entry_type === 'reversal' && <Badge variant="destructive">Reversal</Badge>}
+                            {entry.entry_type === 'correction' && <Badge variant="secondary">Correction</Badge>}
+                            {reversedIds.has(entry.id) && <Badge variant="outline">Reversed</Badge>}
+                            {pendingIds.has(entry.id) && <Badge variant="outline" className="border-yellow-500 text-yellow-500">Correction pending</Badge>}
+                          </div>
+                        </TableCell>
+                        {canRequestCorrection && (
+                          <TableCell className="text-right">
+                            {entry.entry_type !== 'reversal' && !reversedIds.has(entry.id) && !pendingIds.has(entry.id) && (
+                              <Button variant="ghost" size="sm" onClick={() => setCorrecting(entry)}><PencilLine className="mr-2 h-4 w-4" /> Correct</Button>
+                            )}
+                          </TableCell>
+                        )}
                       </TableRow>
                     )))
-                   : (<TableRow><TableCell colSpan={5} className="text-center h-24">No ledger entries found for the selected filters.</TableCell></TableRow>)}
+                   : (<TableRow><TableCell colSpan={6} className="text-center h-24">No ledger entries found for the selected filters.</TableCell></TableRow>)}
                 </TableBody>
               </Table>
             </div>
@@ -108,6 +318,7 @@ export function InventoryLedger() {
                 </PaginationContent>
               </Pagination>
             )}
+            <CorrectEntryDialog entry={correcting} suppliers={suppliers ?? []} materials={materials ?? []} onClose={() => setCorrecting(null)} />
           </CardContent>
         </Card>
       </div>
@@ -1,52 +1,123 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { api } from '@/lib/api-client';
-import type { User } from '@shared/types';
+import type { PublicUser, TotpChallengeResponse, TotpLoginRequest } from '@shared/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { OperatorPinLogin } from '@/components/OperatorPinLogin';
+import { TotpCodeInput } from '@/components/TotpCodeInput';
 import { Toaster, toast } from 'sonner';
-import { HardHat, Loader2 } from 'lucide-react';
+import { HardHat, Loader2, ShieldCheck } from 'lucide-react';
 type LoginFormInputs = {
   username: string;
   password: string;
 };
 type LoginResponse = {
-  user: User;
+  user: PublicUser;
   token: string;
 };
+const isTotpChallenge = (data: LoginResponse | TotpChallengeResponse): data is TotpChallengeResponse => 'totpRequired' in data && data.totpRequired;
+type TotpStepProps = {
+  challengeToken: string;
+  onSuccess: (data: LoginResponse) => void;
+  onCancel: () => void;
+};
+/** Second login step for accounts with two-factor authentication: an authenticator code or a recovery code. */
+function TotpStep({ challengeToken, onSuccess, onCancel }: TotpStepProps) {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecovery, setUseRecovery] = useState(false);
+  const mutation = useMutation({
+    mutationFn: (body: TotpLoginRequest) => api<LoginResponse>('/api/auth/login/totp', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    onSuccess,
+    onError: (error) => {
+      setCode('');
+      toast.error('Verification Failed', { description: error.message });
+      // The server drops the challenge once it expires or after too many wrong codes.
+      if (/password again/i.test(error.message)) onCancel();
+    },
+  });
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3 rounded-lg border border-primary/20 bg-primary/5 p-3 text-sm">
+        <ShieldCheck className="h-5 w-5 shrink-0 text-primary" />
+        <span>{useRecovery ? 'Enter one of your saved recovery codes. Each code works once.' : 'Enter the 6-digit code from your authenticator app.'}</span>
+      </div>
+      {useRecovery ? (
+        <form onSubmit={e => { e.preventDefault(); if (recoveryCode.trim()) mutation.mutate({ challengeToken, recoveryCode }); }} className="space-y-4">
+          <Input autoFocus placeholder="XXXXX-XXXXX" value={recoveryCode} onChange={e => setRecoveryCode(e.target.value)} className="h-12 bg-secondary/50 font-mono tracking-widest text-center" />
+          <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={mutation.isPending || !recoveryCode.trim()}>
+            {mutation.isPending ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : 'Verify'}
+          </Button>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <TotpCodeInput autoFocus value={code} onChange={setCode} onComplete={value => mutation.mutate({ challengeToken, code: value })} disabled={mutation.isPending} />
+          {mutation.isPending && <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />}
+        </div>
+      )}
+      <div className="flex justify-between text-sm">
+        <Button type="button" variant="link" className="px-0" onClick={onCancel}>Back</Button>
+        <Button type="button" variant="link" className="px-0" onClick={() => setUseRecovery(r => !r)}>
+          {useRecovery ? 'Use authenticator code' : 'Use a recovery code'}
+        </Button>
+      </div>
+    </div>
+  );
+}
 export function Login() {
   const navigate = useNavigate();
+  const location = useLocation();
   const loginAction = useAuthStore((s) => s.login);
   const { register, handleSubmit } = useForm<LoginFormInputs>();
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   // Ensure system is seeded on first load to prevent "User not found" errors
   useQuery({
     queryKey: ['auth-init'],
     queryFn: () => api<{ seeded: boolean }>('/api/auth/init'),
     retry: 3,
   });
+  const handleLoggedIn = (data: LoginResponse) => {
+    loginAction(data.user, data.token);
+    toast.success(`Welcome back, ${data.user.username}!`);
+    if (data.user.must_change_password) {
+      toast.warning('Password change required', { description: 'Please choose a new password before continuing.' });
+      navigate('/settings');
+    } else if (data.user.totp_enrollment_required) {
+      toast.warning('Two-factor authentication required', { description: 'Set up an authenticator app before continuing.' });
+      navigate('/settings');
+    } else if (data.user.role === 'operator') {
+      navigate('/quick-weight');
+    } else {
+      navigate('/');
+    }
+  };
   const mutation = useMutation({
-    mutationFn: (credentials: LoginFormInputs) => api<LoginResponse>('/api/auth/login', {
+    mutationFn: (credentials: LoginFormInputs) => api<LoginResponse | TotpChallengeResponse>('/api/auth/login', {
       method: 'POST',
       body: JSON.stringify(credentials),
     }),
     onSuccess: (data) => {
-      loginAction(data.user, data.token);
-      toast.success(`Welcome back, ${data.user.username}!`);
-      if (data.user.role === 'operator') {
-        navigate('/quick-weight');
-      } else {
-        navigate('/');
-      }
+      if (isTotpChallenge(data)) setChallengeToken(data.challengeToken);
+      else handleLoggedIn(data);
     },
     onError: (error) => {
       toast.error('Login Failed', { description: error.message });
     },
   });
+  const sessionExpired = (location.state as { reason?: string } | null)?.reason === 'session_expired';
+  useEffect(() => {
+    if (sessionExpired) toast.warning('Session expired', { description: 'Please log in again.' });
+  }, [sessionExpired]);
   const onSubmit = (data: LoginFormInputs) => {
     mutation.mutate(data);
   };
@@ -60,35 +131,50 @@ export function Login() {
             <HardHat className="h-8 w-8 text-primary" />
           </div>
           <CardTitle className="text-2xl font-bold tracking-tight">SuiteWaste OS</CardTitle>
-          <CardDescription>Enter your credentials to access the system.</CardDescription>
+          <CardDescription>{challengeToken ? 'Two-factor verification' : 'Enter your credentials to access the system.'}</CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input 
-                id="username" 
-                type="text" 
-                placeholder="e.g., operator1" 
-                required 
-                {...register('username')} 
-                className="bg-secondary/50"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password / PIN</Label>
-              <Input 
-                id="password" 
-                type="password" 
-                required 
-                {...register('password')} 
-                className="bg-secondary/50"
-              />
-            </div>
-            <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={mutation.isPending}>
-              {mutation.isPending ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : 'Log In'}
-            </Button>
-          </form>
+          {challengeToken ? (
+            <TotpStep challengeToken={challengeToken} onSuccess={handleLoggedIn} onCancel={() => setChallengeToken(null)} />
+          ) : (
+            <Tabs defaultValue="password">
+              <TabsList className="grid grid-cols-2 w-full h-12 mb-6">
+                <TabsTrigger value="password" className="h-full">Password</TabsTrigger>
+                <TabsTrigger value="pin" className="h-full">Operator PIN</TabsTrigger>
+              </TabsList>
+              <TabsContent value="password">
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="username">Username</Label>
+                    <Input 
+                      id="username" 
+                      type="text" 
+                      placeholder="e.g., operator1" 
+                      required 
+                      {...register('username')} 
+                      className="bg-secondary/50"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <Input 
+                      id="password" 
+                      type="password" 
+                      required 
+                      {...register('password')} 
+                      className="bg-secondary/50"
+                    />
+                  </div>
+                  <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={mutation.isPending}>
+                    {mutation.isPending ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : 'Log In'}
+                  </Button>
+                </form>
+              </TabsContent>
+              <TabsContent value="pin">
+                <OperatorPinLogin onSuccess={handleLoggedIn} />
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
       <Toaster richColors theme="dark" />
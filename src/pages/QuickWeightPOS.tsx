@@ -7,18 +7,35 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useSerialScale } from "@/hooks/useSerialScale";
-import { useOfflineStore } from "@/stores/useOfflineStore";
+import { useOfflineStore, type OpenTicket, type TicketLine } from "@/stores/useOfflineStore";
 import { cn } from "@/lib/utils";
-import { Cable, CheckCircle, CircleDashed, Loader2, Send, XCircle, ArrowLeft } from "lucide-react";
+import { Cable, CheckCircle, CircleDashed, Loader2, Send, XCircle, ArrowLeft, UserRoundCog, Truck, Trash2, Printer, Receipt } from "lucide-react";
 import { Toaster, toast } from "sonner";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api-client";
-import type { Supplier } from "@shared/types";
-import { v4 as uuid } from 'uuid';
+import type { Supplier, Material, PriceRule, EprTariff, PriceOverride, CreatePriceOverrideRequest, Transaction, WeighingSession, InventoryLedgerEntry, OpenWeighingSessionRequest, CompleteWeighingSessionRequest, TarePreset, WeighKind, PublicUser } from "@shared/types";
+import { netWeight, normalizeReference, roundWeight } from "@shared/weighing";
+import { PAYMENT_METHODS, ticketTotals } from "@shared/tickets";
+import { materialLabel } from "@shared/materials";
+import { lineAmount, priceRuleScope, resolvePriceRule } from "@shared/pricing";
+import { eprFeeBasis } from "@shared/epr";
+import { usePermission } from "@/hooks/usePermission";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { format, formatDistanceToNow } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
 import { Badge } from "@/components/ui/badge";
 import { PageLayout } from "@/components/PageLayout";
-const WeightDisplay = memo(({ weight, status }: { weight: number, status: string }) => (
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { OperatorPinLogin, type PinLoginResponse } from "@/components/OperatorPinLogin";
+import { useAuthStore } from "@/stores/useAuthStore";
+import { captureStamp, useDeviceStore } from "@/stores/useDeviceStore";
+import { useScaleStore } from "@/stores/useScaleStore";
+import { ScaleCommands } from "@/components/ScaleCommands";
+import { ScaleSimulatorControls } from "@/components/ScaleSimulatorControls";
+import { scaleDriver } from "@/lib/scale-drivers";
+import { assessCapture, type CaptureAssessment } from "@/lib/capture-rules";
+const WeightDisplay = memo(({ weight, status, overload }: { weight: number, status: string, overload?: boolean }) => (
   <div className="relative w-full text-center mb-6">
     <span
       className={cn(
@@ -29,72 +46,604 @@ const WeightDisplay = memo(({ weight, status }: { weight: number, status: string
           : "text-muted-foreground/50"
       )}
     >
-      {weight.toFixed(2)}
+      {overload ? 'OL' : weight.toFixed(2)}
     </span>
     <span className="absolute bottom-1 right-0 text-2xl md:text-4xl font-medium text-muted-foreground">kg</span>
   </div>
 ));
+type CaptureDetails = {
+  supplier_id: string;
+  material_id: string;
+  material_type: string;
+  notes: string;
+  amount: number;
+  price_per_kg?: number;
+  price_rule_id?: string;
+  price_override_id?: string;
+};
+type OverrideContext = Pick<CreatePriceOverrideRequest, 'material_id' | 'supplier_id' | 'weight_kg' | 'price_rule_id' | 'computed_amount'> & { label: string };
+// Operators without pricing:override need a manager to confirm at the terminal; managers approve their own.
+const PriceOverrideDialog = memo(({ context, onClose, onApproved }: { context: OverrideContext | null; onClose: () => void; onApproved: (o: PriceOverride) => void }) => {
+  const canApprove = usePermission('pricing:override');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [approver, setApprover] = useState({ username: '', password: '', code: '' });
+  const close = () => {
+    setAmount('');
+    setReason('');
+    setApprover({ username: '', password: '', code: '' });
+    onClose();
+  };
+  const mutation = useMutation({
+    mutationFn: (body: CreatePriceOverrideRequest) => api<PriceOverride>('/api/pricing/overrides', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: (o) => {
+      toast.success(`Override approved by ${o.approved_by_username}`, { description: `${o.override_amount.toFixed(2)} ZAR applies to the next line of ${o.weight_kg.toFixed(2)} kg.` });
+      onApproved(o);
+      close();
+    },
+    onError: (e) => toast.error('Override not approved', { description: e.message }),
+  });
+  const parsed = parseFloat(amount);
+  const submit = () => {
+    if (!context) return;
+    const { label: _label, ...rest } = context;
+    mutation.mutate({
+      ...rest,
+      override_amount: parsed,
+      reason: reason.trim(),
+      approver: canApprove ? undefined : { username: approver.username.trim(), password: approver.password, code: approver.code.trim() || undefined },
+    });
+  };
+  return (
+    <Dialog open={!!context} onOpenChange={open => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Override Line Amount</DialogTitle>
+          <DialogDescription>{context?.label}: the price list gives {context?.computed_amount.toFixed(2)} ZAR at {context?.weight_kg.toFixed(2)} kg. Overrides are recorded with the reason and approver.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="override-amount">Amount (ZAR)</Label>
+            <Input id="override-amount" type="number" step="0.01" min={0} value={amount} onChange={e => setAmount(e.target.value)} className="h-12 font-mono" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-reason">Reason</Label>
+            <Textarea id="override-reason" placeholder="e.g., Contaminated load, agreed reduced rate" value={reason} onChange={e => setReason(e.target.value)} />
+          </div>
+          {!canApprove && (
+            <div className="space-y-2 rounded-lg border border-border p-3">
+              <Label>Manager approval</Label>
+              <Input placeholder="Manager username" autoComplete="off" value={approver.username} onChange={e => setApprover(a => ({ ...a, username: e.target.value }))} className="h-12" />
+              <Input type="password" placeholder="Password" autoComplete="off" value={approver.password} onChange={e => setApprover(a => ({ ...a, password: e.target.value }))} className="h-12" />
+              <Input inputMode="numeric" placeholder="Authenticator code (if enabled)" autoComplete="off" value={approver.code} onChange={e => setApprover(a => ({ ...a, code: e.target.value }))} className="h-12 font-mono" />
+            </div>
+          )}
+        </div>
+        <Button className="h-12" disabled={isNaN(parsed) || parsed < 0 || reason.trim().length < 5 || (!canApprove && (!approver.username.trim() || !approver.password)) || mutation.isPending} onClick={submit}>
+          {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {canApprove ? 'Apply Override' : 'Approve Override'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+});
+// Touch grid of active catalogue materials; typing filters by code, name or grade.
+const MaterialPicker = memo(({ materials, value, onChange }: { materials: Material[]; value: string; onChange: (id: string) => void }) => {
+  const [filter, setFilter] = useState('');
+  const needle = filter.trim().toLowerCase();
+  const visible = materials.filter(m => m.active && (!needle || [m.code, m.name, m.grade ?? ''].some(f => f.toLowerCase().includes(needle))));
+  return (
+    <div className="space-y-2">
+      <Input placeholder="Filter by code or name…" value={filter} onChange={e => setFilter(e.target.value)} className="bg-input border-border h-12" />
+      <div className="grid max-h-64 grid-cols-2 gap-2 overflow-y-auto">
+        {visible.map(m => (
+          <Button key={m.id} type="button" variant={m.id === value ? 'default' : 'outline'} className="h-16 flex-col items-start justify-center gap-0 px-3 text-left" onClick={() => onChange(m.id)}>
+            <span className="font-mono text-sm font-bold">{m.code}</span>
+            <span className="w-full truncate text-xs font-normal">{materialLabel(m)}</span>
+          </Button>
+        ))}
+        {visible.length === 0 && <p className="col-span-2 py-4 text-center text-sm text-muted-foreground">No matching materials.</p>}
+      </div>
+    </div>
+  );
+});
+// What a weighing contributes to a ticket line; material, price and notes come from the details form.
+type LineWeights = Pick<TicketLine, 'weight_kg' | 'gross_kg' | 'tare_kg' | 'tare_preset_id' | 'stability' | 'recorded'> & { id?: string };
+// A weight the capture rules accept, with the evidence that it had settled.
+type StableWeight = Extract<CaptureAssessment, { status: 'stable' }>;
+const TicketCard = memo(({ ticket, onRemove, onVoid, onSettle }: {
+  ticket: OpenTicket | null;
+  onRemove: (lineId: string) => void;
+  onVoid: () => void;
+  onSettle: (paymentMethod: string) => void;
+}) => {
+  const [paymentMethod, setPaymentMethod] = useState<string>('cash');
+  const lines = ticket?.lines ?? [];
+  const totals = ticketTotals(lines);
+  const hasRecorded = lines.some(l => l.recorded);
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-muted-foreground">Ticket{ticket ? ` · opened ${format(ticket.opened_at, 'HH:mm')}` : ''}</span>
+        <Badge variant="outline">{lines.length} line{lines.length === 1 ? '' : 's'}</Badge>
+      </div>
+      {lines.length === 0 ? (
+        <p className="py-2 text-center text-sm text-muted-foreground">Capture a weight to start a ticket.</p>
+      ) : (
+        <ul className="max-h-56 space-y-1 overflow-y-auto">
+          {lines.map(l => (
+            <li key={l.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{l.material_type}</div>
+                <div className="font-mono text-xs text-muted-foreground">{l.weight_kg.toFixed(2)} kg{l.gross_kg !== undefined && l.tare_kg !== undefined ? ` (${l.gross_kg.toFixed(2)} − ${l.tare_kg.toFixed(2)})` : ''}</div>
+              </div>
+              <div className="flex items-center gap-1">
+                {l.price_override_id && <Badge variant="outline" className="text-[10px]">Override</Badge>}
+                <span className="font-mono">{l.amount.toFixed(2)}</span>
+                {l.recorded
+                  ? <Badge variant="secondary" className="text-[10px]">Recorded</Badge>
+                  : <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Remove ${l.material_type}`} onClick={() => onRemove(l.id)}><Trash2 className="h-4 w-4" /></Button>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-end justify-between border-t border-border pt-2">
+        <div className="text-xs text-muted-foreground">
+          <div>{totals.weight_kg.toFixed(2)} kg total</div>
+          <div>EPR {totals.epr_fee.toFixed(2)}</div>
+        </div>
+        <div className="font-mono text-2xl font-bold">{totals.amount.toFixed(2)} <span className="text-sm font-normal">ZAR</span></div>
+      </div>
+      <div className="flex gap-2">
+        <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+          <SelectTrigger className="h-14 w-28"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {PAYMENT_METHODS.map(m => <SelectItem key={m} value={m} className="uppercase">{m}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button className="h-14 flex-1 text-lg font-semibold" disabled={lines.length === 0} onClick={() => onSettle(paymentMethod)}>
+          <Receipt className="mr-2 h-5 w-5" /> Settle Ticket
+        </Button>
+      </div>
+      {ticket && (
+        <Button variant="ghost" className="w-full" disabled={hasRecorded} title={hasRecorded ? 'Lines already on the ledger must be settled or corrected' : undefined} onClick={onVoid}>Void Ticket</Button>
+      )}
+    </div>
+  );
+});
+const ReceiptDialog = memo(({ transaction, supplierName, onClose }: { transaction: Transaction | null; supplierName?: string; onClose: () => void }) => (
+  <Dialog open={!!transaction} onOpenChange={open => !open && onClose()}>
+    <DialogContent className="max-w-sm">
+      <DialogHeader>
+        <DialogTitle>Receipt</DialogTitle>
+        <DialogDescription>Ticket {transaction?.id.slice(0, 8).toUpperCase()} · {transaction && format(transaction.transaction_timestamp, 'PPpp')}</DialogDescription>
+      </DialogHeader>
+      {transaction && (
+        <div className="space-y-3 font-mono text-sm">
+          <div>Supplier: {supplierName ?? '—'}</div>
+          <table className="w-full">
+            <tbody>
+              {transaction.lines?.map(l => (
+                <tr key={l.ledger_entry_id}>
+                  <td className="py-1 font-sans">{l.material_type}</td>
+                  <td className="py-1 text-right">{l.weight_kg.toFixed(2)} kg</td>
+                  <td className="py-1 text-right">{l.amount.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex justify-between border-t border-border pt-2 text-base font-bold"><span>Total ({transaction.payment_method?.toUpperCase()})</span><span>{transaction.amount.toFixed(2)} {transaction.currency}</span></div>
+          <div className="flex justify-between text-xs text-muted-foreground"><span>incl. EPR fees</span><span>{transaction.epr_fee.toFixed(2)}</span></div>
+        </div>
+      )}
+      <Button variant="outline" className="h-12" onClick={() => window.print()}><Printer className="mr-2 h-4 w-4" /> Print</Button>
+    </DialogContent>
+  </Dialog>
+));
+const WeighBreakdown = memo(({ gross, tare }: { gross?: number; tare?: number }) => (
+  <div className="grid grid-cols-3 gap-2 text-center">
+    {[['Gross', gross], ['Tare', tare], ['Net', gross !== undefined && tare !== undefined ? netWeight(gross, tare) : undefined]].map(([label, value]) => (
+      <div key={label as string} className="rounded-lg border border-border bg-secondary/30 p-3">
+        <div className="text-xs uppercase tracking-wide text-muted-foreground">{label}</div>
+        <div className="font-mono text-xl font-semibold tabular-nums">{typeof value === 'number' ? value.toFixed(2) : '—'}</div>
+      </div>
+    ))}
+  </div>
+));
+const TarePresetsDialog = memo(({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) => {
+  const queryClient = useQueryClient();
+  const { data: presets } = useQuery({ queryKey: ['tare-presets'], queryFn: () => api<TarePreset[]>('/api/tare-presets'), enabled: open });
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api(`/api/tare-presets/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['tare-presets'] }),
+    onError: (e) => toast.error('Could not delete preset', { description: e.message }),
+  });
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tare Presets</DialogTitle>
+          <DialogDescription>Stored empty weights for regular vehicles and bins. Weigh a vehicle empty with "Save tare as preset" ticked to add or refresh one.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {presets && presets.length > 0 ? presets.map(p => (
+            <div key={p.id} className="flex items-center justify-between rounded-lg border border-border p-3">
+              <div>
+                <div className="font-medium">{p.reference} <Badge variant="outline" className="ml-1 capitalize">{p.kind}</Badge></div>
+                <div className="text-xs text-muted-foreground">Updated {formatDistanceToNow(p.updated_at, { addSuffix: true })}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-mono">{p.tare_kg.toFixed(2)} kg</span>
+                <Button variant="ghost" size="icon" aria-label={`Delete preset ${p.reference}`} disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate(p.id)}><Trash2 className="h-4 w-4" /></Button>
+              </div>
+            </div>
+          )) : <p className="py-6 text-center text-sm text-muted-foreground">No tare presets stored yet.</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+});
+type TwoPassPanelProps = {
+  weight: number;
+  canCapture: boolean;
+  takeWeight: () => StableWeight | null;
+  readDetails: (weightKg: number) => CaptureDetails | null;
+  onLine: (line: LineWeights, details: CaptureDetails) => void;
+  onOverride: (weightKg: number) => void;
+};
+/**
+ * Gross/tare weighing for vehicles and containers. The first pass opens a server-side session so the
+ * second pass can happen later, on any terminal; a stored tare preset can stand in for the empty weighing.
+ */
+const TwoPassPanel = memo(({ weight, canCapture, takeWeight, readDetails, onLine, onOverride }: TwoPassPanelProps) => {
+  const queryClient = useQueryClient();
+  const startTicket = useOfflineStore(s => s.startTicket);
+  const [reference, setReference] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [savePreset, setSavePreset] = useState(false);
+  const [presetKind, setPresetKind] = useState<TarePreset['kind']>('vehicle');
+  const [presetsOpen, setPresetsOpen] = useState(false);
+  // Poll so a first pass captured on another terminal shows up here without a reload.
+  const { data: sessions } = useQuery({
+    queryKey: ['weighing-sessions', 'open'],
+    queryFn: () => api<WeighingSession[]>('/api/weighing/sessions?status=open'),
+    refetchInterval: 15000,
+  });
+  const { data: presets } = useQuery({ queryKey: ['tare-presets'], queryFn: () => api<TarePreset[]>('/api/tare-presets') });
+  const selected = sessions?.find(s => s.id === selectedId) ?? null;
+  const preset = presets?.find(p => p.id === (selected?.reference ?? normalizeReference(reference)));
+  const refreshSessions = () => queryClient.invalidateQueries({ queryKey: ['weighing-sessions'] });
+  const presetMutation = useMutation({
+    mutationFn: (body: Pick<TarePreset, 'reference' | 'kind' | 'tare_kg'>) => api<TarePreset>('/api/tare-presets', { method: 'PUT', body: JSON.stringify(body) }),
+    onSuccess: (p) => {
+      toast.success(`Tare preset saved for ${p.reference}`, { description: `${p.tare_kg.toFixed(2)} kg` });
+      queryClient.invalidateQueries({ queryKey: ['tare-presets'] });
+    },
+    onError: (e) => toast.error('Could not save tare preset', { description: e.message }),
+  });
+  const openMutation = useMutation({
+    mutationFn: (body: OpenWeighingSessionRequest) => api<WeighingSession>('/api/weighing/sessions', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: (s) => {
+      toast.success(`${s.gross ? 'Gross' : 'Tare'} captured for ${s.reference}`, { description: 'Complete it with the second weighing on any terminal.' });
+      if (savePreset && s.tare) presetMutation.mutate({ reference: s.reference, kind: presetKind, tare_kg: s.tare.weight_kg });
+      setReference('');
+      setSavePreset(false);
+      refreshSessions();
+    },
+    onError: (e) => toast.error('Could not start weighing', { description: e.message }),
+  });
+  const completeMutation = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: CompleteWeighingSessionRequest; details: CaptureDetails }) =>
+      api<{ session: WeighingSession; entry: InventoryLedgerEntry }>(`/api/weighing/sessions/${id}/complete`, { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: ({ session, entry }, { details }) => {
+      toast.success(`${session.reference}: ${entry.weight_kg.toFixed(2)} kg net recorded`);
+      if (savePreset && session.tare && !session.tare_preset_id) presetMutation.mutate({ reference: session.reference, kind: presetKind, tare_kg: session.tare.weight_kg });
+      setSelectedId(null);
+      setSavePreset(false);
+      onLine({ id: entry.id, weight_kg: entry.weight_kg, gross_kg: entry.gross_kg, tare_kg: entry.tare_kg, tare_preset_id: entry.tare_preset_id, recorded: true }, details);
+      refreshSessions();
+      queryClient.invalidateQueries({ queryKey: ['ledger'] });
+    },
+    onError: (e) => toast.error('Could not complete weighing', { description: e.message }),
+  });
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => api<WeighingSession>(`/api/weighing/sessions/${id}/cancel`, { method: 'POST' }),
+    onSuccess: (s) => {
+      toast.info(`Weighing for ${s.reference} cancelled`);
+      setSelectedId(null);
+      refreshSessions();
+    },
+    onError: (e) => toast.error('Could not cancel weighing', { description: e.message }),
+  });
+  const startSession = (kind: WeighKind) => {
+    const taken = takeWeight();
+    if (!taken) return;
+    if (!normalizeReference(reference)) {
+      toast.error('Enter the vehicle registration or container id.');
+      return;
+    }
+    openMutation.mutate({ reference, kind, weight_kg: taken.weight_kg, stability: taken.evidence, ...captureStamp() });
+  };
+  const completeSession = (usePreset: boolean) => {
+    if (!selected) return;
+    const taken = usePreset ? null : takeWeight();
+    if (!usePreset && !taken) return;
+    const live = taken?.weight_kg ?? weight;
+    const gross = selected.gross?.weight_kg ?? live;
+    const tare = usePreset && preset ? preset.tare_kg : selected.tare?.weight_kg ?? live;
+    const details = readDetails(netWeight(gross, tare));
+    if (!details) return;
+    const common = { supplier_id: details.supplier_id, material_id: details.material_id, material_type: details.material_type, notes: details.notes, ticket_id: startTicket(details.supplier_id), ...captureStamp() };
+    const body: CompleteWeighingSessionRequest = usePreset && preset ? { ...common, tare_preset_id: preset.id } : { ...common, weight_kg: live, stability: taken?.evidence };
+    completeMutation.mutate({ id: selected.id, body, details });
+  };
+  // Single pass for bins and regular vehicles: live gross minus the stored tare, added to the ticket like any other weigh.
+  const captureWithPreset = () => {
+    if (!preset) return;
+    const taken = takeWeight();
+    if (!taken) return;
+    const net = netWeight(taken.weight_kg, preset.tare_kg);
+    if (net <= 0) {
+      toast.error(`Live weight is below the ${preset.tare_kg.toFixed(2)} kg tare for ${preset.reference}.`);
+      return;
+    }
+    const details = readDetails(net);
+    if (!details) return;
+    setReference('');
+    onLine({ weight_kg: net, gross_kg: taken.weight_kg, tare_kg: preset.tare_kg, tare_preset_id: preset.id, stability: taken.evidence }, details);
+  };
+  // The line is priced on the net weight, so that is the figure an override must be approved for.
+  const overrideNet = () => {
+    if (!selected && !preset) {
+      toast.error('Capture the first weighing, or enter a reference with a stored tare, before overriding the amount.');
+      return;
+    }
+    const taken = takeWeight();
+    if (!taken) return;
+    const net = selected ? netWeight(selected.gross?.weight_kg ?? taken.weight_kg, selected.tare?.weight_kg ?? taken.weight_kg) : netWeight(taken.weight_kg, preset.tare_kg);
+    if (net <= 0) {
+      toast.error('The net weight must be greater than zero.');
+      return;
+    }
+    onOverride(net);
+  };
+  const busy = openMutation.isPending || completeMutation.isPending || cancelMutation.isPending;
+  return (
+    <div className="w-full space-y-4 mb-4">
+      {sessions && sessions.length > 0 && (
+        <div className="space-y-2">
+          <Label>Open weighings</Label>
+          <div className="flex flex-wrap gap-2">
+            {sessions.map(s => (
+              <Button key={s.id} variant={s.id === selectedId ? 'default' : 'outline'} className="h-12" onClick={() => setSelectedId(s.id === selectedId ? null : s.id)}>
+                <Truck className="mr-2 h-4 w-4" />
+                {s.reference}
+                <span className="ml-2 font-mono text-xs opacity-80">{s.gross ? `G ${s.gross.weight_kg.toFixed(0)}` : `T ${s.tare?.weight_kg.toFixed(0)}`} kg</span>
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+      {selected ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {selected.reference}: {selected.gross ? 'gross' : 'tare'} weighed {formatDistanceToNow(selected.updated_at, { addSuffix: true })}. Capture the {selected.gross ? 'empty (tare)' : 'loaded (gross)'} weight to finish.
+          </p>
+          <WeighBreakdown gross={selected.gross?.weight_kg ?? weight} tare={selected.tare?.weight_kg ?? weight} />
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button size="lg" className="flex-1 h-14 text-lg font-semibold" disabled={busy || !canCapture} onClick={() => completeSession(false)}>
+              {completeMutation.isPending && <Loader2 className="mr-2 h-5 w-5 animate-spin" />} Capture {selected.gross ? 'Tare' : 'Gross'} &amp; Complete
+            </Button>
+            {selected.gross && preset && (
+              <Button size="lg" variant="secondary" className="flex-1 h-14" disabled={busy} onClick={() => completeSession(true)}>Use Preset Tare ({preset.tare_kg.toFixed(2)} kg)</Button>
+            )}
+            <Button size="lg" variant="ghost" className="h-14" disabled={busy} onClick={() => cancelMutation.mutate(selected.id)}>Cancel Weighing</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input placeholder="Vehicle registration / container id" value={reference} onChange={e => setReference(e.target.value.toUpperCase())} className="h-14 font-mono bg-input border-border" />
+            <Button variant="outline" className="h-14" onClick={() => setPresetsOpen(true)}>Presets</Button>
+          </div>
+          {preset && <p className="text-sm text-muted-foreground">Stored tare for {preset.reference}: <span className="font-mono">{preset.tare_kg.toFixed(2)} kg</span> ({preset.kind})</p>}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Button size="lg" className="h-14 font-semibold" disabled={busy || !canCapture} onClick={() => startSession('gross')}>Capture Gross (Loaded)</Button>
+            <Button size="lg" variant="secondary" className="h-14 font-semibold" disabled={busy || !canCapture} onClick={() => startSession('tare')}>Capture Tare (Empty)</Button>
+            <Button size="lg" variant="outline" className="h-14 font-semibold" disabled={!preset || !canCapture} onClick={captureWithPreset}>Gross − Preset Tare</Button>
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Button variant="outline" size="sm" className="h-10" disabled={busy || !canCapture || (!selected && !preset)} onClick={overrideNet}>Override Net Amount</Button>
+        <label className="flex items-center gap-2">
+          <Checkbox checked={savePreset} onCheckedChange={v => setSavePreset(v === true)} />
+          Save weighed tare as preset
+        </label>
+        {savePreset && (
+          <Select value={presetKind} onValueChange={v => setPresetKind(v as TarePreset['kind'])}>
+            <SelectTrigger className="h-9 w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="vehicle">Vehicle</SelectItem>
+              <SelectItem value="container">Container</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <TarePresetsDialog open={presetsOpen} onOpenChange={setPresetsOpen} />
+    </div>
+  );
+});
 export function QuickWeightPOS() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
-  const { weight, status, connect } = useSerialScale();
-  const addLedgerEntry = useOfflineStore(s => s.addLedgerEntry);
-  const addTransaction = useOfflineStore(s => s.addTransaction);
+  const { weight, reading, samples, status, pendingCommand, connect, sendCommand } = useSerialScale();
+  const scaleDriverId = useScaleStore(s => s.driverId);
+  const captureRules = useScaleStore(s => s.rules);
+  const simulated = useScaleStore(s => s.source) === 'simulated';
+  const openTicket = useOfflineStore(s => s.openTicket);
+  const addTicketLine = useOfflineStore(s => s.addTicketLine);
+  const removeTicketLine = useOfflineStore(s => s.removeTicketLine);
+  const voidTicket = useOfflineStore(s => s.voidTicket);
+  const settleTicket = useOfflineStore(s => s.settleTicket);
+  const device = useDeviceStore(s => s.device);
   const syncAllPending = useOfflineStore(s => s.syncAllPending);
   const totalPending = useOfflineStore(s => s.totalPending());
   const [supplierId, setSupplierId] = useState<string>('');
-  const [materialType, setMaterialType] = useState("");
-  const [amount, setAmount] = useState("");
+  const [materialId, setMaterialId] = useState("");
+  const [override, setOverride] = useState<PriceOverride | null>(null);
+  const [overrideContext, setOverrideContext] = useState<OverrideContext | null>(null);
   const [notes, setNotes] = useState("");
+  const [isSwitchOpen, setSwitchOpen] = useState(false);
+  const [mode, setMode] = useState<'single' | 'two-pass'>('single');
+  const [receipt, setReceipt] = useState<{ transaction: Transaction; supplierId: string } | null>(null);
+  const loginAction = useAuthStore(s => s.login);
+  const switchOffline = useAuthStore(s => s.switchOffline);
   const { data: suppliers, isLoading: isLoadingSuppliers } = useQuery({
     queryKey: ['suppliers'],
     queryFn: () => api<Supplier[]>('/api/suppliers'),
     enabled: !!user,
   });
-  const handleCapture = () => {
-    if (status !== 'connected' && status !== 'parsing') {
-      toast.error("Scale not connected.");
-      return;
+  const { data: materials, isLoading: isLoadingMaterials } = useQuery({
+    queryKey: ['materials'],
+    queryFn: () => api<Material[]>('/api/materials'),
+    enabled: !!user,
+  });
+  const { data: priceRules } = useQuery({
+    queryKey: ['price-rules'],
+    queryFn: () => api<PriceRule[]>('/api/price-rules'),
+    enabled: !!user,
+  });
+  const { data: eprTariffs } = useQuery({
+    queryKey: ['epr-tariffs'],
+    queryFn: () => api<EprTariff[]>('/api/epr/tariffs'),
+    enabled: !!user,
+  });
+  const scaleReady = status === 'connected' || status === 'parsing';
+  const assessment = assessCapture(samples, scaleDriver(scaleDriverId), captureRules);
+  const canCapture = scaleReady && assessment.status === 'stable';
+  // The supplier is fixed for the life of a ticket: one visit, one payee.
+  const activeSupplierId = openTicket?.supplier_id ?? supplierId;
+  const activeSupplier = suppliers?.find(s => s.id === activeSupplierId);
+  const selectedMaterial = materials?.find(m => m.id === materialId && m.active);
+  const priceFor = (weightKg: number) => selectedMaterial ? resolvePriceRule(priceRules ?? [], { material_id: selectedMaterial.id, supplier: activeSupplier, weight_kg: weightKg }) : undefined;
+  const liveRule = priceFor(weight);
+  // An approved override only applies to the material and supplier it was approved for.
+  const activeOverride = override && override.material_id === materialId && override.supplier_id === activeSupplierId ? override : null;
+  const readDetails = (weightKg: number): CaptureDetails | null => {
+    if (!activeSupplierId) {
+      toast.error("Please select a supplier.");
+      return null;
     }
-    if (weight <= 0) {
-      toast.error("Weight must be greater than zero.");
-      return;
+    if (!selectedMaterial) {
+      toast.error("Please select a material.");
+      return null;
     }
-    if (!supplierId) {
-      toast.error("Please select a supplier.");
-      return;
+    const base = { supplier_id: activeSupplierId, material_id: selectedMaterial.id, material_type: materialLabel(selectedMaterial), notes: notes.trim() };
+    const rule = priceFor(weightKg);
+    // The override was approved for the weight this line is priced on; any other weight needs its own.
+    if (activeOverride && roundWeight(weightKg) !== activeOverride.weight_kg) {
+      setOverride(null);
+      toast.error(`The override was approved for ${activeOverride.weight_kg.toFixed(2)} kg, but this line is ${weightKg.toFixed(2)} kg.`, { description: 'Ask for the override again for this load.' });
+      return null;
     }
-    if (!materialType.trim()) {
-      toast.error("Please enter a material type.");
-      return;
+    if (activeOverride) {
+      return { ...base, amount: activeOverride.override_amount, price_per_kg: rule?.price_per_kg, price_rule_id: rule?.id, price_override_id: activeOverride.id };
     }
-    const parsedAmount = parseFloat(amount);
-    if (isNaN(parsedAmount) || parsedAmount < 0) {
-      toast.error("Please enter a valid amount.");
+    if (!rule) {
+      toast.error(`No price for ${base.material_type} at ${weightKg.toFixed(2)} kg.`, { description: 'Ask a manager to add one to the price list, or override the amount.' });
+      return null;
+    }
+    return { ...base, amount: lineAmount(rule.price_per_kg, weightKg), price_per_kg: rule.price_per_kg, price_rule_id: rule.id };
+  };
+  // `weightKg` is the weight the line will be priced on: the captured weight, or the net in gross/tare weighing.
+  const openOverride = (weightKg: number) => {
+    if (!activeSupplierId || !selectedMaterial) {
+      toast.error("Select the supplier and material first.");
       return;
     }
-    const ledgerEntryId = uuid();
-    const eprFee = weight * 0.1; // Mock EPR fee calculation
-    addLedgerEntry({
-      id: ledgerEntryId,
-      supplier_id: supplierId,
-      material_type: materialType.trim(),
-      weight_kg: weight,
-      notes: notes.trim(),
-      operator_id: user?.id,
+    const rule = priceFor(weightKg);
+    setOverrideContext({
+      label: materialLabel(selectedMaterial),
+      material_id: selectedMaterial.id,
+      supplier_id: activeSupplierId,
+      weight_kg: roundWeight(weightKg),
+      price_rule_id: rule?.id,
+      computed_amount: rule ? lineAmount(rule.price_per_kg, weightKg) : 0,
     });
-    addTransaction({
-      ledger_entry_id: ledgerEntryId,
-      amount: parsedAmount,
+  };
+  const addLine = (line: LineWeights, details: CaptureDetails) => {
+    // Estimate only: the server recomputes the fee from the tariff in force when the ticket syncs.
+    const material = materials?.find(m => m.id === details.material_id);
+    const eprFee = eprFeeBasis(eprTariffs ?? [], { ledger_entry_id: '', weight_kg: line.weight_kg, material }, Date.now()).fee;
+    addTicketLine(details.supplier_id, {
+      ...line,
+      material_id: details.material_id,
+      material_type: details.material_type,
+      amount: details.amount,
       epr_fee: eprFee,
-      currency: 'ZAR',
+      price_per_kg: details.price_per_kg,
+      price_rule_id: details.price_rule_id,
+      price_override_id: details.price_override_id,
+      notes: details.notes || undefined,
+      operator_id: user?.id,
+      ...captureStamp(),
     });
-    setMaterialType("");
-    setAmount("");
+    setMaterialId("");
+    setOverride(null);
     setNotes("");
   };
+  // Judged again at the moment of capture, so a reading that went stale or started moving is never taken.
+  const takeWeight = (): StableWeight | null => {
+    if (!scaleReady) {
+      toast.error("Scale not connected.");
+      return null;
+    }
+    const result = assessCapture(samples, scaleDriver(scaleDriverId), captureRules);
+    if (result.status !== 'stable') {
+      toast.error(result.reason);
+      return null;
+    }
+    return result;
+  };
+  const overrideCaptured = () => {
+    const taken = takeWeight();
+    if (taken) openOverride(taken.weight_kg);
+  };
+  const handleCapture = () => {
+    const taken = takeWeight();
+    if (!taken) return;
+    const details = readDetails(taken.weight_kg);
+    if (!details) return;
+    addLine({ weight_kg: taken.weight_kg, stability: taken.evidence }, details);
+  };
+  const handleSettle = (paymentMethod: string) => {
+    const ticketSupplierId = openTicket?.supplier_id;
+    const transaction = settleTicket(paymentMethod);
+    if (transaction && ticketSupplierId) setReceipt({ transaction, supplierId: ticketSupplierId });
+  };
+  // Hand the terminal to another operator without leaving the page: supplier/material/notes stay as typed,
+  // and every capture from here on is attributed to the new operator.
+  const handleOperatorSwitched = (data: PinLoginResponse) => {
+    const previousToken = localStorage.getItem('token');
+    // Seed the /me cache for the new token so PageLayout doesn't unmount this page while it refetches.
+    queryClient.setQueryData(['me', data.token], data.user);
+    loginAction(data.user, data.token);
+    if (previousToken) {
+      api('/api/auth/logout', { method: 'POST', headers: { Authorization: `Bearer ${previousToken}` } }).catch(() => {});
+    }
+    setSwitchOpen(false);
+    toast.success(`Operator switched to ${data.user.username}`);
+  };
+  // No network: the PIN was checked on this terminal, so captures carry the new operator but still sync
+  // under the current sign-in until the switch ends back online.
+  const handleOperatorSwitchedOffline = (operator: PublicUser) => {
+    switchOffline(operator);
+    setSwitchOpen(false);
+    toast.success(`Operator switched to ${operator.username} (offline)`, { description: 'Switch operator again by PIN once back online.' });
+  };
   const handleSync = () => {
-    syncAllPending().then(() => {
+    syncAllPending({ force: true }).then(() => {
       queryClient.invalidateQueries({ queryKey: ['ledger'] });
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['suppliers'] });
@@ -106,10 +655,11 @@ export function QuickWeightPOS() {
     connecting: <CircleDashed className="h-5 w-5 text-yellow-500 animate-spin" />,
     connected: <CheckCircle className="h-5 w-5 text-green-500" />,
     parsing: <CheckCircle className="h-5 w-5 text-green-500 animate-pulse" />,
+    reconnecting: <CircleDashed className="h-5 w-5 text-yellow-500 animate-spin" />,
     error: <XCircle className="h-5 w-5 text-red-500" />,
   };
   return (
-    <PageLayout>
+    <PageLayout permission="pos:capture">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-8 overflow-hidden">
         <div className="md:col-span-2 flex flex-col">
           <Card className="bg-card/80 border-border backdrop-blur-xl shadow-glow shadow-primary/40 hover:shadow-primary/60 transition-shadow flex-1 flex flex-col">
@@ -120,23 +670,48 @@ export function QuickWeightPOS() {
                   <span className="text-xs font-semibold hidden sm:inline">Dashboard</span>
                 </Link>
                 <CardTitle className="text-lg font-medium text-muted-foreground">Live Weight</CardTitle>
+                <Button variant="outline" size="sm" className="h-10" onClick={() => setSwitchOpen(true)}>
+                  <UserRoundCog className="mr-2 h-4 w-4" />
+                  <span className="max-w-[8rem] truncate">{user?.username}</span>
+                </Button>
+                {/* Captures are only stamped with a terminal once it is approved; registration is under Settings. */}
+                <Link to="/settings" className="hidden sm:inline-flex" title={device?.status === 'approved' ? `Terminal ${device.id}${device.scale_id ? `, scale ${device.scale_id}` : ''}` : 'Register this terminal in Settings'}>
+                  <Badge variant={device?.status === 'approved' ? 'outline' : 'secondary'} className="max-w-[10rem] truncate">
+                    {device?.status === 'approved' ? device.name : device?.status === 'pending' ? 'Awaiting approval' : 'Unregistered terminal'}
+                  </Badge>
+                </Link>
               </div>
               <div className="flex items-center gap-2 text-sm capitalize text-muted-foreground">
+                {simulated && <Badge variant="secondary" title="Weights come from the simulator (Hardware → Scale Source). Captures are still recorded.">Simulated</Badge>}
                 {statusIndicator[status]}
                 {status}
               </div>
             </CardHeader>
             <CardContent className="flex-1 flex flex-col items-center justify-center p-6">
-              <WeightDisplay weight={weight} status={status} />
+              <WeightDisplay weight={weight} status={status} overload={reading?.overload} />
+              {scaleReady && (
+                <p className={cn("mb-4 text-sm font-medium", assessment.status === 'stable' ? "text-primary" : assessment.status === 'motion' ? "text-muted-foreground" : "text-destructive")}>
+                  {assessment.status === 'stable' ? `Stable · ${assessment.weight_kg.toFixed(2)} kg ready to capture` : assessment.reason}
+                </p>
+              )}
+              <ScaleCommands send={sendCommand} pending={pendingCommand} disabled={!scaleReady} className="w-full mb-6" />
+              {simulated && <ScaleSimulatorControls disabled={!scaleReady} className="w-full mb-6 justify-center" />}
+              <div className="grid grid-cols-2 gap-2 w-full max-w-sm mb-4">
+                <Button variant={mode === 'single' ? 'default' : 'outline'} className="h-12" onClick={() => setMode('single')}>Single Weigh</Button>
+                <Button variant={mode === 'two-pass' ? 'default' : 'outline'} className="h-12" onClick={() => setMode('two-pass')}><Truck className="mr-2 h-4 w-4" /> Gross / Tare</Button>
+              </div>
+              {mode === 'two-pass' && <TwoPassPanel weight={weight} canCapture={canCapture} takeWeight={takeWeight} readDetails={readDetails} onLine={addLine} onOverride={openOverride} />}
               <div className="w-full flex flex-col sm:flex-row gap-4">
-                <Button
-                  size="lg"
-                  className="flex-1 bg-gradient-to-r from-primary to-green-600 hover:from-primary hover:to-emerald-600 text-primary-foreground h-14 text-lg font-semibold transition-all duration-200 hover:scale-105 active:scale-95 focus:ring-2 focus:ring-ring shadow-glow-lg shadow-primary/40"
-                  onClick={handleCapture}
-                  disabled={status !== 'connected' && status !== 'parsing'}
-                >
-                  Capture Weight & Transaction
-                </Button>
+                {mode === 'single' && (
+                  <Button
+                    size="lg"
+                    className="flex-1 bg-gradient-to-r from-primary to-green-600 hover:from-primary hover:to-emerald-600 text-primary-foreground h-14 text-lg font-semibold transition-all duration-200 hover:scale-105 active:scale-95 focus:ring-2 focus:ring-ring shadow-glow-lg shadow-primary/40"
+                    onClick={handleCapture}
+                    disabled={!canCapture}
+                  >
+                    Add Weight to Ticket
+                  </Button>
+                )}
                 <Button
                   size="lg"
                   variant="outline"
@@ -154,13 +729,13 @@ export function QuickWeightPOS() {
         <div className="md:col-span-1">
           <Card className="bg-card/80 border-border backdrop-blur-xl shadow-glow shadow-primary/40 h-full">
             <CardHeader>
-              <CardTitle className="text-lg font-medium text-muted-foreground">Transaction Details</CardTitle>
+              <CardTitle className="text-lg font-medium text-muted-foreground">Ticket Details</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
                 <label htmlFor="supplier" className="text-sm font-medium text-muted-foreground mb-1 block">Supplier</label>
                 {isLoadingSuppliers ? <Skeleton className="h-14 w-full" /> : (
-                  <Select onValueChange={setSupplierId} value={supplierId || ''}>
+                  <Select onValueChange={setSupplierId} value={activeSupplierId || ''} disabled={!!openTicket}>
                     <SelectTrigger className="bg-input border-border text-foreground placeholder:text-muted-foreground focus:ring-ring h-14">
                       <SelectValue placeholder="Select a supplier" />
                     </SelectTrigger>
@@ -171,17 +746,37 @@ export function QuickWeightPOS() {
                 )}
               </div>
               <div>
-                <label htmlFor="material" className="text-sm font-medium text-muted-foreground mb-1 block">Material Type</label>
-                <Input id="material" placeholder="e.g., Copper Wire" value={materialType} onChange={e => setMaterialType(e.target.value)} className="bg-input border-border text-foreground placeholder:text-muted-foreground focus:ring-ring h-14" />
+                <label className="text-sm font-medium text-muted-foreground mb-1 block">Material</label>
+                {isLoadingMaterials ? <Skeleton className="h-40 w-full" /> : <MaterialPicker materials={materials ?? []} value={materialId} onChange={setMaterialId} />}
               </div>
-               <div>
-                <label htmlFor="amount" className="text-sm font-medium text-muted-foreground mb-1 block">Amount (ZAR)</label>
-                <Input id="amount" type="number" placeholder="e.g., 1250.50" value={amount} onChange={e => setAmount(e.target.value)} className="bg-input border-border text-foreground placeholder:text-muted-foreground focus:ring-ring h-14" />
+              <div className="rounded-lg border border-border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-muted-foreground">Line Amount</span>
+                  {liveRule && <Badge variant="outline" className="capitalize">{priceRuleScope(liveRule) === 'base' ? 'List price' : priceRuleScope(liveRule) === 'tier' ? `${liveRule.tier} tier` : 'Supplier price'}</Badge>}
+                </div>
+                {activeOverride ? (
+                  <div className="flex items-end justify-between">
+                    <div className="text-xs text-muted-foreground">Override by {activeOverride.approved_by_username} for {activeOverride.weight_kg.toFixed(2)} kg<br />{activeOverride.reason}</div>
+                    <div className="font-mono text-2xl font-bold">{activeOverride.override_amount.toFixed(2)}</div>
+                  </div>
+                ) : liveRule ? (
+                  <div className="flex items-end justify-between">
+                    <div className="font-mono text-sm text-muted-foreground">{liveRule.price_per_kg.toFixed(2)} ZAR/kg</div>
+                    <div className="font-mono text-2xl font-bold">{lineAmount(liveRule.price_per_kg, weight).toFixed(2)}</div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">{selectedMaterial ? 'No price list entry for this material and weight.' : 'Select a material to see its price.'}</p>
+                )}
+                <div className="flex gap-2">
+                  {mode === 'single' && <Button variant="outline" size="sm" className="h-10 flex-1" onClick={overrideCaptured}>Override Amount</Button>}
+                  {activeOverride && <Button variant="ghost" size="sm" className="h-10" onClick={() => setOverride(null)}>Use Price List</Button>}
+                </div>
               </div>
               <div>
                 <label htmlFor="notes" className="text-sm font-medium text-muted-foreground mb-1 block">Notes</label>
                 <Textarea id="notes" placeholder="Optional notes..." value={notes} onChange={e => setNotes(e.target.value)} className="bg-input border-border text-foreground placeholder:text-muted-foreground focus:ring-ring" />
               </div>
+              <TicketCard ticket={openTicket} onRemove={removeTicketLine} onVoid={voidTicket} onSettle={handleSettle} />
               <Button onClick={handleSync} className="w-full h-14 text-lg" disabled={totalPending === 0}>
                 <Send className="mr-2 h-4 w-4" />
                 Sync Pending
@@ -191,6 +786,17 @@ export function QuickWeightPOS() {
           </Card>
         </div>
       </div>
+      <Dialog open={isSwitchOpen} onOpenChange={setSwitchOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Switch Operator</DialogTitle>
+            <DialogDescription>Entered details are kept; new captures are recorded under the operator who logs in.</DialogDescription>
+          </DialogHeader>
+          {isSwitchOpen && <OperatorPinLogin onSuccess={handleOperatorSwitched} onOfflineSuccess={handleOperatorSwitchedOffline} excludeUsername={user?.username} />}
+        </DialogContent>
+      </Dialog>
+      <PriceOverrideDialog context={overrideContext} onClose={() => setOverrideContext(null)} onApproved={setOverride} />
+      <ReceiptDialog transaction={receipt?.transaction ?? null} supplierName={suppliers?.find(s => s.id === receipt?.supplierId)?.name} onClose={() => setReceipt(null)} />
       <Toaster richColors theme="dark" />
     </PageLayout>
   );
@@ -1,19 +1,22 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api-client";
-import type { Supplier } from "@shared/types";
+import type { Supplier, SupplierTier } from "@shared/types";
+import { SUPPLIER_TIERS } from "@shared/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Toaster, toast } from "sonner";
 import { PlusCircle, Trash2, Search, Loader2, ShieldAlert } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { PageLayout } from "@/components/PageLayout";
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
 import { useAuthStore } from "@/stores/useAuthStore";
+import { usePermission } from "@/hooks/usePermission";
 type SupplierFormData = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
 const PAGE_SIZE = 10;
 export function SupplierDirectory() {
@@ -22,7 +25,8 @@ export function SupplierDirectory() {
   const [search, setSearch] = useState("");
   const [isDialogOpen, setDialogOpen] = useState(false);
   const [page, setPage] = useState(1);
-  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const canManage = usePermission('supplier:write');
+  const canManagePricing = usePermission('pricing:manage');
   const { data: suppliers, isLoading } = useQuery({
     queryKey: ['suppliers'],
     queryFn: () => api<Supplier[]>('/api/suppliers'),
@@ -42,6 +46,19 @@ export function SupplierDirectory() {
       toast.error("Failed to create supplier", { description: error.message });
     },
   });
+  const tierMutation = useMutation({
+    mutationFn: ({ id, price_tier }: { id: string; price_tier: SupplierTier }) => api<Supplier>(`/api/suppliers/${id}/price-tier`, {
+      method: 'PUT',
+      body: JSON.stringify({ price_tier }),
+    }),
+    onSuccess: (s) => {
+      toast.success(`${s.name} moved to the ${s.price_tier} price tier`);
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    },
+    onError: (error) => {
+      toast.error("Tier change failed", { description: error.message });
+    },
+  });
   const deleteMutation = useMutation({
     mutationFn: (id: string) => api<{ id: string, deleted: boolean }>(`/api/suppliers/${id}`, {
       method: 'DELETE',
@@ -148,13 +165,14 @@ export function SupplierDirectory() {
               <TableHead className="w-[30%]">Name</TableHead>
               <TableHead>EPR Number</TableHead>
               <TableHead>Compliance</TableHead>
+              <TableHead>Price Tier</TableHead>
               <TableHead>Primary Contact</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {isLoading ? (
-              <TableRow><TableCell colSpan={5} className="text-center h-48"><Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+              <TableRow><TableCell colSpan={6} className="text-center h-48"><Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
             ) : paginatedSuppliers.length ? (
               paginatedSuppliers.map(s => (
                 <TableRow key={s.id} className="group hover:bg-accent/50 transition-colors">
@@ -167,6 +185,16 @@ export function SupplierDirectory() {
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-bold bg-muted text-muted-foreground border border-border">Basic</span>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {canManagePricing ? (
+                      <Select value={s.price_tier ?? 'standard'} onValueChange={v => tierMutation.mutate({ id: s.id, price_tier: v as SupplierTier })} disabled={tierMutation.isPending && tierMutation.variables?.id === s.id}>
+                        <SelectTrigger className="h-9 w-32 capitalize"><SelectValue /></SelectTrigger>
+                        <SelectContent>{SUPPLIER_TIERS.map(t => <SelectItem key={t} value={t} className="capitalize">{t}</SelectItem>)}</SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm capitalize">{s.price_tier ?? 'standard'}</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="text-sm font-medium">{s.contact_person || 'N/A'}</div>
                     <div className="text-xs text-muted-foreground">{s.phone_number || ''}</div>
@@ -179,7 +207,7 @@ export function SupplierDirectory() {
                 </TableRow>
               ))
             ) : (
-              <TableRow><TableCell colSpan={5} className="text-center h-48 text-muted-foreground font-medium">No supplier records match your criteria.</TableCell></TableRow>
+              <TableRow><TableCell colSpan={6} className="text-center h-48 text-muted-foreground font-medium">No supplier records match your criteria.</TableCell></TableRow>
             )}
           </TableBody>
         </Table>
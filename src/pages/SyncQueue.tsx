@@ -0,0 +1,250 @@
+import { memo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { InventoryLedgerEntry, Material, Supplier, Transaction } from '@shared/types';
+import { materialLabel } from '@shared/materials';
+import { PAYMENT_METHODS } from '@shared/tickets';
+import { netWeight } from '@shared/weighing';
+import { PageLayout } from '@/components/PageLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Download, PencilLine, RotateCcw, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useOfflineStore, type SyncRejection } from '@/stores/useOfflineStore';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useDeviceStore } from '@/stores/useDeviceStore';
+type Lookups = { supplierName: (id: string) => string };
+const describe = (kind: SyncRejection['kind'], item: InventoryLedgerEntry | Transaction, { supplierName }: Lookups): string => {
+  if (kind === 'ledger') {
+    const e = item as InventoryLedgerEntry;
+    return `${e.weight_kg.toFixed(2)} kg ${e.material_type} · ${supplierName(e.supplier_id)}`;
+  }
+  const t = item as Transaction;
+  return `${t.amount.toFixed(2)} ${t.currency} · ${t.lines?.length ?? 1} line(s)${t.payment_method ? ` · ${t.payment_method.toUpperCase()}` : ''}`;
+};
+type EditRejectedDialogProps = { rejection: SyncRejection | null; suppliers: Supplier[]; materials: Material[]; onClose: () => void };
+/** Corrects a rejected item and puts it back in the outbox under the same id. */
+const EditRejectedDialog = memo(({ rejection, suppliers, materials, onClose }: EditRejectedDialogProps) => {
+  const requeueRejected = useOfflineStore(s => s.requeueRejected);
+  const [edits, setEdits] = useState<Partial<InventoryLedgerEntry & Transaction>>({});
+  const close = () => {
+    setEdits({});
+    onClose();
+  };
+  if (!rejection) return null;
+  const isLedger = rejection.kind === 'ledger';
+  const entry = { ...(rejection.item as InventoryLedgerEntry), ...edits } as InventoryLedgerEntry;
+  const transaction = { ...(rejection.item as Transaction), ...edits } as Transaction;
+  const weighed = entry.gross_kg !== undefined && entry.tare_kg !== undefined;
+  const weight = weighed ? netWeight(entry.gross_kg!, entry.tare_kg!) : entry.weight_kg;
+  const ledgerValid = !!entry.supplier_id && !!entry.material_type && weight > 0;
+  const transactionValid = transaction.amount >= 0 && Number.isFinite(transaction.amount);
+  const save = () => {
+    requeueRejected(rejection.item.id, isLedger ? { ...entry, weight_kg: weight } : transaction);
+    toast.success('Item corrected and queued for sync');
+    close();
+  };
+  const setNumber = (key: 'weight_kg' | 'gross_kg' | 'tare_kg' | 'amount', value: string) => setEdits(d => ({ ...d, [key]: value === '' ? NaN : Number(value) }));
+  return (
+    <Dialog open onOpenChange={open => !open && close()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Rejected {isLedger ? 'Ledger Entry' : 'Transaction'}</DialogTitle>
+          <DialogDescription>Rejected because: {rejection.reason}</DialogDescription>
+        </DialogHeader>
+        {isLedger ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label>Supplier</Label>
+              <Select value={entry.supplier_id} onValueChange={v => setEdits(d => ({ ...d, supplier_id: v }))}>
+                <SelectTrigger className="h-12"><SelectValue placeholder="Select supplier" /></SelectTrigger>
+                <SelectContent>{suppliers.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Material</Label>
+              <Select value={entry.material_id ?? ''} onValueChange={v => { const m = materials.find(x => x.id === v); if (m) setEdits(d => ({ ...d, material_id: m.id, material_type: materialLabel(m) })); }}>
+                <SelectTrigger className="h-12"><SelectValue placeholder={entry.material_type || 'Select material'} /></SelectTrigger>
+                <SelectContent>{materials.filter(m => m.active).map(m => <SelectItem key={m.id} value={m.id}>{m.code} · {materialLabel(m)}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            {weighed ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="rejected-gross">Gross (kg)</Label>
+                  <Input id="rejected-gross" type="number" min={0} value={Number.isNaN(entry.gross_kg) ? '' : entry.gross_kg} onChange={e => setNumber('gross_kg', e.target.value)} className="h-12 font-mono" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rejected-tare">Tare (kg)</Label>
+                  <Input id="rejected-tare" type="number" min={0} value={Number.isNaN(entry.tare_kg) ? '' : entry.tare_kg} onChange={e => setNumber('tare_kg', e.target.value)} className="h-12 font-mono" />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="rejected-weight">Weight (kg)</Label>
+                <Input id="rejected-weight" type="number" min={0} value={Number.isNaN(entry.weight_kg) ? '' : entry.weight_kg} onChange={e => setNumber('weight_kg', e.target.value)} className="h-12 font-mono" />
+              </div>
+            )}
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="rejected-notes">Notes</Label>
+              <Textarea id="rejected-notes" value={entry.notes ?? ''} onChange={e => setEdits(d => ({ ...d, notes: e.target.value }))} />
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Payment method</Label>
+              <Select value={transaction.payment_method ?? PAYMENT_METHODS[0]} onValueChange={v => setEdits(d => ({ ...d, payment_method: v }))}>
+                <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+                <SelectContent>{PAYMENT_METHODS.map(m => <SelectItem key={m} value={m} className="uppercase">{m}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            {!transaction.lines?.length && (
+              <div className="space-y-2">
+                <Label htmlFor="rejected-amount">Amount (ZAR)</Label>
+                <Input id="rejected-amount" type="number" min={0} step="0.01" value={Number.isNaN(transaction.amount) ? '' : transaction.amount} onChange={e => setNumber('amount', e.target.value)} className="h-12 font-mono" />
+              </div>
+            )}
+            {!!transaction.lines?.length && <p className="col-span-2 text-sm text-muted-foreground">Ticket totals come from its lines; correct the ledger entries they pay for instead.</p>}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button disabled={isLedger ? !ledgerValid : !transactionValid} onClick={save}><Send className="mr-2 h-4 w-4" /> Save & Requeue</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+export function SyncQueue() {
+  const user = useAuthStore(s => s.user);
+  const pendingLedgerEntries = useOfflineStore(s => s.pendingLedgerEntries);
+  const pendingTransactions = useOfflineStore(s => s.pendingTransactions);
+  const rejectedItems = useOfflineStore(s => s.rejectedItems);
+  const syncAttempts = useOfflineStore(s => s.syncAttempts);
+  const syncBackoff = useOfflineStore(s => s.syncBackoff);
+  const isOnline = useOfflineStore(s => s.isOnline);
+  const syncAllPending = useOfflineStore(s => s.syncAllPending);
+  const requeueRejected = useOfflineStore(s => s.requeueRejected);
+  const discardRejected = useOfflineStore(s => s.discardRejected);
+  const [editing, setEditing] = useState<SyncRejection | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { data: suppliers } = useQuery({ queryKey: ['suppliers'], queryFn: () => api<Supplier[]>('/api/suppliers') });
+  const { data: materials } = useQuery({ queryKey: ['materials'], queryFn: () => api<Material[]>('/api/materials') });
+  const lookups: Lookups = { supplierName: id => suppliers?.find(s => s.id === id)?.name ?? 'Unknown supplier' };
+  const pending: { kind: SyncRejection['kind']; item: InventoryLedgerEntry | Transaction }[] = [
+    ...pendingLedgerEntries.map(item => ({ kind: 'ledger' as const, item })),
+    ...pendingTransactions.map(item => ({ kind: 'transaction' as const, item })),
+  ];
+  const retryNow = () => {
+    setIsSyncing(true);
+    syncAllPending({ force: true }).finally(() => setIsSyncing(false));
+  };
+  // Everything this terminal still holds, so it can be recovered elsewhere if the device fails.
+  const exportQueue = () => {
+    const { openTicket } = useOfflineStore.getState();
+    const payload = { exported_at: new Date().toISOString(), exported_by: user?.username, device: useDeviceStore.getState().device, pendingLedgerEntries, pendingTransactions, rejectedItems, syncAttempts, openTicket };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `suitewaste_sync_queue_${format(Date.now(), 'yyyyMMdd_HHmmss')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast.success('Sync queue exported');
+  };
+  return (
+    <PageLayout permission="sync:resolve">
+      <div className="space-y-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Sync Queue</h1>
+            <p className="text-sm text-muted-foreground">Items captured on this terminal that have not reached the server yet.</p>
+          </div>
+          <div className="flex w-full sm:w-auto gap-2">
+            <Button variant="outline" className="h-14 flex-1" onClick={exportQueue} disabled={pending.length === 0 && rejectedItems.length === 0}><Download className="mr-2 h-4 w-4" /> Export JSON</Button>
+            <Button className="h-14 flex-1" onClick={retryNow} disabled={!isOnline || pending.length === 0 || isSyncing}><RotateCcw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} /> Retry Now</Button>
+          </div>
+        </div>
+        {syncBackoff && pending.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Next automatic retry {formatDistanceToNow(syncBackoff.next_attempt_at, { addSuffix: true })} (attempt {syncBackoff.attempts + 1}). Last error: {syncBackoff.last_error}
+          </p>
+        )}
+        {!isOnline && <Badge variant="destructive">Offline: the queue will sync when the connection returns</Badge>}
+        <Card>
+          <CardHeader><CardTitle>Pending ({pending.length})</CardTitle></CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader><TableRow><TableHead>Type</TableHead><TableHead>Item</TableHead><TableHead>Age</TableHead><TableHead className="text-right">Attempts</TableHead><TableHead>Last error</TableHead></TableRow></TableHeader>
+                <TableBody>
+                  {pending.length > 0 ? pending.map(({ kind, item }) => {
+                    const attempts = syncAttempts[item.id];
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell><Badge variant="outline">{kind === 'ledger' ? 'Ledger' : 'Transaction'}</Badge></TableCell>
+                        <TableCell>
+                          <div className="text-sm">{describe(kind, item, lookups)}</div>
+                          <div className="font-mono text-xs text-muted-foreground">{item.id}</div>
+                        </TableCell>
+                        <TableCell className="text-sm" title={format(item.created_at, 'PPpp')}>{formatDistanceToNow(item.created_at)}</TableCell>
+                        <TableCell className="text-right font-mono">{attempts?.attempts ?? 0}</TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={attempts?.last_error}>{attempts?.last_error ?? '—'}</TableCell>
+                      </TableRow>
+                    );
+                  }) : (
+                    <TableRow><TableCell colSpan={5} className="text-center h-24 text-muted-foreground">Nothing waiting to sync.</TableCell></TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Rejected ({rejectedItems.length})</CardTitle>
+            <p className="text-sm text-muted-foreground">The server refused these and will not accept them as they are. Correct and requeue them, or discard them once they have been dealt with.</p>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader><TableRow><TableHead>Type</TableHead><TableHead>Item</TableHead><TableHead>Reason</TableHead><TableHead>Rejected</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                <TableBody>
+                  {rejectedItems.length > 0 ? rejectedItems.map(r => (
+                    <TableRow key={r.item.id}>
+                      <TableCell><Badge variant="outline">{r.kind === 'ledger' ? 'Ledger' : 'Transaction'}</Badge></TableCell>
+                      <TableCell>
+                        <div className="text-sm">{describe(r.kind, r.item, lookups)}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{r.item.id}</div>
+                      </TableCell>
+                      <TableCell className="max-w-xs text-sm text-destructive">{r.reason}</TableCell>
+                      <TableCell className="text-sm" title={format(r.rejected_at, 'PPpp')}>{formatDistanceToNow(r.rejected_at, { addSuffix: true })}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" aria-label="Edit and requeue" onClick={() => setEditing(r)}><PencilLine className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="icon" aria-label="Requeue unchanged" onClick={() => requeueRejected(r.item.id)}><RotateCcw className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="icon" aria-label="Discard" className="text-destructive" onClick={() => { if (window.confirm('Discard this item from the terminal? Export the queue first if it may still be needed.')) discardRejected(r.item.id); }}><Trash2 className="h-4 w-4" /></Button>
+                      </TableCell>
+                    </TableRow>
+                  )) : (
+                    <TableRow><TableCell colSpan={5} className="text-center h-24 text-muted-foreground">No rejected items.</TableCell></TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+      <EditRejectedDialog key={editing?.item.id ?? 'none'} rejection={editing} suppliers={suppliers ?? []} materials={materials ?? []} onClose={() => setEditing(null)} />
+    </PageLayout>
+  );
+}
@@ -1,7 +1,9 @@
 import { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { api } from '@/lib/api-client';
-import type { Transaction, InventoryLedgerEntry, Supplier } from '@shared/types';
+import type { Transaction, InventoryLedgerEntry, Supplier, Material } from '@shared/types';
+import { transactionLines } from '@shared/tickets';
+import { materialResolver, eprStreamOf } from '@shared/materials';
 import { PageLayout } from '@/components/PageLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -12,16 +14,6 @@ import { format } from 'date-fns';
 import { Download } from 'lucide-react';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 const PAGE_SIZE = 10;
-// Helper to map material types to EPR streams for mock reporting
-const getEprStream = (materialType: string): string => {
-  const lowerMat = materialType.toLowerCase();
-  if (lowerMat.includes('plastic') || lowerMat.includes('pet')) return 'Plastic';
-  if (lowerMat.includes('paper') || lowerMat.includes('cardboard')) return 'Paper & Packaging';
-  if (lowerMat.includes('glass')) return 'Glass';
-  if (lowerMat.includes('copper') || lowerMat.includes('aluminum') || lowerMat.includes('steel') || lowerMat.includes('metal')) return 'Metals';
-  if (lowerMat.includes('electronic') || lowerMat.includes('weee') || lowerMat.includes('battery')) return 'Electrical & Electronic';
-  return 'Other';
-};
 export function Transactions() {
   const [search, setSearch] = useState('');
   const [dateFrom, setDateFrom] = useState('');
@@ -33,12 +25,13 @@ export function Transactions() {
   });
   const { data: ledgerEntries } = useQuery({ queryKey: ['ledger'], queryFn: () => api<InventoryLedgerEntry[]>('/api/ledger') });
   const { data: suppliers } = useQuery({ queryKey: ['suppliers'], queryFn: () => api<Supplier[]>('/api/suppliers') });
+  const { data: materials } = useQuery({ queryKey: ['materials'], queryFn: () => api<Material[]>('/api/materials') });
   const filteredTransactions = useMemo(() => {
     const from = dateFrom ? new Date(dateFrom).getTime() : 0;
     const to = dateTo ? new Date(dateTo).getTime() + 86400000 : Infinity;
     return transactions
       ?.filter(t =>
-        (t.id.toLowerCase().includes(search.toLowerCase()) || t.ledger_entry_id.toLowerCase().includes(search.toLowerCase())) &&
+        (t.id.toLowerCase().includes(search.toLowerCase()) || transactionLines(t).some(l => l.ledger_entry_id.toLowerCase().includes(search.toLowerCase()))) &&
         (t.transaction_timestamp >= from && t.transaction_timestamp <= to)
       )
       .sort((a, b) => b.transaction_timestamp - a.transaction_timestamp) || [];
@@ -48,22 +41,28 @@ export function Transactions() {
   const exportToCSV = () => {
     const ledgerMap = new Map(ledgerEntries?.map(e => [e.id, e]));
     const supplierMap = new Map(suppliers?.map(s => [s.id, s]));
-    const headers = ['Transaction ID', 'Timestamp', 'Supplier', 'Material', 'Weight (kg)', 'Amount (ZAR)', 'EPR Fee (ZAR)', 'EPR Stream'];
-    const rows = filteredTransactions.map(t => {
-      const ledgerEntry = ledgerMap.get(t.ledger_entry_id);
+    const materialOf = materialResolver(materials ?? []);
+    const headers = ['Transaction ID', 'Timestamp', 'Supplier', 'Material', 'Weight (kg)', 'Amount (ZAR)', 'EPR Fee (ZAR)', 'EPR Stream', 'EPR Rate (ZAR/kg)', 'EPR Tariff'];
+    // One row per ticket line, so material, weight and EPR stream stay per-material for reconciliation.
+    const rows = filteredTransactions.flatMap(t => transactionLines(t).map(line => {
+      const ledgerEntry = ledgerMap.get(line.ledger_entry_id);
       const supplier = ledgerEntry ? supplierMap.get(ledgerEntry.supplier_id) : undefined;
       const materialType = ledgerEntry?.material_type || 'N/A';
+      // Fees synced before tariffs were recorded have no basis.
+      const basis = t.epr_basis?.find(b => b.ledger_entry_id === line.ledger_entry_id);
       return [
         t.id,
         format(new Date(t.transaction_timestamp), 'yyyy-MM-dd HH:mm:ss'),
         `"${supplier?.name || 'N/A'}"`,
         `"${materialType}"`,
         ledgerEntry?.weight_kg.toFixed(2) || 'N/A',
-        t.amount.toFixed(2),
-        t.epr_fee.toFixed(2),
-        getEprStream(materialType)
+        line.amount.toFixed(2),
+        line.epr_fee.toFixed(2),
+        basis?.epr_stream ?? (ledgerEntry ? eprStreamOf(materialOf(ledgerEntry)) : 'N/A'),
+        basis ? basis.rate_per_kg.toFixed(4) : 'N/A',
+        basis?.tariff_id ?? 'N/A'
       ].join(',');
-    });
+    }));
     const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows].join('\n');
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
@@ -74,7 +73,7 @@ export function Transactions() {
     document.body.removeChild(link);
   };
   return (
-    <PageLayout>
+    <PageLayout permission="transaction:read">
       <div className="space-y-8">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <h1 className="text-3xl font-bold tracking-tight">Transactions</h1>
@@ -91,19 +90,20 @@ export function Transactions() {
           <CardContent>
             <div className="overflow-x-auto border rounded-lg">
               <Table className="min-w-[600px]">
-                <TableHeader><TableRow><TableHead>Transaction ID</TableHead><TableHead>Ledger Entry ID</TableHead><TableHead>Timestamp</TableHead><TableHead className="text-right">Amount</TableHead><TableHead className="text-right">EPR Fee</TableHead></TableRow></TableHeader>
+                <TableHeader><TableRow><TableHead>Transaction ID</TableHead><TableHead>Ledger Entry ID</TableHead><TableHead className="text-right">Lines</TableHead><TableHead>Timestamp</TableHead><TableHead className="text-right">Amount</TableHead><TableHead className="text-right">EPR Fee</TableHead></TableRow></TableHeader>
                 <TableBody>
-                  {isLoadingTransactions ? (Array.from({ length: 5 }).map((_, i) => (<TableRow key={i}><TableCell colSpan={5}><Skeleton className="h-8 w-full" /></TableCell></TableRow>)))
+                  {isLoadingTransactions ? (Array.from({ length: 5 }).map((_, i) => (<TableRow key={i}><TableCell colSpan={6}><Skeleton className="h-8 w-full" /></TableCell></TableRow>)))
                    : paginatedTransactions.length > 0 ? (paginatedTransactions.map(t => (
                       <TableRow key={t.id}>
                         <TableCell className="font-mono text-xs truncate">{t.id}</TableCell>
                         <TableCell className="font-mono text-xs truncate">{t.ledger_entry_id}</TableCell>
+                        <TableCell className="text-right">{transactionLines(t).length}</TableCell>
                         <TableCell>{format(new Date(t.transaction_timestamp), 'PPpp')}</TableCell>
                         <TableCell className="text-right font-mono">{t.amount.toFixed(2)} {t.currency}</TableCell>
                         <TableCell className="text-right font-mono">{t.epr_fee.toFixed(2)}</TableCell>
                       </TableRow>
                     )))
-                   : (<TableRow><TableCell colSpan={5} className="text-center h-24">No transactions found.</TableCell></TableRow>)}
+                   : (<TableRow><TableCell colSpan={6} className="text-center h-24">No transactions found.</TableCell></TableRow>)}
                 </TableBody>
               </Table>
             </div>
@@ -0,0 +1,249 @@
+import { useState, memo } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { ChangePasswordRequest, TotpSetupResponse } from '@shared/types';
+import { useForm } from 'react-hook-form';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldAlert, Loader2, ShieldCheck, Copy } from 'lucide-react';
+import { PinPad } from '@/components/PinPad';
+import { TotpCodeInput, TOTP_CODE_LENGTH } from '@/components/TotpCodeInput';
+import { QRCodeSVG } from 'qrcode.react';
+import { PIN_LENGTH } from '@shared/types';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { MIN_PASSWORD_LENGTH } from './constants';
+export const OperatorPinCard = memo(() => {
+  const user = useAuthStore(s => s.user);
+  const setUser = useAuthStore(s => s.setUser);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const mutation = useMutation({
+    mutationFn: () => api('/api/auth/pin', { method: 'POST', body: JSON.stringify({ currentPassword, pin }) }),
+    onSuccess: () => {
+      toast.success('Quick-login PIN saved');
+      setCurrentPassword('');
+      setPin('');
+      if (user) setUser({ ...user, has_pin: true });
+    },
+    onError: (e) => toast.error('PIN update failed', { description: e.message }),
+  });
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl max-w-xl">
+      <CardHeader>
+        <CardTitle>Quick-Login PIN</CardTitle>
+        <p className="text-sm text-muted-foreground">{user?.has_pin ? 'A PIN is set. Enter a new one to replace it.' : 'Set a PIN to log in from the PIN pad on shared terminals.'}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="pin-current-password">Current Password</Label>
+          <Input id="pin-current-password" type="password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className="h-12" />
+        </div>
+        <PinPad value={pin} onChange={setPin} disabled={mutation.isPending} />
+        <Button className="w-full h-12" disabled={!currentPassword || pin.length !== PIN_LENGTH || mutation.isPending} onClick={() => mutation.mutate()}>
+          {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save PIN
+        </Button>
+      </CardContent>
+    </Card>
+  );
+});
+const RecoveryCodesDialog = memo(({ codes, onClose }: { codes: string[] | null; onClose: () => void }) => (
+  <Dialog open={!!codes} onOpenChange={open => !open && onClose()}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Save Your Recovery Codes</DialogTitle>
+        <DialogDescription>Each code signs you in once if you lose access to your authenticator app. They will not be shown again.</DialogDescription>
+      </DialogHeader>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-4 font-mono text-sm">
+        {codes?.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={() => navigator.clipboard.writeText((codes ?? []).join('\n')).then(() => toast.success('Recovery codes copied'))}>
+          <Copy className="mr-2 h-4 w-4" /> Copy
+        </Button>
+        <Button onClick={onClose}>I've Saved Them</Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+));
+export const TwoFactorCard = memo(() => {
+  const user = useAuthStore(s => s.user);
+  const setUser = useAuthStore(s => s.setUser);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [setup, setSetup] = useState<TotpSetupResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const post = <T,>(path: string, body: object) => api<T>(path, { method: 'POST', body: JSON.stringify(body) });
+  const setupMutation = useMutation({
+    mutationFn: () => post<TotpSetupResponse>('/api/auth/totp/setup', { currentPassword }),
+    onSuccess: (data) => {
+      setSetup(data);
+      setCurrentPassword('');
+    },
+    onError: (e) => toast.error('2FA setup failed', { description: e.message }),
+  });
+  const enableMutation = useMutation({
+    mutationFn: (value: string) => post<{ recoveryCodes: string[] }>('/api/auth/totp/enable', { code: value }),
+    onSuccess: (data) => {
+      toast.success('Two-factor authentication enabled');
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes);
+      if (user) setUser({ ...user, totp_enabled: true, totp_enrollment_required: false, recovery_codes_remaining: data.recoveryCodes.length });
+    },
+    onError: (e) => {
+      setCode('');
+      toast.error('Verification failed', { description: e.message });
+    },
+  });
+  const regenerateMutation = useMutation({
+    mutationFn: () => post<{ recoveryCodes: string[] }>('/api/auth/totp/recovery-codes', { code }),
+    onSuccess: (data) => {
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes);
+      if (user) setUser({ ...user, recovery_codes_remaining: data.recoveryCodes.length });
+    },
+    onError: (e) => toast.error('Could not generate recovery codes', { description: e.message }),
+  });
+  const disableMutation = useMutation({
+    mutationFn: () => post('/api/auth/totp/disable', { currentPassword, code }),
+    onSuccess: () => {
+      toast.success('Two-factor authentication disabled');
+      setCurrentPassword('');
+      setCode('');
+      if (user) setUser({ ...user, totp_enabled: false, recovery_codes_remaining: undefined });
+    },
+    onError: (e) => toast.error('Could not disable 2FA', { description: e.message }),
+  });
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" /> Two-Factor Authentication
+          {user?.totp_enabled && <Badge variant="secondary">Enabled</Badge>}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">Require a code from an authenticator app (Google Authenticator, Authy, 1Password…) in addition to your password.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user?.totp_enrollment_required && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Two-factor authentication required</AlertTitle>
+            <AlertDescription>The security policy requires 2FA for your role. Set it up to unlock the rest of the system.</AlertDescription>
+          </Alert>
+        )}
+        {user?.totp_enabled ? (
+          <>
+            <p className="text-sm">{user.recovery_codes_remaining ?? 0} unused recovery code(s) remaining.</p>
+            <div className="space-y-2">
+              <Label>Authenticator Code</Label>
+              <TotpCodeInput value={code} onChange={setCode} disabled={regenerateMutation.isPending || disableMutation.isPending} className="justify-start" />
+            </div>
+            <Button variant="outline" className="w-full h-12" disabled={code.length !== TOTP_CODE_LENGTH || regenerateMutation.isPending} onClick={() => regenerateMutation.mutate()}>
+              {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Generate New Recovery Codes
+            </Button>
+            <div className="space-y-2 pt-2 border-t border-border">
+              <Label htmlFor="totp-disable-password">Current Password (to disable)</Label>
+              <Input id="totp-disable-password" type="password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className="h-12" />
+            </div>
+            <Button variant="destructive" className="w-full h-12" disabled={!currentPassword || code.length !== TOTP_CODE_LENGTH || disableMutation.isPending} onClick={() => disableMutation.mutate()}>
+              {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Disable Two-Factor Authentication
+            </Button>
+          </>
+        ) : setup ? (
+          <>
+            <p className="text-sm">Scan this QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+            <div className="flex justify-center rounded-lg bg-white p-4">
+              <QRCodeSVG value={setup.otpauthUri} size={192} />
+            </div>
+            <div className="space-y-1 text-center">
+              <p className="text-xs text-muted-foreground">Can't scan? Enter this key manually:</p>
+              <code className="block break-all font-mono text-sm tracking-wider">{setup.secret.match(/.{1,4}/g)?.join(' ')}</code>
+            </div>
+            <TotpCodeInput value={code} onChange={setCode} onComplete={value => enableMutation.mutate(value)} disabled={enableMutation.isPending} />
+            <Button variant="ghost" className="w-full" onClick={() => { setSetup(null); setCode(''); }}>Cancel</Button>
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="totp-setup-password">Current Password</Label>
+              <Input id="totp-setup-password" type="password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className="h-12" />
+            </div>
+            <Button className="w-full h-12" disabled={!currentPassword || setupMutation.isPending} onClick={() => setupMutation.mutate()}>
+              {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Set Up Two-Factor Authentication
+            </Button>
+          </>
+        )}
+        <RecoveryCodesDialog codes={recoveryCodes} onClose={() => setRecoveryCodes(null)} />
+      </CardContent>
+    </Card>
+  );
+});
+type ChangePasswordForm = ChangePasswordRequest & { confirmPassword: string };
+export const AccountTab = memo(() => {
+  const user = useAuthStore(s => s.user);
+  const setUser = useAuthStore(s => s.setUser);
+  const { register, handleSubmit, reset } = useForm<ChangePasswordForm>();
+  const mutation = useMutation({
+    mutationFn: (body: ChangePasswordRequest) => api('/api/auth/change-password', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    onSuccess: () => {
+      toast.success('Password changed');
+      reset();
+      if (user) setUser({ ...user, must_change_password: false });
+    },
+    onError: (e) => toast.error('Password change failed', { description: e.message }),
+  });
+  const onSubmit = ({ currentPassword, newPassword, confirmPassword }: ChangePasswordForm) => {
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error('New passwords do not match.');
+      return;
+    }
+    mutation.mutate({ currentPassword, newPassword });
+  };
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl max-w-xl">
+      <CardHeader>
+        <CardTitle>Change Password</CardTitle>
+        <p className="text-sm text-muted-foreground">Signed in as {user?.username}.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user?.must_change_password && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Password change required</AlertTitle>
+            <AlertDescription>Your password was reset by an administrator. Please choose a new one.</AlertDescription>
+          </Alert>
+        )}
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current Password</Label>
+            <Input id="current-password" type="password" required {...register('currentPassword')} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New Password</Label>
+            <Input id="new-password" type="password" required {...register('newPassword')} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm New Password</Label>
+            <Input id="confirm-password" type="password" required {...register('confirmPassword')} className="h-12" />
+          </div>
+          <Button type="submit" className="w-full h-12" disabled={mutation.isPending}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Update Password
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+});
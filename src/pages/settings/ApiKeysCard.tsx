@@ -0,0 +1,164 @@
+import { useState, memo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { PublicApiKey, CreateApiKeyRequest, CreateApiKeyResponse } from '@shared/types';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Copy, KeySquare, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { PERMISSIONS, API_KEY_SCOPES, type Permission } from '@shared/permissions';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+const API_KEY_EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+] as const;
+const CreateApiKeyDialog = memo(() => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [expiry, setExpiry] = useState<string>('90');
+  const [token, setToken] = useState<string | null>(null);
+  const mutation = useMutation({
+    mutationFn: (body: CreateApiKeyRequest) => api<CreateApiKeyResponse>('/api/admin/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    onSuccess: (data) => {
+      setToken(data.token);
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+    },
+    onError: (e) => toast.error('Could not create API key', { description: e.message }),
+  });
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setName('');
+      setScopes([]);
+      setExpiry('90');
+      setToken(null);
+    }
+  };
+  const toggleScope = (scope: Permission, on: boolean) => setScopes(prev => on ? [...prev, scope] : prev.filter(s => s !== scope));
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild><Button variant="outline"><Plus className="mr-2 h-4 w-4" /> New API Key</Button></DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{token ? 'Copy Your API Key' : 'New API Key'}</DialogTitle>
+          <DialogDescription>{token ? 'This is the only time the key is shown. Store it in the integration\'s secret configuration.' : 'Issue a key for a machine client. It can only call the endpoints its scopes allow.'}</DialogDescription>
+        </DialogHeader>
+        {token ? (
+          <div className="space-y-4">
+            <code className="block break-all rounded-lg bg-muted p-4 font-mono text-sm">{token}</code>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => navigator.clipboard.writeText(token).then(() => toast.success('API key copied'))}><Copy className="mr-2 h-4 w-4" /> Copy</Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input id="api-key-name" placeholder="e.g., Accounting export" value={name} onChange={e => setName(e.target.value)} className="h-12" />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid grid-cols-1 gap-2 rounded-lg border border-border p-3">
+                {API_KEY_SCOPES.map(scope => (
+                  <label key={scope} className="flex items-center gap-3 text-sm">
+                    <Checkbox checked={scopes.includes(scope)} onCheckedChange={v => toggleScope(scope, v === true)} />
+                    <span className="font-mono text-xs">{scope}</span>
+                    <span className="text-muted-foreground">{PERMISSIONS[scope]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {API_KEY_EXPIRY_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button className="w-full h-12" disabled={!name.trim() || scopes.length === 0 || mutation.isPending} onClick={() => mutation.mutate({ name: name.trim(), scopes, expiresInDays: expiry === 'never' ? undefined : Number(expiry) })}>
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Create Key
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+});
+const apiKeyStatus = (key: PublicApiKey): { label: string; variant: 'secondary' | 'destructive' | 'outline' } => {
+  if (key.revoked_at) return { label: 'Revoked', variant: 'destructive' };
+  if (key.expires_at && key.expires_at <= Date.now()) return { label: 'Expired', variant: 'outline' };
+  return { label: 'Active', variant: 'secondary' };
+};
+export const ApiKeysCard = memo(() => {
+  const queryClient = useQueryClient();
+  const { data: keys, isLoading } = useQuery({ queryKey: ['api-keys'], queryFn: () => api<PublicApiKey[]>('/api/admin/api-keys') });
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => api<PublicApiKey>(`/api/admin/api-keys/${id}`, { method: 'DELETE' }),
+    onSuccess: (key) => {
+      toast.success(`API key "${key.name}" revoked`);
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] });
+    },
+    onError: (e) => toast.error('Revoke failed', { description: e.message }),
+  });
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2"><KeySquare className="h-5 w-5" /> API Keys</CardTitle>
+          <p className="text-sm text-muted-foreground">Scoped keys let accounting systems and weighbridge PCs call the API without a user session. Send as <code className="font-mono">Authorization: Bearer swk_…</code></p>
+        </div>
+        <CreateApiKeyDialog />
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Scopes</TableHead><TableHead>Status</TableHead><TableHead>Expires</TableHead><TableHead>Last Used</TableHead><TableHead className="text-right">Action</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={6} className="text-center h-24"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+              ) : keys && keys.length > 0 ? keys.map(k => {
+                const status = apiKeyStatus(k);
+                return (
+                  <TableRow key={k.id}>
+                    <TableCell>
+                      <div className="font-medium">{k.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground">swk_{k.id}_…</div>
+                    </TableCell>
+                    <TableCell><div className="flex flex-wrap gap-1">{k.scopes.map(s => <Badge key={s} variant="outline" className="font-mono text-[10px]">{s}</Badge>)}</div></TableCell>
+                    <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                    <TableCell className="text-sm">{k.expires_at ? format(k.expires_at, 'yyyy-MM-dd') : 'Never'}</TableCell>
+                    <TableCell className="text-sm">{k.last_used_at ? <span title={k.last_used_ip}>{formatDistanceToNow(k.last_used_at, { addSuffix: true })}</span> : 'Never'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" className="text-destructive" disabled={!!k.revoked_at || (revokeMutation.isPending && revokeMutation.variables === k.id)} onClick={() => { if (window.confirm(`Revoke "${k.name}"? Integrations using it stop working immediately.`)) revokeMutation.mutate(k.id); }}>
+                        {revokeMutation.isPending && revokeMutation.variables === k.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Revoke'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow><TableCell colSpan={6} className="text-center h-24 text-muted-foreground">No API keys issued.</TableCell></TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
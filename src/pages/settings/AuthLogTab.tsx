@@ -0,0 +1,77 @@
+import { memo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { AuthEvent, AuthEventType } from '@shared/types';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, ScrollText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+const AUTH_EVENT_LABELS: Record<AuthEventType, { label: string; tone: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  login_success: { label: 'Login', tone: 'secondary' },
+  login_failure: { label: 'Failed Login', tone: 'destructive' },
+  login_locked: { label: 'Locked Out', tone: 'destructive' },
+  pin_login_success: { label: 'PIN Login', tone: 'secondary' },
+  pin_login_failure: { label: 'Failed PIN', tone: 'destructive' },
+  logout: { label: 'Logout', tone: 'outline' },
+  session_revoked: { label: 'Session Revoked', tone: 'default' },
+  sessions_cleared: { label: 'All Sessions Cleared', tone: 'default' },
+  password_changed: { label: 'Password Changed', tone: 'outline' },
+  password_reset: { label: 'Password Reset', tone: 'default' },
+  totp_enabled: { label: '2FA Enabled', tone: 'outline' },
+  totp_disabled: { label: '2FA Disabled', tone: 'default' },
+  totp_failure: { label: 'Failed 2FA Code', tone: 'destructive' },
+  totp_reset: { label: '2FA Reset', tone: 'default' },
+  recovery_code_used: { label: 'Recovery Code Used', tone: 'default' },
+  api_key_created: { label: 'API Key Created', tone: 'outline' },
+  api_key_revoked: { label: 'API Key Revoked', tone: 'default' },
+  user_created: { label: 'User Created', tone: 'outline' },
+  user_deleted: { label: 'User Deleted', tone: 'default' },
+};
+export const AuthLogTab = memo(() => {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['auth-events'],
+    queryFn: ({ pageParam }) => api<{ items: AuthEvent[]; next: string | null }>(`/api/admin/auth-events?limit=50${pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : ''}`),
+    initialPageParam: null as string | null,
+    getNextPageParam: (last) => last.next,
+  });
+  const events = data?.pages.flatMap(p => p.items) ?? [];
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ScrollText className="h-5 w-5" /> Authentication Log</CardTitle>
+        <p className="text-sm text-muted-foreground">Logins, failed attempts, lockouts and credential changes, newest first.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader><TableRow><TableHead>Time</TableHead><TableHead>Event</TableHead><TableHead>User</TableHead><TableHead>IP</TableHead><TableHead>Detail</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={5} className="text-center h-24"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+              ) : events.length > 0 ? events.map(e => (
+                <TableRow key={e.id}>
+                  <TableCell className="text-sm whitespace-nowrap" title={formatDistanceToNow(e.timestamp, { addSuffix: true })}>{format(e.timestamp, 'yyyy-MM-dd HH:mm:ss')}</TableCell>
+                  <TableCell><Badge variant={AUTH_EVENT_LABELS[e.type]?.tone ?? 'outline'}>{AUTH_EVENT_LABELS[e.type]?.label ?? e.type}</Badge></TableCell>
+                  <TableCell className="font-medium">{e.username || e.userId || '—'}</TableCell>
+                  <TableCell className="font-mono text-xs">{e.ip || '—'}</TableCell>
+                  <TableCell className="max-w-[260px] truncate text-xs text-muted-foreground" title={e.userAgent}>{e.detail || '—'}</TableCell>
+                </TableRow>
+              )) : (
+                <TableRow><TableCell colSpan={5} className="text-center h-24 text-muted-foreground">No authentication events recorded yet.</TableCell></TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Load More
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
@@ -0,0 +1,247 @@
+import { useState, useMemo, memo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { EPRReport, EprTariff, CreateEprTariffRequest, EprTariffPreview, EprStream } from '@shared/types';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2, Plus, Recycle } from 'lucide-react';
+import { EPR_STREAMS } from '@shared/types';
+import { Badge } from '@/components/ui/badge';
+import { usePermission } from '@/hooks/usePermission';
+import { toast } from 'sonner';
+import { ResponsiveContainer, PieChart, Pie, Cell, Tooltip, Legend } from 'recharts';
+const COLORS = ['#38761d', '#5a9a47', '#7cb870', '#a0d69a', '#c5f4c3', '#e7f9e6'];
+const NewEprTariffDialog = memo(() => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [stream, setStream] = useState<EprStream>(EPR_STREAMS[0]);
+  const [pro, setPro] = useState('');
+  const [rate, setRate] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [preview, setPreview] = useState<EprTariffPreview | null>(null);
+  const reset = () => {
+    setStream(EPR_STREAMS[0]);
+    setPro('');
+    setRate('');
+    setEffectiveFrom('');
+    setPreview(null);
+  };
+  const body = (): CreateEprTariffRequest => ({
+    epr_stream: stream,
+    pro: pro.trim() || undefined,
+    rate_per_kg: Number(rate),
+    effective_from: effectiveFrom ? new Date(effectiveFrom).getTime() : Date.now(),
+  });
+  const previewMutation = useMutation({
+    mutationFn: (req: CreateEprTariffRequest) => api<EprTariffPreview>('/api/epr/tariffs/preview', { method: 'POST', body: JSON.stringify(req) }),
+    onSuccess: setPreview,
+    onError: (e) => toast.error('Could not preview tariff', { description: e.message }),
+  });
+  const mutation = useMutation({
+    mutationFn: (req: CreateEprTariffRequest) => api<EprTariff>('/api/epr/tariffs', { method: 'POST', body: JSON.stringify(req) }),
+    onSuccess: (tariff) => {
+      toast.success('Tariff saved', { description: tariff.effective_from > Date.now() ? `Takes effect ${format(tariff.effective_from, 'PPp')}` : 'Applies to transactions synced from now on' });
+      queryClient.invalidateQueries({ queryKey: ['epr-tariffs'] });
+      reset();
+      setOpen(false);
+    },
+    onError: (e) => toast.error('Could not save tariff', { description: e.message }),
+  });
+  // Any change to the inputs makes an earlier preview stale.
+  const change = (apply: () => void) => {
+    apply();
+    setPreview(null);
+  };
+  const invalid = rate === '' || Number(rate) < 0;
+  return (
+    <Dialog open={open} onOpenChange={next => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild><Button variant="outline"><Plus className="mr-2 h-4 w-4" /> New Tariff</Button></DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New EPR Tariff</DialogTitle>
+          <DialogDescription>Tariffs are never edited. A new tariff for the same stream and PRO supersedes the old one from its effective date; recorded fees keep the tariff they were computed with.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>EPR Stream</Label>
+            <Select value={stream} onValueChange={v => change(() => setStream(v as EprStream))}>
+              <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+              <SelectContent>{EPR_STREAMS.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tariff-pro">PRO</Label>
+            <Input id="tariff-pro" placeholder="All PROs" value={pro} onChange={e => change(() => setPro(e.target.value))} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tariff-rate">Rate (ZAR/kg)</Label>
+            <Input id="tariff-rate" type="number" step="0.01" min={0} value={rate} onChange={e => change(() => setRate(e.target.value))} className="h-12 font-mono" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tariff-from">Effective from</Label>
+            <Input id="tariff-from" type="datetime-local" value={effectiveFrom} onChange={e => change(() => setEffectiveFrom(e.target.value))} className="h-12" />
+          </div>
+        </div>
+        {preview && (
+          <div className="rounded-lg border p-4 space-y-2 text-sm">
+            <p className="font-medium">{preview.lines_affected} line(s) on {preview.transactions} recorded transaction(s) would be priced by this tariff.</p>
+            {Object.entries(preview.by_stream).map(([name, s]) => (
+              <div key={name} className="flex justify-between font-mono text-xs"><span className="font-sans">{name}</span><span>R {s.current.toFixed(2)} → R {s.recalculated.toFixed(2)}</span></div>
+            ))}
+            <div className="flex justify-between font-mono border-t pt-2"><span className="font-sans">Total</span><span>R {preview.current_fees.toFixed(2)} → R {preview.recalculated_fees.toFixed(2)}</span></div>
+            <p className="text-xs text-muted-foreground">Preview only. Recorded transactions are not recalculated.</p>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" disabled={invalid || previewMutation.isPending} onClick={() => previewMutation.mutate(body())}>
+            {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Preview impact
+          </Button>
+          <Button disabled={invalid || mutation.isPending} onClick={() => mutation.mutate(body())}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Tariff
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+const eprTariffStatus = (tariff: EprTariff, tariffs: EprTariff[], now: number): { label: string; variant: 'secondary' | 'outline' | 'default' } => {
+  if (tariff.effective_to !== undefined && tariff.effective_to <= now) return { label: 'Ended', variant: 'outline' };
+  if (tariff.effective_from > now) return { label: 'Scheduled', variant: 'default' };
+  const superseded = tariffs.some(t => t.id !== tariff.id && t.epr_stream === tariff.epr_stream && (t.pro ?? '').toLowerCase() === (tariff.pro ?? '').toLowerCase()
+    && t.effective_from > tariff.effective_from && t.effective_from <= now && (t.effective_to === undefined || now < t.effective_to));
+  return superseded ? { label: 'Superseded', variant: 'outline' } : { label: 'Active', variant: 'secondary' };
+};
+const EprTariffsCard = memo(() => {
+  const queryClient = useQueryClient();
+  const { data: tariffs, isLoading } = useQuery({ queryKey: ['epr-tariffs'], queryFn: () => api<EprTariff[]>('/api/epr/tariffs') });
+  const endMutation = useMutation({
+    mutationFn: (id: string) => api<EprTariff>(`/api/epr/tariffs/${id}/end`, { method: 'POST' }),
+    onSuccess: () => {
+      toast.success('Tariff ended');
+      queryClient.invalidateQueries({ queryKey: ['epr-tariffs'] });
+    },
+    onError: (e) => toast.error('Could not end tariff', { description: e.message }),
+  });
+  const now = Date.now();
+  return (
+    <Card className="bg-card/80 border-border">
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2"><Recycle className="h-5 w-5" /> EPR Tariffs</CardTitle>
+          <p className="text-sm text-muted-foreground">Fees are computed on sync from the tariff in force at the transaction time. A PRO-specific tariff beats the stream default.</p>
+        </div>
+        <NewEprTariffDialog />
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader><TableRow><TableHead>Stream</TableHead><TableHead>PRO</TableHead><TableHead className="text-right">ZAR/kg</TableHead><TableHead>Effective</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Action</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={6} className="text-center h-24"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+              ) : tariffs && tariffs.length > 0 ? tariffs.map(t => {
+                const status = eprTariffStatus(t, tariffs, now);
+                return (
+                  <TableRow key={t.id} className={status.label === 'Active' || status.label === 'Scheduled' ? undefined : 'opacity-60'}>
+                    <TableCell className="text-sm">{t.epr_stream}</TableCell>
+                    <TableCell className="text-sm">{t.pro ?? <span className="text-muted-foreground">All</span>}</TableCell>
+                    <TableCell className="text-right font-mono">{t.rate_per_kg.toFixed(2)}</TableCell>
+                    <TableCell className="text-xs">
+                      <div>{format(t.effective_from, 'yyyy-MM-dd HH:mm')}{t.effective_to !== undefined && ` → ${format(t.effective_to, 'yyyy-MM-dd HH:mm')}`}</div>
+                      <div className="text-muted-foreground">by {t.created_by_username}</div>
+                    </TableCell>
+                    <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" disabled={status.label === 'Ended' || (endMutation.isPending && endMutation.variables === t.id)} onClick={() => { if (window.confirm('End this tariff now? It stays in the history.')) endMutation.mutate(t.id); }}>End</Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow><TableCell colSpan={6} className="text-center h-24 text-muted-foreground">No tariffs defined.</TableCell></TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+export const EprReportingTab = memo(() => {
+  const canExport = usePermission('epr:export');
+  const canConfigure = usePermission('epr:configure');
+  const { data: report } = useQuery({ queryKey: ['epr-report'], queryFn: () => api<EPRReport>('/api/epr-report') });
+  const streamData = useMemo(() => {
+    if (!report || !report.streams) return [];
+    return EPR_STREAMS.map(s => ({ name: s, weight: report.streams[s]?.weight || 0, fees: report.streams[s]?.fees || 0 })).filter(s => s.weight > 0);
+  }, [report]);
+  const handleDownloadAudit = () => {
+    if (!report) return;
+    const timestamp = new Date().toISOString();
+    const streamsXml = streamData.map(s => `
+    <Stream name="${s.name}">
+      <WeightKg>${s.weight.toFixed(2)}</WeightKg>
+      <FeesZar>${s.fees.toFixed(2)}</FeesZar>
+    </Stream>`).join('');
+    const xmlString = `<?xml version="1.0" encoding="UTF-8"?>
+<EPRComplianceReport generated="${timestamp}">
+  <CompliancePercentage>${report.compliance_pct.toFixed(2)}</CompliancePercentage>
+  <TotalFeesZAR>${report.total_fees.toFixed(2)}</TotalFeesZAR>
+  <Streams>${streamsXml}
+  </Streams>
+  <AuditHash>${crypto.randomUUID()}</AuditHash>
+</EPRComplianceReport>`;
+    const blob = new Blob([xmlString], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `epr_compliance_report_${new Date().getTime()}.xml`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast.success("EPR Compliance Audit exported successfully");
+  };
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1 bg-card/80 border-border">
+          <CardHeader><CardTitle>Compliance Metrics</CardTitle></CardHeader>
+          <CardContent className="space-y-8 py-6">
+            <div className="text-center p-6 bg-primary/5 rounded-2xl border border-primary/10">
+              <div className="text-5xl font-bold text-primary">{report?.compliance_pct?.toFixed(1) ?? '0.0'}%</div>
+              <p className="text-sm font-medium text-muted-foreground mt-2">Overall Compliance</p>
+            </div>
+            <div className="text-center p-6 bg-accent/5 rounded-2xl border border-accent/10">
+              <div className="text-4xl font-bold">R {report?.total_fees?.toFixed(2) ?? '0.00'}</div>
+              <p className="text-sm font-medium text-muted-foreground mt-2">Total Accrued EPR Fees</p>
+            </div>
+            <Button className="w-full h-14 text-lg font-semibold shadow-glow shadow-primary/20" onClick={handleDownloadAudit} disabled={!canExport}>
+              <Download className="mr-2 h-5 w-5" /> Download PRO XML Audit
+            </Button>
+          </CardContent>
+        </Card>
+        <Card className="lg:col-span-2 bg-card/80 border-border">
+          <CardHeader><CardTitle>EPR Stream Weight Distribution</CardTitle></CardHeader>
+          <CardContent className="h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={streamData} dataKey="weight" nameKey="name" cx="50%" cy="50%" outerRadius={120} labelLine={true} label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}>
+                  {streamData.map((_, i) => <Cell key={i} fill={COLORS[i % COLORS.length]} />)}
+                </Pie>
+                <Tooltip formatter={(value: number) => [`${value.toFixed(2)} kg`, 'Weight']} />
+                <Legend verticalAlign="bottom" height={36}/>
+              </PieChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+      {canConfigure && <EprTariffsCard />}
+    </div>
+  );
+});
@@ -0,0 +1,142 @@
+import { useState, memo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { Material, MaterialInput } from '@shared/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Plus, Boxes, Pencil } from 'lucide-react';
+import { EPR_STREAMS } from '@shared/types';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+const EMPTY_MATERIAL: MaterialInput = { code: '', name: '', grade: '', epr_stream: 'Other', is_weee: false, default_unit: 'kg', active: true };
+const MaterialDialog = memo(({ target, onClose }: { target: Material | 'new' | null; onClose: () => void }) => {
+  const queryClient = useQueryClient();
+  const editing = target && target !== 'new' ? target : null;
+  const [edits, setEdits] = useState<Partial<MaterialInput>>({});
+  const draft: MaterialInput = { ...EMPTY_MATERIAL, ...(editing ?? {}), ...edits };
+  const close = () => {
+    setEdits({});
+    onClose();
+  };
+  const mutation = useMutation({
+    mutationFn: (body: MaterialInput) => editing
+      ? api<Material>(`/api/materials/${editing.id}`, { method: 'PUT', body: JSON.stringify(body) })
+      : api<Material>('/api/materials', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: (m) => {
+      toast.success(`${m.code} ${editing ? 'updated' : 'added to the catalogue'}`);
+      queryClient.invalidateQueries({ queryKey: ['materials'] });
+      close();
+    },
+    onError: (e) => toast.error('Could not save material', { description: e.message }),
+  });
+  const set = <K extends keyof MaterialInput>(key: K, value: MaterialInput[K]) => setEdits(d => ({ ...d, [key]: value }));
+  return (
+    <Dialog open={!!target} onOpenChange={open => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{editing ? `Edit ${editing.code}` : 'New Material'}</DialogTitle>
+          <DialogDescription>The EPR stream set here drives every stream report; existing ledger entries keep the label they were captured with.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="material-code">Code</Label>
+            <Input id="material-code" maxLength={12} value={draft.code} onChange={e => set('code', e.target.value.toUpperCase())} className="h-12 font-mono" />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="material-name">Name</Label>
+            <Input id="material-name" value={draft.name} onChange={e => set('name', e.target.value)} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="material-grade">Grade</Label>
+            <Input id="material-grade" placeholder="Optional" value={draft.grade ?? ''} onChange={e => set('grade', e.target.value)} className="h-12" />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label>EPR Stream</Label>
+            <Select value={draft.epr_stream} onValueChange={v => set('epr_stream', v as MaterialInput['epr_stream'])}>
+              <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+              <SelectContent>{EPR_STREAMS.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Unit</Label>
+            <Select value={draft.default_unit} onValueChange={v => set('default_unit', v as MaterialInput['default_unit'])}>
+              <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="kg">kg</SelectItem>
+                <SelectItem value="unit">unit</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="col-span-2 flex items-center gap-3 self-end pb-3 text-sm">
+            <Switch checked={draft.is_weee} onCheckedChange={v => set('is_weee', v)} /> WEEE material
+          </label>
+          <div className="col-span-3 space-y-2">
+            <Label htmlFor="material-pro">PRO</Label>
+            <Input id="material-pro" placeholder="Stream default" value={draft.pro ?? ''} onChange={e => set('pro', e.target.value)} className="h-12" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button disabled={!draft.code.trim() || !draft.name.trim() || mutation.isPending} onClick={() => mutation.mutate({ code: draft.code, name: draft.name, grade: draft.grade, epr_stream: draft.epr_stream, pro: draft.pro ?? '', is_weee: draft.is_weee, default_unit: draft.default_unit, active: draft.active })}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+export const MaterialsTab = memo(() => {
+  const queryClient = useQueryClient();
+  const [editTarget, setEditTarget] = useState<Material | 'new' | null>(null);
+  const { data: materials, isLoading } = useQuery({ queryKey: ['materials'], queryFn: () => api<Material[]>('/api/materials') });
+  const activeMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => api<Material>(`/api/materials/${id}`, { method: 'PUT', body: JSON.stringify({ active }) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['materials'] }),
+    onError: (e) => toast.error('Update failed', { description: e.message }),
+  });
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2"><Boxes className="h-5 w-5" /> Material Catalogue</CardTitle>
+          <p className="text-sm text-muted-foreground">Materials offered at the POS. Inactive materials are hidden from capture but stay on historical entries.</p>
+        </div>
+        <Button variant="outline" onClick={() => setEditTarget('new')}><Plus className="mr-2 h-4 w-4" /> New Material</Button>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader><TableRow><TableHead>Code</TableHead><TableHead>Material</TableHead><TableHead>EPR Stream</TableHead><TableHead>Unit</TableHead><TableHead>Active</TableHead><TableHead className="text-right">Action</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={6} className="text-center h-24"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+              ) : materials?.map(m => (
+                <TableRow key={m.id} className={m.active ? undefined : 'opacity-60'}>
+                  <TableCell className="font-mono">{m.code}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{m.name}</div>
+                    {m.grade && <div className="text-xs text-muted-foreground">{m.grade}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm">{m.epr_stream}</span>
+                    {m.is_weee && <Badge variant="outline" className="ml-2 text-[10px]">WEEE</Badge>}
+                  </TableCell>
+                  <TableCell className="text-sm">{m.default_unit}</TableCell>
+                  <TableCell><Switch checked={m.active} disabled={activeMutation.isPending} onCheckedChange={active => activeMutation.mutate({ id: m.id, active })} /></TableCell>
+                  <TableCell className="text-right"><Button variant="ghost" size="icon" aria-label={`Edit ${m.code}`} onClick={() => setEditTarget(m)}><Pencil className="h-4 w-4" /></Button></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+      <MaterialDialog target={editTarget} onClose={() => setEditTarget(null)} />
+    </Card>
+  );
+});
@@ -0,0 +1,222 @@
+import { useState, memo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { Material, PriceRule, CreatePriceRuleRequest, PriceOverride, Supplier, SupplierTier } from '@shared/types';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Plus, Tags, History } from 'lucide-react';
+import { SUPPLIER_TIERS } from '@shared/types';
+import { materialLabel } from '@shared/materials';
+import { isRuleEffective, priceRuleScope } from '@shared/pricing';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+type PriceScopeChoice = 'base' | `tier:${SupplierTier}` | `supplier:${string}`;
+const NewPriceRuleDialog = memo(({ materials, suppliers }: { materials: Material[]; suppliers: Supplier[] }) => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [materialId, setMaterialId] = useState('');
+  const [scope, setScope] = useState<PriceScopeChoice>('base');
+  const [price, setPrice] = useState('');
+  const [minKg, setMinKg] = useState('');
+  const [maxKg, setMaxKg] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const reset = () => {
+    setMaterialId('');
+    setScope('base');
+    setPrice('');
+    setMinKg('');
+    setMaxKg('');
+    setEffectiveFrom('');
+  };
+  const mutation = useMutation({
+    mutationFn: (body: CreatePriceRuleRequest) => api<PriceRule>('/api/price-rules', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: (rule) => {
+      toast.success('Price saved', { description: rule.effective_from > Date.now() ? `Takes effect ${format(rule.effective_from, 'PPp')}` : 'Effective immediately' });
+      queryClient.invalidateQueries({ queryKey: ['price-rules'] });
+      reset();
+      setOpen(false);
+    },
+    onError: (e) => toast.error('Could not save price', { description: e.message }),
+  });
+  const submit = () => {
+    const [kind, value] = scope.split(':') as ['base' | 'tier' | 'supplier', string | undefined];
+    mutation.mutate({
+      material_id: materialId,
+      price_per_kg: Number(price),
+      tier: kind === 'tier' ? value as SupplierTier : undefined,
+      supplier_id: kind === 'supplier' ? value : undefined,
+      min_kg: minKg ? Number(minKg) : undefined,
+      max_kg: maxKg ? Number(maxKg) : undefined,
+      effective_from: effectiveFrom ? new Date(effectiveFrom).getTime() : Date.now(),
+    });
+  };
+  return (
+    <Dialog open={open} onOpenChange={next => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild><Button variant="outline"><Plus className="mr-2 h-4 w-4" /> New Price</Button></DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Price</DialogTitle>
+          <DialogDescription>Prices are never edited. A new price for the same material and scope supersedes the old one from its effective date.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2 space-y-2">
+            <Label>Material</Label>
+            <Select value={materialId} onValueChange={setMaterialId}>
+              <SelectTrigger className="h-12"><SelectValue placeholder="Select material" /></SelectTrigger>
+              <SelectContent>{materials.filter(m => m.active).map(m => <SelectItem key={m.id} value={m.id}>{m.code} · {materialLabel(m)}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label>Applies to</Label>
+            <Select value={scope} onValueChange={v => setScope(v as PriceScopeChoice)}>
+              <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="base">All suppliers (list price)</SelectItem>
+                {SUPPLIER_TIERS.map(t => <SelectItem key={t} value={`tier:${t}`} className="capitalize">{t} tier</SelectItem>)}
+                {suppliers.map(s => <SelectItem key={s.id} value={`supplier:${s.id}`}>Supplier: {s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price-per-kg">Price (ZAR/kg)</Label>
+            <Input id="price-per-kg" type="number" step="0.01" min={0} value={price} onChange={e => setPrice(e.target.value)} className="h-12 font-mono" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price-from">Effective from</Label>
+            <Input id="price-from" type="datetime-local" value={effectiveFrom} onChange={e => setEffectiveFrom(e.target.value)} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price-min">Min weight (kg)</Label>
+            <Input id="price-min" type="number" min={0} placeholder="0" value={minKg} onChange={e => setMinKg(e.target.value)} className="h-12 font-mono" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price-max">Max weight (kg)</Label>
+            <Input id="price-max" type="number" min={0} placeholder="No limit" value={maxKg} onChange={e => setMaxKg(e.target.value)} className="h-12 font-mono" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button disabled={!materialId || price === '' || Number(price) < 0 || mutation.isPending} onClick={submit}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Price
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+const priceRuleStatus = (rule: PriceRule, rules: PriceRule[], now: number): { label: string; variant: 'secondary' | 'outline' | 'destructive' | 'default' } => {
+  if (rule.effective_to !== undefined && rule.effective_to <= now) return { label: 'Ended', variant: 'outline' };
+  if (rule.effective_from > now) return { label: 'Scheduled', variant: 'default' };
+  // A later rule for the same material, scope and band that is already in force takes over.
+  const superseded = rules.some(r => r.id !== rule.id && r.material_id === rule.material_id && r.tier === rule.tier && r.supplier_id === rule.supplier_id
+    && r.min_kg === rule.min_kg && r.max_kg === rule.max_kg && r.effective_from > rule.effective_from && isRuleEffective(r, now));
+  return superseded ? { label: 'Superseded', variant: 'outline' } : { label: 'Active', variant: 'secondary' };
+};
+export const PricingTab = memo(() => {
+  const queryClient = useQueryClient();
+  const [materialFilter, setMaterialFilter] = useState('all');
+  const { data: rules, isLoading } = useQuery({ queryKey: ['price-rules'], queryFn: () => api<PriceRule[]>('/api/price-rules') });
+  const { data: materials } = useQuery({ queryKey: ['materials'], queryFn: () => api<Material[]>('/api/materials') });
+  const { data: suppliers } = useQuery({ queryKey: ['suppliers'], queryFn: () => api<Supplier[]>('/api/suppliers') });
+  const { data: overrides } = useQuery({ queryKey: ['price-overrides'], queryFn: () => api<PriceOverride[]>('/api/pricing/overrides') });
+  const endMutation = useMutation({
+    mutationFn: (id: string) => api<PriceRule>(`/api/price-rules/${id}/end`, { method: 'POST' }),
+    onSuccess: () => {
+      toast.success('Price ended');
+      queryClient.invalidateQueries({ queryKey: ['price-rules'] });
+    },
+    onError: (e) => toast.error('Could not end price', { description: e.message }),
+  });
+  const materialName = (id: string) => { const m = materials?.find(x => x.id === id); return m ? `${m.code} · ${materialLabel(m)}` : id; };
+  const supplierName = (id: string) => suppliers?.find(s => s.id === id)?.name ?? 'Unknown supplier';
+  const now = Date.now();
+  const visible = (rules ?? []).filter(r => materialFilter === 'all' || r.material_id === materialFilter);
+  return (
+    <div className="space-y-6">
+      <Card className="bg-card/80 border-border backdrop-blur-xl">
+        <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2"><Tags className="h-5 w-5" /> Price Lists</CardTitle>
+            <p className="text-sm text-muted-foreground">The POS prices each line from the most specific price in force: supplier, then tier, then list price.</p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={materialFilter} onValueChange={setMaterialFilter}>
+              <SelectTrigger className="h-10 w-56"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All materials</SelectItem>
+                {materials?.map(m => <SelectItem key={m.id} value={m.id}>{m.code} · {materialLabel(m)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <NewPriceRuleDialog materials={materials ?? []} suppliers={suppliers ?? []} />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader><TableRow><TableHead>Material</TableHead><TableHead>Applies to</TableHead><TableHead>Weight band</TableHead><TableHead className="text-right">ZAR/kg</TableHead><TableHead>Effective</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Action</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow><TableCell colSpan={7} className="text-center h-24"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+                ) : visible.length > 0 ? visible.map(r => {
+                  const status = priceRuleStatus(r, rules ?? [], now);
+                  const scope = priceRuleScope(r);
+                  return (
+                    <TableRow key={r.id} className={status.label === 'Active' || status.label === 'Scheduled' ? undefined : 'opacity-60'}>
+                      <TableCell className="text-sm">{materialName(r.material_id)}</TableCell>
+                      <TableCell className="text-sm capitalize">{scope === 'base' ? 'All suppliers' : scope === 'tier' ? `${r.tier} tier` : supplierName(r.supplier_id!)}</TableCell>
+                      <TableCell className="font-mono text-xs">{r.min_kg === undefined && r.max_kg === undefined ? 'Any' : `${r.min_kg ?? 0} – ${r.max_kg ?? '∞'} kg`}</TableCell>
+                      <TableCell className="text-right font-mono">{r.price_per_kg.toFixed(2)}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>{format(r.effective_from, 'yyyy-MM-dd HH:mm')}{r.effective_to !== undefined && ` → ${format(r.effective_to, 'yyyy-MM-dd HH:mm')}`}</div>
+                        <div className="text-muted-foreground">by {r.created_by_username}</div>
+                      </TableCell>
+                      <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" disabled={status.label === 'Ended' || (endMutation.isPending && endMutation.variables === r.id)} onClick={() => { if (window.confirm('End this price now? It stays in the history.')) endMutation.mutate(r.id); }}>End</Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                }) : (
+                  <TableRow><TableCell colSpan={7} className="text-center h-24 text-muted-foreground">No prices defined.</TableCell></TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+      <Card className="bg-card/80 border-border backdrop-blur-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><History className="h-5 w-5" /> Price Overrides</CardTitle>
+          <p className="text-sm text-muted-foreground">Line amounts that were changed at the POS, with the approving manager.</p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader><TableRow><TableHead>When</TableHead><TableHead>Material</TableHead><TableHead>Supplier</TableHead><TableHead className="text-right">List</TableHead><TableHead className="text-right">Paid</TableHead><TableHead>Reason</TableHead><TableHead>Approved by</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {overrides && overrides.length > 0 ? overrides.slice(0, 50).map(o => (
+                  <TableRow key={o.id}>
+                    <TableCell className="text-xs">{format(o.created_at, 'yyyy-MM-dd HH:mm')}</TableCell>
+                    <TableCell className="text-sm">{materialName(o.material_id)}</TableCell>
+                    <TableCell className="text-sm">{supplierName(o.supplier_id)}</TableCell>
+                    <TableCell className="text-right font-mono">{o.computed_amount.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{o.override_amount.toFixed(2)}</TableCell>
+                    <TableCell className="max-w-xs truncate text-sm" title={o.reason}>{o.reason}</TableCell>
+                    <TableCell className="text-sm">{o.approved_by_username}</TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow><TableCell colSpan={7} className="text-center h-24 text-muted-foreground">No overrides recorded.</TableCell></TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+});
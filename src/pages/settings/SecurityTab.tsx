@@ -0,0 +1,184 @@
+import { useState, memo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { PublicUser, SecurityPolicy, SessionInfo, UserRole } from '@shared/types';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldAlert, Loader2, LogOut, Timer, MonitorSmartphone, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { ROLES } from './constants';
+import { ApiKeysCard } from './ApiKeysCard';
+const SessionPolicyCard = memo(() => {
+  const queryClient = useQueryClient();
+  const { data: policy } = useQuery({ queryKey: ['security-policy'], queryFn: () => api<SecurityPolicy>('/api/admin/security-policy') });
+  const [draft, setDraft] = useState<{ idle?: string; absolute?: string }>({});
+  const mutation = useMutation({
+    mutationFn: (body: Pick<SecurityPolicy, 'session_idle_timeout_min' | 'session_absolute_timeout_hours'>) => api<SecurityPolicy>('/api/admin/security-policy', {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    }),
+    onSuccess: () => {
+      toast.success('Session policy updated');
+      setDraft({});
+      queryClient.invalidateQueries({ queryKey: ['security-policy'] });
+    },
+    onError: (e) => toast.error('Policy update failed', { description: e.message }),
+  });
+  const idle = draft.idle ?? String(policy?.session_idle_timeout_min ?? '');
+  const absolute = draft.absolute ?? String(policy?.session_absolute_timeout_hours ?? '');
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Timer className="h-5 w-5" /> Session Timeouts</CardTitle>
+        <p className="text-sm text-muted-foreground">Sessions end after the idle window without activity, or at the absolute limit regardless of activity.</p>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="idle-timeout">Idle Timeout (minutes)</Label>
+          <Input id="idle-timeout" type="number" min={1} value={idle} onChange={e => setDraft(d => ({ ...d, idle: e.target.value }))} className="h-12" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="absolute-timeout">Absolute Lifetime (hours)</Label>
+          <Input id="absolute-timeout" type="number" min={1} value={absolute} onChange={e => setDraft(d => ({ ...d, absolute: e.target.value }))} className="h-12" />
+        </div>
+        <Button className="h-12" disabled={(draft.idle === undefined && draft.absolute === undefined) || mutation.isPending} onClick={() => mutation.mutate({ session_idle_timeout_min: Number(idle), session_absolute_timeout_hours: Number(absolute) })}>
+          {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Policy
+        </Button>
+      </CardContent>
+    </Card>
+  );
+});
+const TwoFactorPolicyCard = memo(() => {
+  const queryClient = useQueryClient();
+  const { data: policy } = useQuery({ queryKey: ['security-policy'], queryFn: () => api<SecurityPolicy>('/api/admin/security-policy') });
+  const mutation = useMutation({
+    mutationFn: (roles: UserRole[]) => api<SecurityPolicy>('/api/admin/security-policy', {
+      method: 'PUT',
+      body: JSON.stringify({ session_idle_timeout_min: policy?.session_idle_timeout_min, session_absolute_timeout_hours: policy?.session_absolute_timeout_hours, totp_required_roles: roles }),
+    }),
+    onSuccess: () => {
+      toast.success('Two-factor policy updated');
+      queryClient.invalidateQueries({ queryKey: ['security-policy'] });
+    },
+    onError: (e) => toast.error('Policy update failed', { description: e.message }),
+  });
+  const required = policy?.totp_required_roles ?? [];
+  const toggle = (role: UserRole, on: boolean) => mutation.mutate(on ? [...required, role] : required.filter(r => r !== role));
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" /> Two-Factor Requirement</CardTitle>
+        <p className="text-sm text-muted-foreground">Users in these roles must enrol an authenticator app before they can use the system. PIN login is disabled for them.</p>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {ROLES.map(role => (
+          <div key={role} className="flex items-center justify-between rounded-lg border border-border p-4">
+            <Label htmlFor={`totp-role-${role}`} className="capitalize">{role}</Label>
+            <Switch id={`totp-role-${role}`} checked={required.includes(role)} disabled={!policy || mutation.isPending} onCheckedChange={v => toggle(role, v)} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+});
+const ActiveSessionsCard = memo(() => {
+  const queryClient = useQueryClient();
+  const [userFilter, setUserFilter] = useState('all');
+  const { data: users } = useQuery({
+    queryKey: ['config-users'],
+    queryFn: () => api<PublicUser[]>('/api/config/users'),
+  });
+  const { data: sessions, isLoading } = useQuery({
+    queryKey: ['admin-sessions', userFilter],
+    queryFn: () => api<SessionInfo[]>(userFilter === 'all' ? '/api/admin/sessions' : `/api/admin/sessions?userId=${encodeURIComponent(userFilter)}`),
+  });
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => api<{ id: string; revoked: boolean }>(`/api/admin/sessions/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      toast.success('Session revoked');
+      queryClient.invalidateQueries({ queryKey: ['admin-sessions'] });
+    },
+    onError: (e) => toast.error('Revoke failed', { description: e.message }),
+  });
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2"><MonitorSmartphone className="h-5 w-5" /> Active Sessions</CardTitle>
+          <p className="text-sm text-muted-foreground">Revoke individual devices without logging everyone out.</p>
+        </div>
+        <Select value={userFilter} onValueChange={setUserFilter}>
+          <SelectTrigger className="w-full md:w-48 h-12"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Users</SelectItem>
+            {users?.map(u => <SelectItem key={u.id} value={u.id}>{u.username}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader><TableRow><TableHead>User</TableHead><TableHead>Device</TableHead><TableHead>IP</TableHead><TableHead>Started</TableHead><TableHead>Last Active</TableHead><TableHead className="text-right">Action</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={6} className="text-center h-24"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+              ) : sessions && sessions.length > 0 ? sessions.map(s => (
+                <TableRow key={s.id}>
+                  <TableCell className="font-medium">{s.username || s.userId}{s.current && <span className="ml-2 text-xs text-primary">(this session)</span>}</TableCell>
+                  <TableCell className="max-w-[220px] truncate text-xs text-muted-foreground" title={s.userAgent}>{s.deviceName || s.userAgent || 'Unknown'}</TableCell>
+                  <TableCell className="font-mono text-xs">{s.ip || '—'}</TableCell>
+                  <TableCell className="text-sm">{formatDistanceToNow(s.createdAt, { addSuffix: true })}</TableCell>
+                  <TableCell className="text-sm">{formatDistanceToNow(s.lastSeenAt ?? s.createdAt, { addSuffix: true })}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" className="text-destructive" disabled={s.current || (revokeMutation.isPending && revokeMutation.variables === s.id)} onClick={() => revokeMutation.mutate(s.id)}>
+                      {revokeMutation.isPending && revokeMutation.variables === s.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Revoke'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow><TableCell colSpan={6} className="text-center h-24 text-muted-foreground">No active sessions.</TableCell></TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+export const SecurityTab = memo(() => {
+  const mutation = useMutation({
+    mutationFn: () => api('/api/admin/sessions/clear', { method: 'POST' }),
+    onSuccess: (data: any) => toast.success(`Cleared ${data.cleared} active sessions. All users logged out.`),
+    onError: (e) => toast.error('Security action failed: ' + e.message),
+  });
+  return (
+    <div className="space-y-6">
+      <Card className="bg-destructive/5 border-destructive/20 border-2">
+        <CardHeader>
+          <CardTitle className="text-destructive flex items-center gap-2"><ShieldAlert className="h-6 w-6" /> Critical Security Controls</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 p-4 rounded-lg bg-card/50 border border-destructive/10">
+            <div className="space-y-1">
+              <h3 className="text-lg font-bold">Terminate All Global Sessions</h3>
+              <p className="text-sm text-muted-foreground max-w-md">Forces immediate session invalidation for every active account. Useful for emergency system audits or widespread security resets.</p>
+            </div>
+            <Button variant="destructive" size="lg" className="h-14 px-8 font-semibold shadow-lg shadow-destructive/20" onClick={() => { if(confirm("Are you absolutely sure? This will terminate all active connections to SuiteWaste OS immediately.")) mutation.mutate(); }}>
+              {mutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-5 w-5" />} Terminate All Sessions
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+      <SessionPolicyCard />
+      <TwoFactorPolicyCard />
+      <ActiveSessionsCard />
+      <ApiKeysCard />
+    </div>
+  );
+});
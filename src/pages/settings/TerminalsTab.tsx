@@ -0,0 +1,193 @@
+import { useState, memo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { Device, UpdateDeviceRequest } from '@shared/types';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Check, Pencil, Tablet } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { usePermission } from '@/hooks/usePermission';
+import { useDeviceStore } from '@/stores/useDeviceStore';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+// A terminal that has not checked in for this long is probably stuck offline.
+const DEVICE_QUIET_AFTER_MS = 24 * 60 * 60 * 1000;
+const deviceStatus = (device: Device): { label: string; variant: 'secondary' | 'destructive' | 'outline' | 'default' } => {
+  if (device.status === 'pending') return { label: 'Awaiting approval', variant: 'default' };
+  if (device.status === 'revoked') return { label: 'Revoked', variant: 'destructive' };
+  return { label: 'Approved', variant: 'secondary' };
+};
+export const ThisTerminalCard = memo(() => {
+  const device = useDeviceStore(s => s.device);
+  const register = useDeviceStore(s => s.register);
+  const refresh = useDeviceStore(s => s.refresh);
+  const [name, setName] = useState('');
+  const mutation = useMutation({
+    mutationFn: (terminalName: string) => register(terminalName),
+    onSuccess: (d) => {
+      toast.success(`${d.name} registered`, { description: 'An admin has to approve it before captures carry its id.' });
+      setName('');
+    },
+    onError: (e) => toast.error('Registration failed', { description: e.message }),
+  });
+  const status = device ? deviceStatus(device) : null;
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Tablet className="h-5 w-5" /> This Terminal</CardTitle>
+        <p className="text-sm text-muted-foreground">Register this tablet or PC once. After approval every weight captured here records which terminal and scale it came from.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {device && device.status !== 'revoked' ? (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium">{device.name}</div>
+                <div className="font-mono text-xs text-muted-foreground">{device.id}</div>
+              </div>
+              {status && <Badge variant={status.variant}>{status.label}</Badge>}
+            </div>
+            {device.status === 'approved' && <p className="text-sm text-muted-foreground">Scale: {device.scale_id ?? 'not assigned'}</p>}
+            {device.status === 'pending' && <Button variant="outline" className="w-full h-12" onClick={() => refresh()}>Check Approval</Button>}
+          </>
+        ) : (
+          <>
+            {device && <p className="text-sm text-destructive">{device.name} was revoked. Register this terminal again to resume stamping captures.</p>}
+            <div className="space-y-2">
+              <Label htmlFor="terminal-name">Terminal Name</Label>
+              <Input id="terminal-name" maxLength={64} placeholder="e.g. Weighbridge 1" value={name} onChange={e => setName(e.target.value)} className="h-12" />
+            </div>
+            <Button className="w-full h-12" disabled={!name.trim() || mutation.isPending} onClick={() => mutation.mutate(name.trim())}>
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Register Terminal
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+const DeviceDialog = memo(({ target, onClose }: { target: Device | null; onClose: () => void }) => {
+  const queryClient = useQueryClient();
+  const [edits, setEdits] = useState<UpdateDeviceRequest>({});
+  const draft = { name: target?.name ?? '', scale_id: target?.scale_id ?? '', ...edits };
+  const close = () => {
+    setEdits({});
+    onClose();
+  };
+  const mutation = useMutation({
+    mutationFn: (body: UpdateDeviceRequest) => api<Device>(`/api/devices/${target!.id}`, { method: 'PUT', body: JSON.stringify(body) }),
+    onSuccess: (d) => {
+      toast.success(`${d.name} updated`);
+      queryClient.invalidateQueries({ queryKey: ['devices'] });
+      close();
+    },
+    onError: (e) => toast.error('Could not save terminal', { description: e.message }),
+  });
+  return (
+    <Dialog open={!!target} onOpenChange={open => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit {target?.name}</DialogTitle>
+          <DialogDescription>The scale id is stamped on captures from now on; entries already recorded keep the one they were captured with.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="device-name">Name</Label>
+            <Input id="device-name" maxLength={64} value={draft.name} onChange={e => setEdits(d => ({ ...d, name: e.target.value }))} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="device-scale">Scale Id</Label>
+            <Input id="device-scale" maxLength={64} placeholder="Asset tag of the attached scale" value={draft.scale_id} onChange={e => setEdits(d => ({ ...d, scale_id: e.target.value }))} className="h-12 font-mono" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button disabled={!draft.name.trim() || mutation.isPending} onClick={() => mutation.mutate({ name: draft.name.trim(), scale_id: draft.scale_id.trim() })}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+export const TerminalsTab = memo(() => {
+  const queryClient = useQueryClient();
+  const canManage = usePermission('devices:manage');
+  const [editTarget, setEditTarget] = useState<Device | null>(null);
+  const { data: devices, isLoading } = useQuery({ queryKey: ['devices'], queryFn: () => api<Device[]>('/api/devices'), refetchInterval: 60000 });
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'approve' | 'revoke' }) => api<Device>(`/api/devices/${id}/${action}`, { method: 'POST' }),
+    onSuccess: (d) => {
+      toast.success(`${d.name} ${d.status}`);
+      queryClient.invalidateQueries({ queryKey: ['devices'] });
+    },
+    onError: (e) => toast.error('Update failed', { description: e.message }),
+  });
+  const now = Date.now();
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Tablet className="h-5 w-5" /> Terminals</CardTitle>
+        <p className="text-sm text-muted-foreground">Terminals check in when they refresh reference data and when they flush their offline queue. One that has been quiet for a day or more is highlighted; its backlog is what it still held at its last sync.</p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader><TableRow><TableHead>Terminal</TableHead><TableHead>Status</TableHead><TableHead>Scale</TableHead><TableHead>Last Seen</TableHead><TableHead>Last Sync</TableHead><TableHead className="text-right">Backlog</TableHead>{canManage && <TableHead className="text-right">Action</TableHead>}</TableRow></TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={7} className="text-center h-24"><Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" /></TableCell></TableRow>
+              ) : devices && devices.length > 0 ? devices.map(d => {
+                const status = deviceStatus(d);
+                const quiet = d.status === 'approved' && now - (d.last_seen_at ?? d.reviewed_at ?? d.registered_at) > DEVICE_QUIET_AFTER_MS;
+                const backlog = d.backlog ? d.backlog.pending_ledger + d.backlog.pending_transactions : 0;
+                return (
+                  <TableRow key={d.id} className={d.status === 'revoked' ? 'opacity-60' : undefined}>
+                    <TableCell>
+                      <div className="font-medium">{d.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground" title={d.user_agent}>{d.id}</div>
+                    </TableCell>
+                    <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                    <TableCell className="font-mono text-sm">{d.scale_id ?? '—'}</TableCell>
+                    <TableCell className={cn('text-sm', quiet && 'text-destructive font-medium')}>{d.last_seen_at ? formatDistanceToNow(d.last_seen_at, { addSuffix: true }) : 'Never'}</TableCell>
+                    <TableCell className="text-sm">{d.last_sync_at ? formatDistanceToNow(d.last_sync_at, { addSuffix: true }) : 'Never'}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {d.backlog ? (
+                        <span className={cn('font-mono', (backlog > 0 || d.backlog.rejected > 0) && 'text-destructive')} title={`${d.backlog.pending_ledger} ledger, ${d.backlog.pending_transactions} transactions pending; ${d.backlog.rejected} rejected`}>
+                          {backlog}{d.backlog.rejected > 0 && ` + ${d.backlog.rejected} rejected`}
+                        </span>
+                      ) : '—'}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        {d.status !== 'approved' && (
+                          <Button variant="outline" size="sm" disabled={reviewMutation.isPending} onClick={() => reviewMutation.mutate({ id: d.id, action: 'approve' })}>
+                            <Check className="mr-1 h-4 w-4" /> Approve
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" aria-label={`Edit ${d.name}`} onClick={() => setEditTarget(d)}><Pencil className="h-4 w-4" /></Button>
+                        {d.status !== 'revoked' && (
+                          <Button variant="outline" size="sm" className="text-destructive" disabled={reviewMutation.isPending} onClick={() => { if (window.confirm(`Revoke "${d.name}"? Its captures stop carrying a terminal id until it registers again.`)) reviewMutation.mutate({ id: d.id, action: 'revoke' }); }}>
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              }) : (
+                <TableRow><TableCell colSpan={7} className="text-center h-24 text-muted-foreground">No terminals registered. Register one from Settings → My Account on the terminal itself.</TableCell></TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+      <DeviceDialog key={editTarget?.id ?? 'none'} target={editTarget} onClose={() => setEditTarget(null)} />
+    </Card>
+  );
+});
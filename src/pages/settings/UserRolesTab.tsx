@@ -0,0 +1,310 @@
+import { useState, memo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import type { PublicUser, ConfigUserUpdate, CreateUserRequest } from '@shared/types';
+import { useForm } from 'react-hook-form';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, KeyRound, Grid3x3, Lock, UserPlus, Trash2, Check, ShieldCheck } from 'lucide-react';
+import { PinPad } from '@/components/PinPad';
+import { PIN_LENGTH } from '@shared/types';
+import { Badge } from '@/components/ui/badge';
+import { ALL_PERMISSIONS, PERMISSIONS, ROLE_PERMISSIONS, FEATURE_PERMISSIONS } from '@shared/permissions';
+import { toast } from 'sonner';
+import { MIN_PASSWORD_LENGTH, ROLES } from './constants';
+const ResetPasswordDialog = memo(({ target, onClose }: { target: PublicUser | null; onClose: () => void }) => {
+  const [newPassword, setNewPassword] = useState('');
+  const mutation = useMutation({
+    mutationFn: (vars: { id: string; newPassword: string }) => api(`/api/config/users/${vars.id}/reset-password`, {
+      method: 'POST',
+      body: JSON.stringify({ newPassword: vars.newPassword }),
+    }),
+    onSuccess: () => {
+      toast.success(`Password reset for ${target?.username}`, { description: 'They will be asked to choose a new password.' });
+      setNewPassword('');
+      onClose();
+    },
+    onError: (e) => toast.error('Reset failed', { description: e.message }),
+  });
+  return (
+    <Dialog open={!!target} onOpenChange={open => { if (!open) { setNewPassword(''); onClose(); } }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reset Password</DialogTitle>
+          <DialogDescription>Set a temporary password for {target?.username}. It must be changed on next login.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="reset-password">Temporary Password</Label>
+          <Input id="reset-password" type="password" value={newPassword} onChange={e => setNewPassword(e.target.value)} className="h-12" />
+        </div>
+        <DialogFooter>
+          <Button className="h-12" disabled={!target || newPassword.length < MIN_PASSWORD_LENGTH || mutation.isPending} onClick={() => target && mutation.mutate({ id: target.id, newPassword })}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Reset Password
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+const AddUserDialog = memo(() => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [role, setRole] = useState<CreateUserRequest['role']>('operator');
+  const { register, handleSubmit, reset } = useForm<Omit<CreateUserRequest, 'role'>>();
+  const mutation = useMutation({
+    mutationFn: (body: CreateUserRequest) => api<PublicUser>('/api/config/users/create', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    onSuccess: (created) => {
+      toast.success(`User ${created.username} created`, { description: 'They must change the temporary password on first login.' });
+      reset();
+      setRole('operator');
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['config-users'] });
+    },
+    onError: (e) => toast.error('Could not create user', { description: e.message }),
+  });
+  const onSubmit = (data: Omit<CreateUserRequest, 'role'>) => {
+    if (data.password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    mutation.mutate({ ...data, role });
+  };
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild><Button variant="outline"><UserPlus className="mr-2 h-4 w-4" /> Add User</Button></DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add User</DialogTitle>
+          <DialogDescription>Create an account with a temporary password.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-username">Username</Label>
+            <Input id="new-username" placeholder="e.g., operator2" required {...register('username')} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-email">Email (optional)</Label>
+            <Input id="new-email" type="email" placeholder="name@company.co.za" {...register('email')} className="h-12" />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={v => setRole(v as CreateUserRequest['role'])}>
+              <SelectTrigger className="h-12"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="operator">Operator</SelectItem>
+                <SelectItem value="manager">Manager</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+                <SelectItem value="auditor">Auditor</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-user-password">Temporary Password</Label>
+            <Input id="new-user-password" type="password" required {...register('password')} className="h-12" />
+          </div>
+          <Button type="submit" className="w-full h-12" disabled={mutation.isPending}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Create User
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+export const UserRolesTable = memo(() => {
+  const queryClient = useQueryClient();
+  const { data: users } = useQuery({
+    queryKey: ['config-users'],
+    queryFn: () => api<PublicUser[]>('/api/config/users'),
+  });
+  const [userChanges, setUserChanges] = useState<Map<string, ConfigUserUpdate>>(new Map());
+  const [resetTarget, setResetTarget] = useState<PublicUser | null>(null);
+  const [pinTarget, setPinTarget] = useState<PublicUser | null>(null);
+  const currentUserId = useAuthStore(s => s.user?.id);
+  const activeAdmins = users?.filter(u => u.role === 'admin' && u.active) ?? [];
+  const resetTotpMutation = useMutation({
+    mutationFn: (id: string) => api<PublicUser>(`/api/config/users/${id}/totp/reset`, { method: 'POST' }),
+    onSuccess: (u) => {
+      toast.success(`Two-factor authentication reset for ${u.username}`);
+      queryClient.invalidateQueries({ queryKey: ['config-users'] });
+    },
+    onError: (e) => toast.error('2FA reset failed', { description: e.message }),
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api<{ id: string; deleted: boolean }>(`/api/config/users/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      toast.success('User deleted');
+      queryClient.invalidateQueries({ queryKey: ['config-users'] });
+    },
+    onError: (e) => toast.error('Delete failed', { description: e.message }),
+  });
+  const handleDelete = (u: PublicUser) => {
+    if (window.confirm(`Delete ${u.username}? Their sessions end immediately. Ledger entries they captured are kept.`)) {
+      deleteMutation.mutate(u.id);
+    }
+  };
+  const mutation = useMutation({
+    mutationFn: (updates: ConfigUserUpdate[]) => api('/api/config/users', {
+      method: 'POST',
+      body: JSON.stringify(updates),
+    }),
+    onSuccess: () => {
+      toast.success('Configurations saved');
+      setUserChanges(new Map());
+      queryClient.invalidateQueries({ queryKey: ['config-users'] });
+    },
+    onError: (e) => toast.error(e.message),
+  });
+  const handleFieldChange = (userId: string, field: keyof ConfigUserUpdate, value: any) => {
+    const user = users?.find(u => u.id === userId);
+    if (!user) return;
+    setUserChanges(prev => {
+      const next = new Map(prev);
+      const curr = next.get(userId) || { id: userId, role: user.role, active: user.active, features: user.features || [] };
+      (curr as any)[field] = value;
+      next.set(userId, curr);
+      return next;
+    });
+  };
+  return (
+    <Card className="bg-card/80 border-border backdrop-blur-xl">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>User Permissions</CardTitle>
+          <p className="text-sm text-muted-foreground">Manage accounts, roles and feature access.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <AddUserDialog />
+          <Button onClick={() => mutation.mutate(Array.from(userChanges.values()))} disabled={userChanges.size === 0 || mutation.isPending}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Changes
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader><TableRow><TableHead>User</TableHead><TableHead>Role</TableHead><TableHead>Active</TableHead><TableHead>Features (Comma Separated)</TableHead><TableHead className="text-right">Credentials</TableHead></TableRow></TableHeader>
+            <TableBody>
+              {users?.map(u => {
+                // The UI mirrors the server guard: the last active admin can't be demoted, deactivated or deleted.
+                const isLastAdmin = activeAdmins.length === 1 && activeAdmins[0].id === u.id;
+                return (
+                  <TableRow key={u.id}>
+                    <TableCell>
+                      <div className="font-medium">{u.username}</div>
+                      {u.email && <div className="text-xs text-muted-foreground">{u.email}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={userChanges.get(u.id)?.role || u.role} onValueChange={v => handleFieldChange(u.id, 'role', v)} disabled={isLastAdmin}>
+                        <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="operator">Operator</SelectItem>
+                          <SelectItem value="manager">Manager</SelectItem>
+                          <SelectItem value="admin">Admin</SelectItem>
+                          <SelectItem value="auditor">Auditor</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell><Switch checked={userChanges.get(u.id)?.active ?? u.active} onCheckedChange={v => handleFieldChange(u.id, 'active', v)} disabled={isLastAdmin} /></TableCell>
+                    <TableCell><Input className="h-9" value={(userChanges.get(u.id)?.features || u.features || []).join(', ')} onChange={e => handleFieldChange(u.id, 'features', e.target.value.split(',').map(s => s.trim()).filter(Boolean))} /></TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {!!u.pin_locked_until && u.pin_locked_until > Date.now() && <Badge variant="destructive" className="gap-1"><Lock className="h-3 w-3" /> PIN locked</Badge>}
+                        {u.totp_enabled && (
+                          <Button variant="outline" size="sm" title="Reset two-factor authentication" disabled={resetTotpMutation.isPending} onClick={() => { if (window.confirm(`Remove two-factor authentication for ${u.username}? They will need to enrol again.`)) resetTotpMutation.mutate(u.id); }}>
+                            <ShieldCheck className="mr-2 h-4 w-4 text-primary" /> 2FA
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => setResetTarget(u)}><KeyRound className="mr-2 h-4 w-4" /> Reset</Button>
+                        {u.role === 'operator' && <Button variant="outline" size="sm" onClick={() => setPinTarget(u)}><Grid3x3 className="mr-2 h-4 w-4" /> {u.has_pin ? 'PIN' : 'Set PIN'}</Button>}
+                        <Button variant="ghost" size="icon" aria-label={`Delete ${u.username}`} className="text-muted-foreground hover:text-destructive" disabled={isLastAdmin || u.id === currentUserId || deleteMutation.isPending} onClick={() => handleDelete(u)}>
+                          {deleteMutation.isPending && deleteMutation.variables === u.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        <ResetPasswordDialog target={resetTarget} onClose={() => setResetTarget(null)} />
+        <SetPinDialog target={pinTarget} onClose={() => setPinTarget(null)} />
+      </CardContent>
+    </Card>
+  );
+});
+export const PermissionMatrixCard = memo(() => (
+  <Card className="bg-card/80 border-border backdrop-blur-xl">
+    <CardHeader>
+      <CardTitle>Permission Matrix</CardTitle>
+      <p className="text-sm text-muted-foreground">
+        Role defaults enforced by both the API and the interface. Extra access is granted through named features:{' '}
+        {Object.entries(FEATURE_PERMISSIONS).map(([f, ps]) => `${f} (${ps.join(', ')})`).join('; ')}. Nobody can change their own role or features.
+      </p>
+    </CardHeader>
+    <CardContent>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader><TableRow><TableHead>Permission</TableHead>{ROLES.map(r => <TableHead key={r} className="text-center capitalize">{r}</TableHead>)}</TableRow></TableHeader>
+          <TableBody>
+            {ALL_PERMISSIONS.map(p => (
+              <TableRow key={p}>
+                <TableCell>
+                  <div className="font-mono text-xs">{p}</div>
+                  <div className="text-xs text-muted-foreground">{PERMISSIONS[p]}</div>
+                </TableCell>
+                {ROLES.map(r => <TableCell key={r} className="text-center">{ROLE_PERMISSIONS[r].includes(p) && <Check className="h-4 w-4 text-primary inline" />}</TableCell>)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </CardContent>
+  </Card>
+));
+const SetPinDialog = memo(({ target, onClose }: { target: PublicUser | null; onClose: () => void }) => {
+  const queryClient = useQueryClient();
+  const [pin, setPin] = useState('');
+  const mutation = useMutation({
+    mutationFn: (vars: { id: string; pin: string | null }) => api<{ id: string; has_pin: boolean }>(`/api/config/users/${vars.id}/pin`, {
+      method: 'POST',
+      body: JSON.stringify({ pin: vars.pin }),
+    }),
+    onSuccess: (data) => {
+      toast.success(data.has_pin ? `PIN set for ${target?.username}` : `PIN removed for ${target?.username}`);
+      setPin('');
+      queryClient.invalidateQueries({ queryKey: ['config-users'] });
+      onClose();
+    },
+    onError: (e) => toast.error('PIN update failed', { description: e.message }),
+  });
+  return (
+    <Dialog open={!!target} onOpenChange={open => { if (!open) { setPin(''); onClose(); } }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Operator PIN</DialogTitle>
+          <DialogDescription>Set a {PIN_LENGTH}-digit quick-login PIN for {target?.username}. Saving also clears any PIN lockout.</DialogDescription>
+        </DialogHeader>
+        <PinPad value={pin} onChange={setPin} disabled={mutation.isPending} />
+        <DialogFooter className="gap-2">
+          {target?.has_pin && (
+            <Button variant="outline" className="h-12 text-destructive" disabled={mutation.isPending} onClick={() => mutation.mutate({ id: target.id, pin: null })}>Remove PIN</Button>
+          )}
+          <Button className="h-12" disabled={!target || pin.length !== PIN_LENGTH || mutation.isPending} onClick={() => target && mutation.mutate({ id: target.id, pin })}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save PIN
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
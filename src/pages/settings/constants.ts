@@ -0,0 +1,2 @@
+export const MIN_PASSWORD_LENGTH = 6;
+export const ROLES = ['operator', 'manager', 'admin', 'auditor'] as const;
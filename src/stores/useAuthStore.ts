@@ -1,13 +1,17 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { User } from '@shared/types';
+import { toast } from 'sonner';
+import type { PublicUser } from '@shared/types';
 interface AuthState {
-  user: User | null;
+  user: PublicUser | null;
   token: string | null;
   isAuthenticated: boolean;
-  login: (user: User, token: string) => void;
+  offlineFrom: PublicUser | null; // owner of `token` while another operator works under it offline
+  login: (user: PublicUser, token: string) => void;
   logout: () => void;
-  setUser: (user: User) => void;
+  setUser: (user: PublicUser) => void;
+  switchOffline: (operator: PublicUser) => void;
+  endOfflineSwitch: () => void;
 }
 export const useAuthStore = create<AuthState>()(
   persist(
@@ -15,17 +19,27 @@ export const useAuthStore = create<AuthState>()(
       user: null,
       token: null,
       isAuthenticated: false,
+      offlineFrom: null,
       login: (user, token) => {
         localStorage.setItem('token', token);
-        set({ user, token, isAuthenticated: true });
+        set({ user, token, isAuthenticated: true, offlineFrom: null });
       },
       logout: () => {
         localStorage.removeItem('token');
-        set({ user: null, token: null, isAuthenticated: false });
+        set({ user: null, token: null, isAuthenticated: false, offlineFrom: null });
         // Prevent back navigation to authenticated pages
         window.history.replaceState(null, '', '/login');
       },
       setUser: (user) => set({ user, isAuthenticated: !!user }),
+      // Captures are attributed to the operator verified offline; the session, and so the sync, stays the owner's.
+      switchOffline: (operator) => {
+        const owner = get().offlineFrom ?? get().user;
+        set({ user: operator, offlineFrom: owner && owner.id !== operator.id ? owner : null });
+      },
+      endOfflineSwitch: () => {
+        const { offlineFrom } = get();
+        if (offlineFrom) set({ user: offlineFrom, offlineFrom: null });
+      },
     }),
     {
       name: 'suitewaste-auth-storage',
@@ -35,7 +49,21 @@ export const useAuthStore = create<AuthState>()(
         if (state && state.token) {
           state.isAuthenticated = true;
         }
+        // A reload back online ends an offline operator switch, as the 'online' event would have.
+        if (state?.offlineFrom && navigator.onLine) {
+          state.user = state.offlineFrom;
+          state.offlineFrom = null;
+        }
       },
     }
   )
-);
\ No newline at end of file
+);
+if (typeof window !== 'undefined') {
+  // An offline switch has no server session behind it, so it ends when the network is back.
+  window.addEventListener('online', () => {
+    const { user, offlineFrom, endOfflineSwitch } = useAuthStore.getState();
+    if (!offlineFrom) return;
+    endOfflineSwitch();
+    toast.info(`Back online: ${user?.username} was switched back to ${offlineFrom.username}`, { description: 'Switch operator by PIN to carry on under your own sign-in.' });
+  });
+}
@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { get, set, del } from 'idb-keyval';
+import type { Device, InventoryLedgerEntry, RegisterDeviceRequest } from '@shared/types';
+import { hasPermission } from '@shared/permissions';
+import { api } from '@/lib/api-client';
+import { useAuthStore } from '@/stores/useAuthStore';
+interface DeviceState {
+  device: Device | null; // this terminal's registration, as last fetched
+  register: (name: string) => Promise<Device>;
+  refresh: () => Promise<void>;
+}
+const storage = {
+  getItem: async (name: string): Promise<string | null> => (await get(name)) || null,
+  setItem: async (name: string, value: string): Promise<void> => { await set(name, value); },
+  removeItem: async (name: string): Promise<void> => { await del(name); },
+};
+export const useDeviceStore = create<DeviceState>()(
+  persist(
+    (set, get) => ({
+      device: null,
+      register: async (name) => {
+        const device = await api<Device>('/api/devices', { method: 'POST', body: JSON.stringify({ name } satisfies RegisterDeviceRequest) });
+        set({ device });
+        return device;
+      },
+      // Picks up approval, revocation and renames. Failures keep the last known record.
+      refresh: async () => {
+        const { device } = get();
+        if (!device || !hasPermission(useAuthStore.getState().user, 'pos:capture')) return;
+        try {
+          set({ device: await api<Device>(`/api/devices/${device.id}`) });
+        } catch (error) {
+          // Deleted on the server: this terminal has to register again.
+          if ((error as { status?: number }).status === 404) set({ device: null });
+        }
+      },
+    }),
+    {
+      name: 'suitewaste-device',
+      storage: createJSONStorage(() => storage),
+      partialize: ({ device }) => ({ device }),
+    }
+  )
+);
+/** What a capture on this terminal is stamped with; nothing until an admin has approved it. */
+export const captureStamp = (): Pick<InventoryLedgerEntry, 'device_id' | 'scale_id'> => {
+  const { device } = useDeviceStore.getState();
+  return device?.status === 'approved' ? { device_id: device.id, scale_id: device.scale_id } : {};
+};
+if (typeof window !== 'undefined') {
+  useDeviceStore.persist.onFinishHydration(state => {
+    if (navigator.onLine) state.refresh();
+  });
+  window.addEventListener('online', () => useDeviceStore.getState().refresh());
+  window.addEventListener('focus', () => {
+    if (navigator.onLine) useDeviceStore.getState().refresh();
+  });
+}
@@ -3,18 +3,121 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import { get, set, del } from 'idb-keyval';
 import { v4 as uuid } from 'uuid';
 import { toast } from 'sonner';
-import type { InventoryLedgerEntry, Transaction } from '@shared/types';
+import type { InventoryLedgerEntry, StabilityEvidence, SyncEnvelope, SyncEnvelopeResponse, SyncItemKind, SyncItemResult, Transaction } from '@shared/types';
+import { withTicketTotals } from '@shared/tickets';
 import { api } from '@/lib/api-client';
+import { useDeviceStore } from '@/stores/useDeviceStore';
+// A weighed line on the ticket being built at the POS. `id` becomes the ledger entry id when the ticket is settled.
+export interface TicketLine {
+  id: string;
+  material_id?: string;
+  material_type: string;
+  weight_kg: number;
+  gross_kg?: number;
+  tare_kg?: number;
+  tare_preset_id?: string;
+  amount: number;
+  epr_fee: number;
+  price_per_kg?: number;
+  price_rule_id?: string;
+  price_override_id?: string;
+  notes?: string;
+  operator_id?: string;
+  device_id?: string;
+  scale_id?: string;
+  stability?: StabilityEvidence;
+  captured_at: number; // epoch millis
+  recorded?: boolean; // already on the ledger (completed two-pass weighing); settling only links it to the payment
+}
+export interface OpenTicket {
+  id: string; // becomes the Transaction id
+  supplier_id: string;
+  opened_at: number; // epoch millis
+  lines: TicketLine[];
+}
+// An item the server refused for good (invalid, or its id already holds different data). Kept so it is
+// never silently dropped; it stays here until someone deals with it.
+export interface SyncRejection {
+  kind: SyncItemKind;
+  item: InventoryLedgerEntry | Transaction;
+  reason: string;
+  rejected_at: number; // epoch millis
+}
+// Set while the outbox is waiting to be retried after a failed flush or items the server deferred.
+export interface SyncBackoff {
+  attempts: number; // consecutive flushes without progress
+  next_attempt_at: number; // epoch millis
+  last_error: string;
+}
+// Delivery history of one queued item, shown on the Sync Queue page. Dropped once the item leaves the queue.
+export interface SyncItemAttempts {
+  attempts: number;
+  last_attempt_at: number; // epoch millis
+  last_error?: string;
+}
 interface OfflineState {
   pendingLedgerEntries: InventoryLedgerEntry[];
   pendingTransactions: Transaction[];
+  rejectedItems: SyncRejection[];
+  syncBackoff: SyncBackoff | null;
+  syncAttempts: Record<string, SyncItemAttempts>; // by item id
+  openTicket: OpenTicket | null;
   isOnline: boolean;
   addLedgerEntry: (entry: Omit<InventoryLedgerEntry, 'is_synced' | 'created_at' | 'capture_timestamp'> & { id?: string }) => string;
   addTransaction: (transaction: Omit<Transaction, 'id' | 'is_synced' | 'created_at' | 'transaction_timestamp'>) => void;
-  syncAllPending: () => Promise<void>;
+  startTicket: (supplierId: string) => string;
+  addTicketLine: (supplierId: string, line: Omit<TicketLine, 'id' | 'captured_at'> & { id?: string }) => void;
+  removeTicketLine: (lineId: string) => void;
+  voidTicket: () => void;
+  settleTicket: (paymentMethod: string) => Transaction | null;
+  syncAllPending: (options?: { force?: boolean }) => Promise<void>;
+  requeueRejected: (id: string, edited?: InventoryLedgerEntry | Transaction) => void;
+  discardRejected: (id: string) => void;
   setOnlineStatus: (isOnline: boolean) => void;
   totalPending: () => number;
 }
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 10 * 60_000;
+/** Exponential, with jitter so terminals that come back online together do not retry in lockstep. */
+const retryDelay = (attempts: number) => Math.round(Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1)) * (0.8 + Math.random() * 0.4));
+const nextBackoff = (previous: SyncBackoff | null, reason: string): SyncBackoff => {
+  const attempts = (previous?.attempts ?? 0) + 1;
+  return { attempts, next_attempt_at: Date.now() + retryDelay(attempts), last_error: reason };
+};
+/**
+ * Sorts one queue by the server's per-item verdicts. Accepted and duplicate items are done, permanent
+ * rejections leave the queue, and anything else (retryable, or missing from the response) is deferred.
+ */
+const sortVerdicts = <T extends InventoryLedgerEntry | Transaction>(kind: SyncItemKind, items: T[], results: SyncItemResult[]) => {
+  const verdicts = new Map(results.map(r => [r.id, r]));
+  const synced = new Set<string>();
+  const rejected: SyncRejection[] = [];
+  const deferred = new Map<string, string>();
+  for (const item of items) {
+    const verdict = verdicts.get(item.id);
+    if (verdict?.status === 'accepted' || verdict?.status === 'duplicate') synced.add(item.id);
+    else if (verdict?.status === 'rejected' && !verdict.retryable) rejected.push({ kind, item, reason: verdict.reason ?? 'Rejected by the server', rejected_at: Date.now() });
+    else deferred.set(item.id, verdict?.reason ?? 'No result from the server');
+  }
+  return { synced, rejected, deferred, done: new Set([...synced, ...rejected.map(r => r.item.id)]) };
+};
+/** One more attempt for every item sent, with its latest error; items that left the queue are forgotten. */
+const countAttempts = (current: Record<string, SyncItemAttempts>, sent: string[], errors: (id: string) => string | undefined, done: Set<string> = new Set()) => {
+  const next = { ...current };
+  for (const id of sent) {
+    if (done.has(id)) delete next[id];
+    else next[id] = { attempts: (current[id]?.attempts ?? 0) + 1, last_attempt_at: Date.now(), last_error: errors(id) };
+  }
+  return next;
+};
+const paysFor = (t: Transaction, entryId: string) => t.ledger_entry_id === entryId || !!t.lines?.some(l => l.ledger_entry_id === entryId);
+// One flush at a time: focus, reconnect, the retry timer and the Sync button can all fire together.
+let inFlight: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+const scheduleRetry = (at: number) => {
+  clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => useOfflineStore.getState().syncAllPending(), Math.max(0, at - Date.now()));
+};
 const storage = {
   getItem: async (name: string): Promise<string | null> => (await get(name)) || null,
   setItem: async (name: string, value: string): Promise<void> => { await set(name, value); },
@@ -25,6 +128,10 @@ export const useOfflineStore = create<OfflineState>()(
     (set, get) => ({
       pendingLedgerEntries: [],
       pendingTransactions: [],
+      rejectedItems: [],
+      syncBackoff: null,
+      syncAttempts: {},
+      openTicket: null,
       isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
       totalPending: () => get().pendingLedgerEntries.length + get().pendingTransactions.length,
       addLedgerEntry: (entry) => {
@@ -52,54 +159,159 @@ export const useOfflineStore = create<OfflineState>()(
         set((state) => ({ pendingTransactions: [...state.pendingTransactions, newTransaction] }));
         toast.success('Transaction saved locally', { description: 'Queued for sync.' });
       },
-      syncAllPending: async () => {
-        const { isOnline, pendingLedgerEntries, pendingTransactions } = get();
-        if (!isOnline || get().totalPending() === 0) return;
-        let ledgerSynced = false;
-        let transactionSynced = false;
-        if (pendingLedgerEntries.length > 0) {
-          const entriesToSync = [...pendingLedgerEntries];
+      startTicket: (supplierId) => {
+        const current = get().openTicket;
+        if (current) return current.id;
+        const ticket: OpenTicket = { id: uuid(), supplier_id: supplierId, opened_at: Date.now(), lines: [] };
+        set({ openTicket: ticket });
+        return ticket.id;
+      },
+      addTicketLine: (supplierId, line) => {
+        get().startTicket(supplierId);
+        const newLine: TicketLine = { ...line, id: line.id || uuid(), captured_at: Date.now() };
+        set(state => state.openTicket ? { openTicket: { ...state.openTicket, lines: [...state.openTicket.lines, newLine] } } : {});
+        toast.success('Line added to ticket', { description: `${newLine.weight_kg.toFixed(2)}kg of ${newLine.material_type}` });
+      },
+      removeTicketLine: (lineId) => set(state => {
+        if (!state.openTicket) return {};
+        // Recorded lines are already on the ledger; taking them off needs a ledger correction instead.
+        return { openTicket: { ...state.openTicket, lines: state.openTicket.lines.filter(l => l.id !== lineId || l.recorded) } };
+      }),
+      voidTicket: () => {
+        if (get().openTicket?.lines.some(l => l.recorded)) return;
+        set({ openTicket: null });
+      },
+      // Turns the open ticket into one ledger entry per unrecorded line plus a single payment, all queued for sync.
+      settleTicket: (paymentMethod) => {
+        const ticket = get().openTicket;
+        if (!ticket || ticket.lines.length === 0) return null;
+        const now = Date.now();
+        const entries: InventoryLedgerEntry[] = ticket.lines.filter(l => !l.recorded).map(l => ({
+          id: l.id,
+          supplier_id: ticket.supplier_id,
+          material_id: l.material_id,
+          material_type: l.material_type,
+          weight_kg: l.weight_kg,
+          gross_kg: l.gross_kg,
+          tare_kg: l.tare_kg,
+          tare_preset_id: l.tare_preset_id,
+          ticket_id: ticket.id,
+          notes: l.notes,
+          operator_id: l.operator_id,
+          device_id: l.device_id,
+          scale_id: l.scale_id,
+          stability: l.stability,
+          capture_timestamp: l.captured_at,
+          is_synced: false,
+          created_at: now,
+        }));
+        const transaction = withTicketTotals<Transaction>({
+          id: ticket.id,
+          ledger_entry_id: ticket.lines[0].id,
+          lines: ticket.lines.map(l => ({
+            ledger_entry_id: l.id,
+            material_id: l.material_id,
+            material_type: l.material_type,
+            weight_kg: l.weight_kg,
+            amount: l.amount,
+            epr_fee: l.epr_fee,
+            price_per_kg: l.price_per_kg,
+            price_rule_id: l.price_rule_id,
+            price_override_id: l.price_override_id,
+          })),
+          amount: 0,
+          epr_fee: 0,
+          currency: 'ZAR',
+          payment_method: paymentMethod,
+          transaction_timestamp: now,
+          is_synced: false,
+          created_at: now,
+        });
+        set(state => ({
+          pendingLedgerEntries: [...state.pendingLedgerEntries, ...entries],
+          pendingTransactions: [...state.pendingTransactions, transaction],
+          openTicket: null,
+        }));
+        toast.success('Ticket settled locally', { description: `${ticket.lines.length} line(s), ${transaction.amount.toFixed(2)} ZAR queued for sync.` });
+        return transaction;
+      },
+      // Flushes the whole outbox in one envelope; the server records ledger entries before the transactions
+      // that pay for them. Unless forced, a flush waits out the current backoff.
+      syncAllPending: ({ force = false } = {}) => {
+        if (inFlight) return inFlight;
+        inFlight = (async () => {
+          const { isOnline, pendingLedgerEntries, pendingTransactions, rejectedItems, syncBackoff } = get();
+          if (!isOnline || get().totalPending() === 0) return;
+          if (!force && syncBackoff && syncBackoff.next_attempt_at > Date.now()) return scheduleRetry(syncBackoff.next_attempt_at);
+          clearTimeout(retryTimer);
+          const ledger = [...pendingLedgerEntries];
+          const transactions = [...pendingTransactions];
+          let response: SyncEnvelopeResponse;
           try {
-            const res = await api<{ syncedIds: string[] }>('/api/sync/ledger', {
-              method: 'POST', body: JSON.stringify({ pendingEntries: entriesToSync }),
-            });
-            if (res.syncedIds.length > 0) {
-              set(state => ({
-                pendingLedgerEntries: state.pendingLedgerEntries.filter(e => !res.syncedIds.includes(e.id)),
-              }));
-              ledgerSynced = true;
-            }
+            response = await api<SyncEnvelopeResponse>('/api/sync', { method: 'POST', body: JSON.stringify({ ledger, transactions, device_id: useDeviceStore.getState().device?.id, rejected: rejectedItems.length } satisfies SyncEnvelope) });
           } catch (error) {
-            toast.error('Ledger sync failed', { description: error instanceof Error ? error.message : 'Server error' });
+            const message = error instanceof Error ? error.message : 'Server error';
+            const backoff = nextBackoff(get().syncBackoff, message);
+            set(state => ({ syncBackoff: backoff, syncAttempts: countAttempts(state.syncAttempts, [...ledger, ...transactions].map(i => i.id), () => message) }));
+            scheduleRetry(backoff.next_attempt_at);
+            // Automatic retries stay quiet after the first failure; the pending badge shows the queue.
+            if (force || backoff.attempts === 1) toast.error('Sync failed', { description: `${message}. Retrying automatically.` });
+            return;
           }
-        }
-        if (pendingTransactions.length > 0) {
-          const transactionsToSync = [...pendingTransactions];
-           try {
-            const res = await api<{ syncedIds: string[] }>('/api/sync/transactions', {
-              method: 'POST', body: JSON.stringify({ pendingTransactions: transactionsToSync }),
-            });
-            if (res.syncedIds.length > 0) {
-              set(state => ({
-                pendingTransactions: state.pendingTransactions.filter(t => !res.syncedIds.includes(t.id)),
-              }));
-              transactionSynced = true;
-            }
-          } catch (error) {
-            toast.error('Transaction sync failed', { description: error instanceof Error ? error.message : 'Server error' });
+          const l = sortVerdicts('ledger', ledger, response.ledger);
+          const t = sortVerdicts('transaction', transactions, response.transactions);
+          const rejected = [...l.rejected, ...t.rejected];
+          const deferred = [...l.deferred.values(), ...t.deferred.values()];
+          const syncedCount = l.synced.size + t.synced.size;
+          // Progress resets the schedule; deferring the same items again backs off further.
+          const backoff = deferred.length > 0 ? nextBackoff(syncedCount > 0 ? null : get().syncBackoff, deferred[0]) : null;
+          const sent = [...ledger, ...transactions].map(i => i.id);
+          // Filter the live queues: items captured while the request was in flight must survive.
+          set(state => ({
+            pendingLedgerEntries: state.pendingLedgerEntries.filter(e => !l.done.has(e.id)),
+            pendingTransactions: state.pendingTransactions.filter(tx => !t.done.has(tx.id)),
+            rejectedItems: [...state.rejectedItems, ...rejected],
+            syncBackoff: backoff,
+            syncAttempts: countAttempts(state.syncAttempts, sent, id => l.deferred.get(id) ?? t.deferred.get(id), new Set([...l.done, ...t.done])),
+          }));
+          if (backoff) scheduleRetry(backoff.next_attempt_at);
+          if (rejected.length > 0) {
+            toast.error(`${rejected.length} item(s) rejected by the server`, { description: rejected.map(r => r.reason).join('; ') });
           }
-        }
-        if (ledgerSynced || transactionSynced) {
-          toast.success('Pending items synced successfully!');
-          const queryClient = (window as any).queryClient;
-          if (queryClient) {
-            queryClient.invalidateQueries({ queryKey: ['ledger'] });
-            queryClient.invalidateQueries({ queryKey: ['transactions'] });
-            queryClient.invalidateQueries({ queryKey: ['suppliers'] });
-            queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+          if (syncedCount > 0) {
+            toast.success(`${syncedCount} pending item(s) synced`, deferred.length > 0 ? { description: `${deferred.length} will be retried.` } : undefined);
+            const queryClient = (window as any).queryClient;
+            if (queryClient) {
+              queryClient.invalidateQueries({ queryKey: ['ledger'] });
+              queryClient.invalidateQueries({ queryKey: ['transactions'] });
+              queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+              queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+            }
           }
-        }
+        })().finally(() => { inFlight = null; });
+        return inFlight;
+      },
+      // Puts a rejected item (optionally corrected) back in the outbox. Transactions that were turned away
+      // because of a rejected ledger entry go back with it.
+      requeueRejected: (id, edited) => {
+        const rejection = get().rejectedItems.find(r => r.item.id === id);
+        if (!rejection) return;
+        const dependants = rejection.kind === 'ledger' ? get().rejectedItems.filter(r => r.kind === 'transaction' && paysFor(r.item as Transaction, id)) : [];
+        const leaving = new Set([id, ...dependants.map(r => r.item.id)]);
+        const item = { ...(edited ?? rejection.item), is_synced: false };
+        set(state => ({
+          rejectedItems: state.rejectedItems.filter(r => !leaving.has(r.item.id)),
+          pendingLedgerEntries: rejection.kind === 'ledger' ? [...state.pendingLedgerEntries, item as InventoryLedgerEntry] : state.pendingLedgerEntries,
+          pendingTransactions: [
+            ...state.pendingTransactions,
+            ...(rejection.kind === 'transaction' ? [withTicketTotals(item as Transaction)] : []),
+            ...dependants.map(r => ({ ...(r.item as Transaction), is_synced: false })),
+          ],
+          syncBackoff: null,
+        }));
+        get().syncAllPending({ force: true });
       },
+      discardRejected: (id) => set(state => ({ rejectedItems: state.rejectedItems.filter(r => r.item.id !== id) })),
       setOnlineStatus: (isOnline) => set({ isOnline }),
     }),
     {
@@ -116,9 +328,13 @@ if (typeof window !== 'undefined') {
   useOfflineStore.subscribe((state, prevState) => {
     if (state.isOnline && !prevState.isOnline && state.totalPending() > 0) {
       toast.info("Back online! Attempting to sync pending items...");
-      state.syncAllPending();
+      state.syncAllPending({ force: true });
     }
   });
+  // Resume the outbox (and any backoff it was waiting out) after a reload.
+  useOfflineStore.persist.onFinishHydration(state => {
+    if (state.totalPending() > 0) state.syncAllPending();
+  });
   window.addEventListener('focus', () => {
     const state = useOfflineStore.getState();
     if (state.isOnline && state.totalPending() > 0) {
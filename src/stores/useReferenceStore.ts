@@ -0,0 +1,127 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { get, set, del } from 'idb-keyval';
+import type { QueryClient } from '@tanstack/react-query';
+import type { EprTariff, Material, OperatorProfile, PriceRule, ReferenceDelta, ReferencePull, Supplier, TarePreset } from '@shared/types';
+import { hasPermission } from '@shared/permissions';
+import { api } from '@/lib/api-client';
+import { useAuthStore } from '@/stores/useAuthStore';
+import { useDeviceStore } from '@/stores/useDeviceStore';
+// A pull on focus is skipped when the mirror is fresher than this.
+const MIN_PULL_INTERVAL_MS = 60_000;
+type ReferenceCollections = {
+  suppliers: Supplier[];
+  materials: Material[];
+  price_rules: PriceRule[];
+  epr_tariffs: EprTariff[];
+  tare_presets: TarePreset[];
+};
+type CollectionKey = keyof ReferenceCollections;
+// Where each collection lives in the query cache, and the order its GET endpoint returns it in.
+const COLLECTIONS: { [K in CollectionKey]: { queryKey: string; sort?: (a: ReferenceCollections[K][number], b: ReferenceCollections[K][number]) => number } } = {
+  suppliers: { queryKey: 'suppliers' },
+  materials: { queryKey: 'materials', sort: (a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code) },
+  price_rules: { queryKey: 'price-rules', sort: (a, b) => b.effective_from - a.effective_from },
+  epr_tariffs: { queryKey: 'epr-tariffs', sort: (a, b) => a.epr_stream.localeCompare(b.epr_stream) || b.effective_from - a.effective_from },
+  tare_presets: { queryKey: 'tare-presets', sort: (a, b) => a.reference.localeCompare(b.reference) },
+};
+const COLLECTION_KEYS = Object.keys(COLLECTIONS) as CollectionKey[];
+interface ReferenceState extends ReferenceCollections {
+  operators: OperatorProfile[];
+  cursor: number | null; // from the last successful pull
+  pulled_at: number | null; // epoch millis, client clock
+  pullReferenceData: (options?: { force?: boolean }) => Promise<void>;
+}
+const storage = {
+  getItem: async (name: string): Promise<string | null> => (await get(name)) || null,
+  setItem: async (name: string, value: string): Promise<void> => { await set(name, value); },
+  removeItem: async (name: string): Promise<void> => { await del(name); },
+};
+/** Upserts the changed records and drops any the server no longer lists. */
+const applyDelta = <T extends { id: string }>(current: T[], delta: ReferenceDelta<T>, full: boolean, sort?: (a: T, b: T) => number): T[] => {
+  const live = new Set(delta.ids);
+  const byId = new Map((full ? [] : current).filter(item => live.has(item.id)).map(item => [item.id, item]));
+  for (const item of delta.changed) byId.set(item.id, item);
+  const merged = [...byId.values()];
+  return sort ? merged.sort(sort) : merged;
+};
+/**
+ * Hands the mirror to queries that have nothing yet, which is what a cold start without network looks
+ * like. Queries holding server data keep it; they refetch on their own schedule.
+ */
+const seedQueryCache = (state: ReferenceState) => {
+  const queryClient: QueryClient | undefined = (window as any).queryClient;
+  if (!queryClient || state.pulled_at === null) return;
+  for (const key of COLLECTION_KEYS) {
+    const queryKey = [COLLECTIONS[key].queryKey];
+    if (queryClient.getQueryData(queryKey) === undefined) queryClient.setQueryData(queryKey, state[key], { updatedAt: state.pulled_at });
+  }
+};
+let inFlight: Promise<void> | null = null;
+export const useReferenceStore = create<ReferenceState>()(
+  persist(
+    (set, get) => ({
+      suppliers: [],
+      materials: [],
+      price_rules: [],
+      epr_tariffs: [],
+      tare_presets: [],
+      operators: [],
+      cursor: null,
+      pulled_at: null,
+      // Fetches what changed since the last pull. Failures are silent: the mirror simply stays as it was.
+      pullReferenceData: ({ force = false } = {}) => {
+        if (inFlight) return inFlight;
+        const { cursor, pulled_at } = get();
+        if (!force && pulled_at !== null && Date.now() - pulled_at < MIN_PULL_INTERVAL_MS) return Promise.resolve();
+        if (!hasPermission(useAuthStore.getState().user, 'pos:capture')) return Promise.resolve();
+        inFlight = (async () => {
+          try {
+            // The pull doubles as this terminal's check-in.
+            const params = new URLSearchParams();
+            if (cursor !== null) params.set('since', String(cursor));
+            const deviceId = useDeviceStore.getState().device?.id;
+            if (deviceId) params.set('device', deviceId);
+            const query = params.toString();
+            const pull = await api<ReferencePull>(`/api/sync/pull${query ? `?${query}` : ''}`);
+            set(state => ({
+              suppliers: applyDelta(state.suppliers, pull.suppliers, pull.full, COLLECTIONS.suppliers.sort),
+              materials: applyDelta(state.materials, pull.materials, pull.full, COLLECTIONS.materials.sort),
+              price_rules: applyDelta(state.price_rules, pull.price_rules, pull.full, COLLECTIONS.price_rules.sort),
+              epr_tariffs: applyDelta(state.epr_tariffs, pull.epr_tariffs, pull.full, COLLECTIONS.epr_tariffs.sort),
+              tare_presets: applyDelta(state.tare_presets, pull.tare_presets, pull.full, COLLECTIONS.tare_presets.sort),
+              operators: pull.operators,
+              cursor: pull.cursor,
+              pulled_at: Date.now(),
+            }));
+            seedQueryCache(get());
+          } catch {
+            // Offline or signed out; the next trigger tries again.
+          }
+        })().finally(() => { inFlight = null; });
+        return inFlight;
+      },
+    }),
+    {
+      name: 'suitewaste-reference-cache',
+      storage: createJSONStorage(() => storage),
+      partialize: ({ pullReferenceData, ...data }) => data,
+    }
+  )
+);
+if (typeof window !== 'undefined') {
+  useReferenceStore.persist.onFinishHydration(state => {
+    seedQueryCache(state);
+    if (navigator.onLine) state.pullReferenceData({ force: true });
+  });
+  window.addEventListener('online', () => useReferenceStore.getState().pullReferenceData({ force: true }));
+  window.addEventListener('focus', () => {
+    if (navigator.onLine) useReferenceStore.getState().pullReferenceData();
+  });
+  // A different user may not be allowed the same data; start the next pull from scratch.
+  useAuthStore.subscribe((state, prev) => {
+    if (state.user?.id === prev.user?.id) return;
+    useReferenceStore.setState({ cursor: null, pulled_at: null });
+    if (state.user) useReferenceStore.getState().pullReferenceData({ force: true });
+  });
+}
@@ -0,0 +1,336 @@
+import { create } from 'zustand';
+import { toast } from 'sonner';
+import { LINE_ENDINGS, readLine, scaleDriver, type CommandAck, type CommandSpec, type ScaleCommand, type ScaleReading, type SerialParity } from '@/lib/scale-drivers';
+import { SimulatedScalePort } from '@/lib/scale-simulator';
+import { useScaleStore } from '@/stores/useScaleStore';
+// Add TypeScript definitions for the Web Serial API
+// This ensures type safety and autocompletion for the Web Serial API.
+type SerialPortRequestOptions = {
+  filters?: { usbVendorId?: number; usbProductId?: number }[];
+};
+type SerialOptions = {
+  baudRate: number;
+  dataBits?: 7 | 8;
+  stopBits?: 1 | 2;
+  parity?: SerialParity;
+};
+type SerialPortInfo = { usbVendorId?: number; usbProductId?: number };
+type SerialPort = EventTarget & {
+  open(options: SerialOptions): Promise<void>;
+  close(): Promise<void>;
+  getInfo?(): SerialPortInfo; // optional so the simulator can stand in
+  forget?(): Promise<void>; // revokes the permission; not in every browser yet
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+  addEventListener(type: 'disconnect', listener: (ev: Event) => any, options?: boolean | AddEventListenerOptions): void;
+  removeEventListener(type: 'disconnect', listener: (ev: Event) => any, options?: boolean | EventListenerOptions): void;
+};
+declare global {
+  interface Navigator {
+    serial: EventTarget & {
+      requestPort(options?: SerialPortRequestOptions): Promise<SerialPort>;
+      getPorts(): Promise<SerialPort[]>;
+    };
+  }
+}
+// Enough history for any stability window the capture rules allow.
+const READING_HISTORY_MS = 10_000;
+// How long an indicator that answers commands gets to do so.
+const COMMAND_TIMEOUT_MS = 2000;
+// Reconnect attempts double from 1 s up to 30 s and carry on until the scale is back or someone disconnects;
+// a paired scale that is plugged back in is picked up at once through the 'connect' event.
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+// 'sent' when the driver expects no answer; 'busy' also covers a command still waiting for its answer.
+export type CommandOutcome = CommandAck | 'sent' | 'no-reply' | 'failed' | 'unsupported';
+export type ScaleStatus = 'disconnected' | 'connecting' | 'connected' | 'parsing' | 'reconnecting' | 'error';
+type PendingCommand = { reply: NonNullable<CommandSpec['reply']>; settle: (outcome: CommandOutcome) => void };
+interface ScaleConnectionState {
+  status: ScaleStatus;
+  samples: ScaleReading[]; // readings from the last few seconds, oldest first
+  pendingCommand: ScaleCommand | null; // sent and waiting for the indicator's answer
+  reconnectAttempt: number; // failed attempts since the scale dropped out
+  connect: () => Promise<void>;
+  pair: () => Promise<void>;
+  disconnect: () => Promise<void>;
+  forget: (key: string) => Promise<void>;
+  sendCommand: (command: ScaleCommand) => Promise<CommandOutcome>;
+}
+const hex = (id: number) => id.toString(16).padStart(4, '0');
+/**
+ * How a granted port is recognised across page loads. Browsers only expose the USB vendor and product ids,
+ * so two adapters of the same model share a key.
+ */
+export function describePort(port: SerialPort): { key: string; label: string } {
+  const info = port.getInfo?.() ?? {};
+  if (info.usbVendorId === undefined) return { key: 'serial', label: 'Built-in serial port' };
+  return { key: `usb-${hex(info.usbVendorId)}-${hex(info.usbProductId ?? 0)}`, label: `USB ${hex(info.usbVendorId)}:${hex(info.usbProductId ?? 0)}` };
+}
+// The open port and its plumbing live outside React, so the scale stays connected across route changes.
+let port: SerialPort | null = null;
+let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let pending: PendingCommand | null = null;
+// Polls and commands share one writable stream, so writes are queued rather than fighting over its lock.
+let writeQueue: Promise<void> = Promise.resolve();
+export const useScaleConnection = create<ScaleConnectionState>()((set, get) => ({
+  status: 'disconnected',
+  samples: [],
+  pendingCommand: null,
+  reconnectAttempt: 0,
+  // Straight to the paired port when the browser still has it; otherwise the browser asks which one.
+  connect: () => connectWith(async () => (await rememberedPort()) ?? navigator.serial.requestPort()),
+  pair: () => connectWith(() => navigator.serial.requestPort()),
+  disconnect: async () => {
+    clearReconnect();
+    useScaleStore.getState().setAutoConnect(false);
+    await teardown();
+    set({ status: 'disconnected', reconnectAttempt: 0 });
+  },
+  forget: async (key) => {
+    const { source, portKey } = useScaleStore.getState();
+    if (source === 'serial' && portKey === key && get().status !== 'disconnected') await get().disconnect();
+    if ('serial' in navigator) {
+      const granted = (await navigator.serial.getPorts()).filter(p => describePort(p).key === key);
+      await Promise.all(granted.map(p => p.forget?.()));
+    }
+    useScaleStore.getState().forgetPort(key);
+  },
+  sendCommand: async (command) => {
+    const target = port;
+    const { driverId, serial } = useScaleStore.getState();
+    const spec = scaleDriver(driverId).commands[command];
+    if (!target || !spec) return 'unsupported';
+    if (pending) return 'busy';
+    const answer = spec.reply ? new Promise<CommandOutcome>(resolve => {
+      const timer = setTimeout(() => pending?.settle('no-reply'), COMMAND_TIMEOUT_MS);
+      pending = {
+        reply: spec.reply,
+        settle: (outcome) => {
+          clearTimeout(timer);
+          pending = null;
+          set({ pendingCommand: null });
+          resolve(outcome);
+        },
+      };
+      set({ pendingCommand: command });
+    }) : null;
+    try {
+      await write(target, spec.send + LINE_ENDINGS[serial.lineEnding]);
+    } catch (error) {
+      pending?.settle('failed');
+      return answer ?? 'failed';
+    }
+    return answer ?? 'sent';
+  },
+}));
+async function connectWith(choose: () => Promise<SerialPort>): Promise<void> {
+  const { source } = useScaleStore.getState();
+  if (source === 'serial' && !('serial' in navigator)) {
+    toast.error('Web Serial API not supported', { description: 'Please use a compatible browser like Chrome or Edge.' });
+    useScaleConnection.setState({ status: 'error' });
+    return;
+  }
+  if (port) {
+    toast.info('A scale is already connected.');
+    return;
+  }
+  clearReconnect();
+  useScaleConnection.setState({ status: 'connecting' });
+  try {
+    // The simulator stands in for the port itself, so everything downstream runs as it would on hardware.
+    await open(source === 'simulated' ? simulatedPort() : await choose());
+    toast.success(source === 'simulated' ? 'Simulated scale connected.' : 'Scale connected successfully!');
+  } catch (err) {
+    useScaleConnection.setState({ status: 'error' });
+    if (err instanceof Error && err.name !== 'NotFoundError') {
+      toast.error('Failed to connect to scale', { description: err.message });
+    } else {
+      useScaleConnection.setState({ status: 'disconnected' });
+    }
+  }
+}
+const simulatedPort = (): SerialPort => {
+  const { driverId, serial, simulation } = useScaleStore.getState();
+  return new SimulatedScalePort(driverId, serial.lineEnding, simulation);
+};
+/** The port this terminal last used, if the browser still grants it and it is plugged in. */
+async function rememberedPort(): Promise<SerialPort | null> {
+  const { source, portKey } = useScaleStore.getState();
+  if (source === 'simulated') return simulatedPort();
+  if (!('serial' in navigator) || !portKey) return null;
+  return (await navigator.serial.getPorts()).find(p => describePort(p).key === portKey) ?? null;
+}
+async function open(target: SerialPort): Promise<void> {
+  // A paired port brings back its own driver and framing before it is opened with them.
+  if (useScaleStore.getState().source === 'serial') {
+    const { key, label } = describePort(target);
+    useScaleStore.getState().selectPort(key, label);
+  }
+  const { serial } = useScaleStore.getState();
+  await target.open({ baudRate: serial.baudRate, dataBits: serial.dataBits, stopBits: serial.stopBits, parity: serial.parity });
+  port = target;
+  target.addEventListener('disconnect', handleDisconnect);
+  clearReconnect();
+  useScaleConnection.setState({ status: 'connected', reconnectAttempt: 0 });
+  useScaleStore.getState().setAutoConnect(true);
+  readLoop(target);
+  startPolling(target);
+}
+function write(target: SerialPort, text: string): Promise<void> {
+  const next = writeQueue.then(async () => {
+    if (!target.writable) throw new Error('The port is not writable.');
+    const writer = target.writable.getWriter();
+    try {
+      await writer.write(new TextEncoder().encode(text));
+    } finally {
+      writer.releaseLock();
+    }
+  });
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+async function readLoop(target: SerialPort): Promise<void> {
+  if (!target.readable) return;
+  // Settings are read once per connection; changing them takes effect on the next connect.
+  const { driverId, serial } = useScaleStore.getState();
+  const driver = scaleDriver(driverId);
+  const terminator = LINE_ENDINGS[serial.lineEnding];
+  reader = target.readable.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+  useScaleConnection.setState({ status: 'parsing' });
+  while (port === target) {
+    try {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(terminator);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const ack = pending?.reply(line.trim());
+        if (ack) pending.settle(ack);
+      }
+      const now = Date.now();
+      const readings = lines.map(line => readLine(driver, line, now)).filter((r): r is ScaleReading => r !== null);
+      if (readings.length > 0) useScaleConnection.setState(s => ({ samples: [...s.samples.filter(r => r.received_at >= now - READING_HISTORY_MS), ...readings] }));
+    } catch (error) {
+      break;
+    }
+  }
+  // Still the active port, so nobody closed it: the scale went away.
+  if (port === target) lost();
+}
+// Command/response indicators only answer when asked. Polling pauses while a command waits for its answer:
+// error replies do not name the command they answer, so a poll's error would pass for the command's.
+function startPolling(target: SerialPort): void {
+  const { driverId, serial } = useScaleStore.getState();
+  const poll = scaleDriver(driverId).poll;
+  if (!poll || !target.writable) return;
+  const command = poll.command + LINE_ENDINGS[serial.lineEnding];
+  pollTimer = setInterval(() => {
+    if (pending || !target.writable || target.writable.locked) return;
+    write(target, command).catch(() => {
+      // A failed poll shows up as a stale reading; the read loop reports a lost connection.
+    });
+  }, poll.intervalMs);
+}
+function handleDisconnect(): void {
+  lost();
+}
+async function teardown(): Promise<void> {
+  const target = port;
+  port = null; // first, so the read loop does not take the cancel below for a lost scale
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  pending?.settle('failed');
+  if (reader) {
+    try {
+      await reader.cancel();
+    } catch (error) {
+      // Ignore cancel error, it's expected on disconnect
+    }
+    try {
+      reader.releaseLock();
+    } catch (e) {
+      // Lock might already be released
+    }
+    reader = null;
+  }
+  if (target) {
+    target.removeEventListener('disconnect', handleDisconnect);
+    try {
+      await target.close();
+    } catch (error) {
+      console.error('Failed to close port:', error);
+    }
+  }
+  writeQueue = Promise.resolve();
+  useScaleConnection.setState({ samples: [] });
+}
+async function lost(): Promise<void> {
+  if (!port) return;
+  await teardown();
+  toast.warning('Scale disconnected.', { description: 'Reconnecting automatically.' });
+  scheduleReconnect();
+}
+function clearReconnect(): void {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+}
+function scheduleReconnect(): void {
+  const delay = Math.min(RECONNECT_BASE_MS * 2 ** useScaleConnection.getState().reconnectAttempt, RECONNECT_MAX_MS);
+  clearReconnect();
+  useScaleConnection.setState({ status: 'reconnecting' });
+  reconnectTimer = setTimeout(reconnect, delay);
+}
+async function reconnect(): Promise<void> {
+  reconnectTimer = null;
+  if (port || useScaleConnection.getState().status !== 'reconnecting') return;
+  try {
+    const target = await rememberedPort();
+    if (target) {
+      await open(target);
+      toast.success('Scale reconnected.');
+      return;
+    }
+  } catch (error) {
+    // Not back yet (still unplugged, or held by another tab); try again later.
+  }
+  useScaleConnection.setState(s => ({ reconnectAttempt: s.reconnectAttempt + 1 }));
+  scheduleReconnect();
+}
+// Picks the scale back up after a page load, without a click, when it was connected last time.
+async function resume(): Promise<void> {
+  const { autoConnect, source } = useScaleStore.getState();
+  if (!autoConnect || port || useScaleConnection.getState().status !== 'disconnected') return;
+  if (source === 'serial' && !('serial' in navigator)) return;
+  useScaleConnection.setState({ status: 'connecting' });
+  try {
+    const target = await rememberedPort();
+    if (target) return await open(target);
+  } catch (error) {
+    // Left for the 'connect' event or the Connect button.
+  }
+  useScaleConnection.setState({ status: 'disconnected' });
+}
+if (typeof window !== 'undefined') {
+  if (useScaleStore.persist.hasHydrated()) resume();
+  else useScaleStore.persist.onFinishHydration(() => resume());
+  if ('serial' in navigator) {
+    navigator.serial.addEventListener('connect', () => {
+      const { status } = useScaleConnection.getState();
+      if (status === 'reconnecting') {
+        clearReconnect();
+        reconnect();
+      } else if (status === 'disconnected') {
+        resume();
+      }
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { get, set, del } from 'idb-keyval';
+import { DEFAULT_DRIVER_ID, scaleDriver, type SerialSettings } from '@/lib/scale-drivers';
+import { DEFAULT_CAPTURE_RULES, type CaptureRules } from '@/lib/capture-rules';
+import { DEFAULT_SIMULATION, type SimulationSettings } from '@/lib/scale-simulator';
+export type ScaleSource = 'serial' | 'simulated';
+// A serial port this terminal has been granted, with the protocol its indicator speaks.
+export interface ScalePairing {
+  label: string;
+  driverId: string;
+  serial: SerialSettings;
+  paired_at: number; // epoch millis
+}
+// How this terminal talks to its scale, and the trade rules for that scale. Kept per terminal: each one
+// may have a different indicator attached.
+interface ScaleSettingsState {
+  source: ScaleSource;
+  simulation: SimulationSettings;
+  driverId: string;
+  serial: SerialSettings;
+  rules: CaptureRules;
+  pairings: Record<string, ScalePairing>; // keyed by portKey()
+  portKey: string | null; // the paired port the driver and serial settings belong to
+  autoConnect: boolean; // connect on load and after drop-outs; off once someone disconnects by hand
+  setSource: (source: ScaleSource) => void;
+  setSimulation: (simulation: Partial<SimulationSettings>) => void;
+  setDriver: (driverId: string) => void;
+  setSerial: (serial: Partial<SerialSettings>) => void;
+  setRules: (rules: Partial<CaptureRules>) => void;
+  selectPort: (key: string, label: string) => void;
+  forgetPort: (key: string) => void;
+  setAutoConnect: (autoConnect: boolean) => void;
+}
+const storage = {
+  getItem: async (name: string): Promise<string | null> => (await get(name)) || null,
+  setItem: async (name: string, value: string): Promise<void> => { await set(name, value); },
+  removeItem: async (name: string): Promise<void> => { await del(name); },
+};
+// Keeps the selected port's pairing in step with edits to the driver or framing.
+const withPairing = (state: ScaleSettingsState, driverId: string, serial: SerialSettings): Partial<ScaleSettingsState> => {
+  const pairing = state.portKey ? state.pairings[state.portKey] : undefined;
+  return { driverId, serial, pairings: pairing ? { ...state.pairings, [state.portKey]: { ...pairing, driverId, serial } } : state.pairings };
+};
+export const useScaleStore = create<ScaleSettingsState>()(
+  persist(
+    (set) => ({
+      source: 'serial',
+      simulation: DEFAULT_SIMULATION,
+      driverId: DEFAULT_DRIVER_ID,
+      serial: scaleDriver(DEFAULT_DRIVER_ID).defaults,
+      rules: DEFAULT_CAPTURE_RULES,
+      pairings: {},
+      portKey: null,
+      autoConnect: false,
+      setSource: (source) => set({ source }),
+      setSimulation: (simulation) => set(state => ({ simulation: { ...state.simulation, ...simulation } })),
+      // Switching protocol starts from that driver's usual framing; adjust afterwards if the indicator differs.
+      setDriver: (driverId) => set(state => withPairing(state, driverId, scaleDriver(driverId).defaults)),
+      setSerial: (serial) => set(state => withPairing(state, state.driverId, { ...state.serial, ...serial })),
+      setRules: (rules) => set(state => ({ rules: { ...state.rules, ...rules } })),
+      // A known port brings back its own settings; a new one is paired with whatever is configured now.
+      selectPort: (key, label) => set(state => {
+        const pairing = state.pairings[key];
+        if (pairing) return { portKey: key, driverId: pairing.driverId, serial: pairing.serial };
+        return { portKey: key, pairings: { ...state.pairings, [key]: { label, driverId: state.driverId, serial: state.serial, paired_at: Date.now() } } };
+      }),
+      forgetPort: (key) => set(state => {
+        const { [key]: _forgotten, ...pairings } = state.pairings;
+        return { pairings, portKey: state.portKey === key ? null : state.portKey };
+      }),
+      setAutoConnect: (autoConnect) => set({ autoConnect }),
+    }),
+    {
+      name: 'suitewaste-scale-settings',
+      storage: createJSONStorage(() => storage),
+      partialize: ({ source, simulation, driverId, serial, rules, pairings, portKey, autoConnect }) => ({ source, simulation, driverId, serial, rules, pairings, portKey, autoConnect }),
+    }
+  )
+);
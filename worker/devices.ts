@@ -0,0 +1,43 @@
+/**
+ * Terminal registry check-ins. Only approved terminals are tracked; an unknown, pending or revoked id is
+ * ignored rather than failing the pull or flush it came with, so registration never holds captures back.
+ */
+import type { Device, SyncEnvelopeResponse, SyncItemResult } from "@shared/types";
+import type { Env } from "./core-utils";
+import { DeviceEntity } from "./entities";
+const MAX_NAME_LENGTH = 64;
+/** Trimmed terminal or scale name, or null when it is empty or too long. */
+export function parseDeviceName(raw: unknown): string | null {
+  const name = typeof raw === 'string' ? raw.trim() : '';
+  return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+/** Whether `id` names an approved terminal. */
+export async function isApprovedDevice(env: Env, id: unknown): Promise<boolean> {
+  if (typeof id !== 'string' || !id) return false;
+  const inst = new DeviceEntity(env, id);
+  return (await inst.exists()) && (await inst.getState()).status === 'approved';
+}
+async function checkIn(env: Env, id: unknown, update: (now: number) => Partial<Device>): Promise<void> {
+  if (typeof id !== 'string' || !id) return;
+  const inst = new DeviceEntity(env, id);
+  if (!(await inst.exists())) return;
+  const now = Date.now();
+  await inst.mutate(curr => curr.status === 'approved' ? { ...curr, ...update(now), last_seen_at: now } : curr);
+}
+export const recordDevicePull = (env: Env, id: unknown): Promise<void> => checkIn(env, id, () => ({}));
+const count = (results: SyncItemResult[], retryable: boolean) => results.filter(r => r.status === 'rejected' && !!r.retryable === retryable).length;
+/**
+ * Records a flush and what the terminal is left holding: items deferred for retry are still pending, and
+ * permanent rejections join the ones it reported already holding.
+ */
+export function recordDeviceSync(env: Env, id: unknown, response: SyncEnvelopeResponse, heldRejected: unknown): Promise<void> {
+  const held = typeof heldRejected === 'number' && Number.isInteger(heldRejected) && heldRejected >= 0 ? heldRejected : 0;
+  return checkIn(env, id, now => ({
+    last_sync_at: now,
+    backlog: {
+      pending_ledger: count(response.ledger, true),
+      pending_transactions: count(response.transactions, true),
+      rejected: held + count(response.ledger, false) + count(response.transactions, false),
+    },
+  }));
+}
@@ -1,6 +1,7 @@
-import { IndexedEntity } from "./core-utils";
-import type { Supplier, InventoryLedgerEntry, Transaction, User, Session } from "@shared/types";
-import { MOCK_SUPPLIERS, MOCK_INVENTORY_LEDGER, MOCK_TRANSACTIONS, MOCK_USERS } from "@shared/mock-data";
+import { Entity, IndexedEntity } from "./core-utils";
+import type { Env } from "./core-utils";
+import type { Supplier, InventoryLedgerEntry, Transaction, User, Session, SecurityPolicy, AuthEvent, LoginThrottle, LoginChallenge, ApiKey, LedgerChainHead, LedgerCorrection, WeighingSession, TarePreset, Material, PriceRule, PriceOverride, EprTariff, SyncReceipt, Device } from "@shared/types";
+import { MOCK_SUPPLIERS, MOCK_INVENTORY_LEDGER, MOCK_TRANSACTIONS, MOCK_USERS, MOCK_MATERIALS, MOCK_EPR_TARIFFS } from "@shared/mock-data";
 // SESSION ENTITY
 export class SessionEntity extends IndexedEntity<Session> {
   static readonly entityName = "session";
@@ -11,6 +12,164 @@ export class SessionEntity extends IndexedEntity<Session> {
     createdAt: 0,
   };
 }
+// SECURITY POLICY (singleton, keyed "global")
+export class SecurityPolicyEntity extends Entity<SecurityPolicy> {
+  static readonly entityName = "security_policy";
+  static readonly initialState: SecurityPolicy = {
+    id: "global",
+    session_idle_timeout_min: 60,
+    session_absolute_timeout_hours: 12,
+    totp_required_roles: [],
+    updated_at: 0,
+  };
+}
+// INTEGRATION API KEY (keyed by the id embedded in the token)
+export class ApiKeyEntity extends IndexedEntity<ApiKey> {
+  static readonly entityName = "api_key";
+  static readonly indexName = "api_keys";
+  static readonly initialState: ApiKey = {
+    id: "",
+    name: "",
+    key_hash: "",
+    scopes: [],
+    created_at: 0,
+    created_by: "",
+  };
+}
+// TWO-PASS WEIGHING SESSIONS
+export class WeighingSessionEntity extends IndexedEntity<WeighingSession> {
+  static readonly entityName = "weighing_session";
+  static readonly indexName = "weighing_sessions";
+  static readonly initialState: WeighingSession = {
+    id: "",
+    reference: "",
+    status: "open",
+    created_at: 0,
+    updated_at: 0,
+  };
+}
+// TARE PRESETS (keyed by normalised vehicle registration / container id)
+export class TarePresetEntity extends IndexedEntity<TarePreset> {
+  static readonly entityName = "tare_preset";
+  static readonly indexName = "tare_presets";
+  static readonly initialState: TarePreset = {
+    id: "",
+    reference: "",
+    kind: "vehicle",
+    tare_kg: 0,
+    updated_at: 0,
+  };
+}
+// LEDGER CORRECTION REQUESTS (pending until a second person approves)
+export class LedgerCorrectionEntity extends IndexedEntity<LedgerCorrection> {
+  static readonly entityName = "ledger_correction";
+  static readonly indexName = "ledger_corrections";
+  static readonly initialState: LedgerCorrection = {
+    id: "",
+    entry_id: "",
+    reason: "",
+    proposed: { supplier_id: "", material_type: "", weight_kg: 0 },
+    status: "pending",
+    requested_by: "",
+    requested_at: 0,
+  };
+}
+// LEDGER CHAIN HEAD (singleton, keyed "global"): the sequence and hash the next entry links to
+export class LedgerChainEntity extends Entity<LedgerChainHead> {
+  static readonly entityName = "ledger_chain";
+  static readonly initialState: LedgerChainHead = {
+    id: "global",
+    sequence: 0,
+    head_hash: "genesis",
+    updated_at: 0,
+  };
+}
+// SYNC RECEIPT (idempotency record for one offline-queued item, keyed "<kind>:<item id>")
+export class SyncReceiptEntity extends Entity<SyncReceipt> {
+  static readonly entityName = "sync_receipt";
+  static readonly initialState: SyncReceipt = {
+    id: "",
+    digest: "",
+    status: "pending",
+    updated_at: 0,
+  };
+}
+// ONE-OFF DATA MIGRATION (keyed by migration name; present once it has completed)
+export class MigrationEntity extends Entity<{ id: string; completed_at: number }> {
+  static readonly entityName = "migration";
+  static readonly initialState = { id: "", completed_at: 0 };
+  /** Runs `migrate` unless it has already completed. It must be safe to repeat: two first callers may both run it. */
+  static async runOnce(env: Env, name: string, migrate: () => Promise<void>): Promise<void> {
+    const inst = new MigrationEntity(env, name);
+    if ((await inst.getState()).completed_at) return;
+    await migrate();
+    await inst.save({ id: name, completed_at: Date.now() });
+  }
+}
+// REGISTERED TERMINAL (POS tablet or weighbridge PC)
+export class DeviceEntity extends IndexedEntity<Device> {
+  static readonly entityName = "device";
+  static readonly indexName = "devices";
+  static readonly initialState: Device = {
+    id: "",
+    name: "",
+    status: "pending",
+    registered_at: 0,
+    registered_by: "",
+    updated_at: 0,
+  };
+}
+// PENDING SECOND-FACTOR LOGIN (short-lived, keyed by the challenge token)
+export class LoginChallengeEntity extends Entity<LoginChallenge> {
+  static readonly entityName = "login_challenge";
+  static readonly initialState: LoginChallenge = {
+    id: "",
+    userId: "",
+    expiresAt: 0,
+    attempts: 0,
+  };
+}
+// LOGIN THROTTLE (one document per "user:<name>" / "ip:<addr>" key)
+export class LoginThrottleEntity extends Entity<LoginThrottle> {
+  static readonly entityName = "login_throttle";
+  static readonly initialState: LoginThrottle = {
+    id: "",
+    failures: 0,
+    lastFailureAt: 0,
+    lockedUntil: 0,
+  };
+  // Failures older than this are forgotten, so occasional typos never add up to a lockout.
+  static readonly decayMs = 60 * 60 * 1000;
+  static readonly baseLockMs = 30 * 1000;
+  static readonly maxLockMs = 60 * 60 * 1000;
+  /** Records a failure; once `freeAttempts` is exceeded each further failure doubles the lock. */
+  async registerFailure(freeAttempts: number, now = Date.now()): Promise<LoginThrottle> {
+    const Ctor = LoginThrottleEntity;
+    return this.mutate(curr => {
+      const failures = (now - curr.lastFailureAt > Ctor.decayMs ? 0 : curr.failures) + 1;
+      const over = failures - freeAttempts;
+      const lockedUntil = over > 0 ? now + Math.min(Ctor.baseLockMs * 2 ** (over - 1), Ctor.maxLockMs) : curr.lockedUntil;
+      return { id: this.id, failures, lastFailureAt: now, lockedUntil };
+    });
+  }
+  async reset(): Promise<void> {
+    if (await this.exists()) await this.delete();
+  }
+}
+// AUTH EVENT LOG
+export class AuthEventEntity extends IndexedEntity<AuthEvent> {
+  static readonly entityName = "auth_event";
+  static readonly indexName = "auth_events";
+  static readonly initialState: AuthEvent = {
+    id: "",
+    type: "login_failure",
+    timestamp: 0,
+  };
+  /** Ids sort newest-first in the index because the timestamp is inverted. */
+  static newId(timestamp: number): string {
+    return `${(9_999_999_999_999 - timestamp).toString().padStart(13, '0')}-${crypto.randomUUID().slice(0, 8)}`;
+  }
+}
 // SUPPLIER ENTITY
 export class SupplierEntity extends IndexedEntity<Supplier> {
   static readonly entityName = "supplier";
@@ -24,6 +183,70 @@ export class SupplierEntity extends IndexedEntity<Supplier> {
   };
   static seedData = MOCK_SUPPLIERS;
 }
+// MATERIAL CATALOGUE
+export class MaterialEntity extends IndexedEntity<Material> {
+  static readonly entityName = "material";
+  static readonly indexName = "materials";
+  static readonly initialState: Material = {
+    id: "",
+    code: "",
+    name: "",
+    epr_stream: "Other",
+    is_weee: false,
+    default_unit: "kg",
+    active: true,
+    created_at: 0,
+    updated_at: 0,
+  };
+  static seedData = MOCK_MATERIALS;
+}
+// PRICE LIST RULES (append-only; ending a rule only sets effective_to)
+export class PriceRuleEntity extends IndexedEntity<PriceRule> {
+  static readonly entityName = "price_rule";
+  static readonly indexName = "price_rules";
+  static readonly initialState: PriceRule = {
+    id: "",
+    material_id: "",
+    price_per_kg: 0,
+    effective_from: 0,
+    created_by: "",
+    created_by_username: "",
+    created_at: 0,
+  };
+}
+// APPROVED PRICE OVERRIDES (audit trail)
+export class PriceOverrideEntity extends IndexedEntity<PriceOverride> {
+  static readonly entityName = "price_override";
+  static readonly indexName = "price_overrides";
+  static readonly initialState: PriceOverride = {
+    id: "",
+    material_id: "",
+    supplier_id: "",
+    weight_kg: 0,
+    computed_amount: 0,
+    override_amount: 0,
+    reason: "",
+    requested_by: "",
+    approved_by: "",
+    approved_by_username: "",
+    created_at: 0,
+  };
+}
+// EPR TARIFF SCHEDULE
+export class EprTariffEntity extends IndexedEntity<EprTariff> {
+  static readonly entityName = "epr_tariff";
+  static readonly indexName = "epr_tariffs";
+  static readonly initialState: EprTariff = {
+    id: "",
+    epr_stream: "Other",
+    rate_per_kg: 0,
+    effective_from: 0,
+    created_by: "",
+    created_by_username: "",
+    created_at: 0,
+  };
+  static seedData = MOCK_EPR_TARIFFS;
+}
 // INVENTORY LEDGER ENTITY
 export class InventoryLedgerEntity extends IndexedEntity<InventoryLedgerEntry> {
   static readonly entityName = "inventory_ledger";
@@ -69,4 +292,44 @@ export class UserEntity extends IndexedEntity<User> {
     created_at: 0,
   };
   static seedData = MOCK_USERS;
+  /** Resolves a user through the username index; see backfillUsernameIndex for records that predate it. */
+  static async findByUsername(env: Env, username: string): Promise<User | null> {
+    const key = username.trim().toLowerCase();
+    if (!key) return null;
+    const ref = await new UsernameEntity(env, key).getState();
+    if (!ref.userId) return null;
+    const user = await new UserEntity(env, ref.userId).getState();
+    return user.id && user.username.toLowerCase() === key ? user : null;
+  }
+  /** Indexes every user by username: seeded users and those created before the index existed. */
+  static async backfillUsernameIndex(env: Env): Promise<void> {
+    let cursor: string | null = null;
+    do {
+      const page: { items: User[]; next: string | null } = await UserEntity.list(env, cursor, 500);
+      await Promise.all(page.items.filter(u => u.id).map(u => UserEntity.indexUsername(env, u)));
+      cursor = page.next;
+    } while (cursor);
+  }
+  /** Reserves a username for `user` unless another user holds it; the check and the write are one step. */
+  static async claimUsername(env: Env, user: Pick<User, 'id' | 'username'>): Promise<boolean> {
+    const key = user.username.toLowerCase();
+    let claimed = false;
+    await new UsernameEntity(env, key).mutate(curr => {
+      if (curr.userId && curr.userId !== user.id) return curr;
+      claimed = true;
+      return { id: key, userId: user.id };
+    });
+    return claimed;
+  }
+  static async indexUsername(env: Env, user: Pick<User, 'id' | 'username'>): Promise<void> {
+    await new UsernameEntity(env, user.username.toLowerCase()).save({ id: user.username.toLowerCase(), userId: user.id });
+  }
+  static async unindexUsername(env: Env, username: string): Promise<void> {
+    await new UsernameEntity(env, username.toLowerCase()).delete();
+  }
+}
+// USERNAME -> USER ID LOOKUP (keyed by lower-cased username)
+export class UsernameEntity extends Entity<{ id: string; userId: string }> {
+  static readonly entityName = "username";
+  static readonly initialState = { id: "", userId: "" };
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * Server-side EPR fee computation. The POS shows an estimate from its cached tariffs; the fees stored
+ * on a Transaction are always recomputed here from the tariff schedule and recorded with their basis.
+ */
+import type { EprFeeBasis, EprTariff, EprTariffPreview, Material, Transaction } from "@shared/types";
+import type { Env } from "./core-utils";
+import { EprTariffEntity, InventoryLedgerEntity, MaterialEntity } from "./entities";
+import { eprFeeBasis } from "@shared/epr";
+import { materialResolver } from "@shared/materials";
+import { roundMoney, transactionLines, withTicketTotals } from "@shared/tickets";
+export interface EprContext {
+  tariffs: EprTariff[];
+  materialOf: ReturnType<typeof materialResolver>;
+}
+/** Loads the tariff schedule and catalogue once per request; the default schedule is seeded on first use. */
+export async function loadEprContext(env: Env): Promise<EprContext> {
+  await EprTariffEntity.ensureSeed(env);
+  const [tariffs, materials] = await Promise.all([
+    EprTariffEntity.list(env, null, 5000),
+    MaterialEntity.list(env, null, 1000),
+  ]);
+  return { tariffs: tariffs.items, materialOf: materialResolver(materials.items) };
+}
+type FeeLine = { ledger_entry_id: string; weight_kg: number; material?: Material };
+/** Resolves material and weight for each line; single-entry transactions read them from their ledger entry. */
+async function feeLines(env: Env, ctx: EprContext, t: Transaction): Promise<FeeLine[] | null> {
+  if (t.lines?.length) {
+    return t.lines.map(l => ({ ledger_entry_id: l.ledger_entry_id, weight_kg: l.weight_kg, material: ctx.materialOf(l) }));
+  }
+  const inst = new InventoryLedgerEntity(env, t.ledger_entry_id);
+  if (!t.ledger_entry_id || !(await inst.exists())) return null;
+  const entry = await inst.getState();
+  return [{ ledger_entry_id: entry.id, weight_kg: entry.weight_kg, material: ctx.materialOf(entry) }];
+}
+const basisFor = (ctx: EprContext, lines: FeeLine[], at: number, tariffs = ctx.tariffs): EprFeeBasis[] =>
+  lines.map(l => eprFeeBasis(tariffs, l, at));
+/**
+ * Replaces the client's fee estimate with the tariff in force at the transaction time and records the
+ * basis. A single-entry transaction whose ledger entry is unknown keeps its fee and gets no basis.
+ */
+export async function withEprFees(env: Env, ctx: EprContext, t: Transaction): Promise<Transaction> {
+  const lines = await feeLines(env, ctx, t);
+  if (!lines) return t;
+  const epr_basis = basisFor(ctx, lines, t.transaction_timestamp);
+  if (t.lines?.length) {
+    return withTicketTotals({ ...t, lines: t.lines.map((l, i) => ({ ...l, epr_fee: epr_basis[i].fee })), epr_basis });
+  }
+  return { ...t, epr_fee: epr_basis[0].fee, epr_basis };
+}
+/**
+ * What the stored fees of the lines `proposed` would price would become, had it been in force from its
+ * effective date. Nothing is written: recorded fees keep the basis they were computed with.
+ */
+export async function previewEprTariff(env: Env, ctx: EprContext, proposed: EprTariff, transactions: Transaction[]): Promise<EprTariffPreview> {
+  const tariffs = [...ctx.tariffs, proposed];
+  const preview: EprTariffPreview = { transactions: 0, lines_affected: 0, current_fees: 0, recalculated_fees: 0, by_stream: {} };
+  for (const t of transactions) {
+    if (t.transaction_timestamp < proposed.effective_from) continue;
+    const lines = await feeLines(env, ctx, t);
+    if (!lines) continue;
+    const current = transactionLines(t);
+    const next = basisFor(ctx, lines, t.transaction_timestamp, tariffs);
+    const affected = next.map((b, i) => ({ b, before: current[i]?.epr_fee ?? 0 })).filter(({ b }) => b.tariff_id === proposed.id);
+    if (affected.length === 0) continue;
+    preview.transactions += 1;
+    preview.lines_affected += affected.length;
+    for (const { b, before } of affected) {
+      const stream = (preview.by_stream[b.epr_stream] ??= { current: 0, recalculated: 0 });
+      stream.current = roundMoney(stream.current + before);
+      stream.recalculated = roundMoney(stream.recalculated + b.fee);
+      preview.current_fees = roundMoney(preview.current_fees + before);
+      preview.recalculated_fees = roundMoney(preview.recalculated_fees + b.fee);
+    }
+  }
+  return preview;
+}
@@ -0,0 +1,137 @@
+/**
+ * Tamper-evident chaining for the inventory ledger. Every entry stores a sequence number and a
+ * SHA-256 over its canonical content plus the previous entry's hash, so editing, deleting or
+ * reordering any stored entry breaks the chain from that point on.
+ */
+import type { InventoryLedgerEntry, LedgerVerification, LedgerCorrection } from "@shared/types";
+import type { Env } from "./core-utils";
+import { InventoryLedgerEntity, LedgerChainEntity } from "./entities";
+import { sha256 } from "./security";
+import { netWeight } from "@shared/weighing";
+export const LEDGER_GENESIS_HASH = LedgerChainEntity.initialState.head_hash;
+const MAX_APPEND_ATTEMPTS = 8;
+// Sync status may legitimately change after capture; entry_hash is the output, not an input.
+const UNHASHED_FIELDS = new Set<string>(['entry_hash', 'is_synced']);
+/** JSON with sorted keys and undefined fields dropped, so the same entry always hashes the same way. */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj).filter(k => obj[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+export const hashLedgerEntry = (entry: InventoryLedgerEntry): Promise<string> =>
+  sha256(canonicalJson(Object.fromEntries(Object.entries(entry).filter(([k]) => !UNHASHED_FIELDS.has(k)))));
+/** When gross and tare are both recorded the net is always derived, never trusted from the client. */
+export const withNetWeight = (entry: InventoryLedgerEntry): InventoryLedgerEntry =>
+  entry.gross_kg !== undefined && entry.tare_kg !== undefined ? { ...entry, weight_kg: netWeight(entry.gross_kg, entry.tare_kg) } : entry;
+/**
+ * Stores the entry the head was advanced for and clears it from the head. Storing is idempotent, so
+ * whichever request gets here first finishes an append that died between the two writes.
+ */
+async function storePending(chain: LedgerChainEntity, env: Env, pending: InventoryLedgerEntry): Promise<InventoryLedgerEntry> {
+  const stored = await InventoryLedgerEntity.create(env, pending);
+  await chain.mutate(curr => curr.pending?.entry_hash === pending.entry_hash ? { ...curr, pending: undefined } : curr);
+  return stored;
+}
+/** Completes an append left half-done by a failed request, so the head never points past the stored chain. */
+export async function finishPendingAppend(env: Env): Promise<void> {
+  const chain = new LedgerChainEntity(env, 'global');
+  const { pending } = await chain.getState();
+  if (pending) await storePending(chain, env, pending);
+}
+/**
+ * Links `entry` to the current chain head and stores it. The head only advances if nobody else
+ * appended in between; otherwise the entry is re-sealed against the new head. The sealed entry rides
+ * along in the head until it is stored, and no new link is made while one is outstanding.
+ */
+export async function appendLedgerEntry(env: Env, entry: InventoryLedgerEntry): Promise<InventoryLedgerEntry> {
+  const chain = new LedgerChainEntity(env, 'global');
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    const head = await chain.getState();
+    if (head.pending) {
+      const stored = await storePending(chain, env, head.pending);
+      // A retry of the append that left it behind: the entry is on the chain now.
+      if (stored.id === entry.id) return stored;
+      continue;
+    }
+    const sealed: InventoryLedgerEntry = { ...withNetWeight(entry), sequence: head.sequence + 1, prev_hash: head.head_hash, entry_hash: undefined };
+    const entry_hash = await hashLedgerEntry(sealed);
+    const pending = { ...sealed, entry_hash };
+    let won = false;
+    await chain.mutate(curr => {
+      if (curr.sequence !== head.sequence || curr.pending) return curr;
+      won = true;
+      return { ...curr, sequence: head.sequence + 1, head_hash: entry_hash, pending, updated_at: Date.now() };
+    });
+    if (won) return storePending(chain, env, pending);
+  }
+  throw new Error('Ledger is busy, please retry');
+}
+export async function listAllLedgerEntries(env: Env): Promise<InventoryLedgerEntry[]> {
+  const entries: InventoryLedgerEntry[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: { items: InventoryLedgerEntry[]; next: string | null } = await InventoryLedgerEntity.list(env, cursor, 500);
+    entries.push(...page.items.filter(e => e.id));
+    cursor = page.next;
+  } while (cursor);
+  return entries;
+}
+/** Walks the chain from genesis and reports the first broken link, if any. */
+export async function verifyLedgerChain(env: Env): Promise<LedgerVerification> {
+  await finishPendingAppend(env);
+  const [entries, head] = await Promise.all([listAllLedgerEntries(env), new LedgerChainEntity(env, 'global').getState()]);
+  const chained = entries.filter(e => typeof e.sequence === 'number').sort((a, b) => a.sequence! - b.sequence!);
+  const result: LedgerVerification = { valid: true, checked: 0, unchained: entries.length - chained.length, head_sequence: head.sequence, verified_at: Date.now() };
+  const fail = (first_break: NonNullable<LedgerVerification['first_break']>): LedgerVerification => ({ ...result, valid: false, first_break });
+  let prevHash = LEDGER_GENESIS_HASH;
+  for (const entry of chained) {
+    const expected = result.checked + 1;
+    if (entry.sequence! < expected) return fail({ sequence: entry.sequence!, entry_id: entry.id, reason: 'duplicate_sequence' });
+    if (entry.sequence! > expected) return fail({ sequence: expected, reason: 'missing_entry' });
+    if (entry.prev_hash !== prevHash) return fail({ sequence: expected, entry_id: entry.id, reason: 'broken_link' });
+    if ((await hashLedgerEntry(entry)) !== entry.entry_hash) return fail({ sequence: expected, entry_id: entry.id, reason: 'content_modified' });
+    prevHash = entry.entry_hash!;
+    result.checked = expected;
+  }
+  // Entries removed from the end of the chain leave the head pointing past the last stored entry.
+  if (result.checked !== head.sequence || prevHash !== head.head_hash) return fail({ sequence: result.checked + 1, reason: 'missing_entry' });
+  return result;
+}
+/**
+ * Applies an approved correction: a reversal that cancels the original's weight, then the
+ * replacement with the corrected values. Both link back to the original, which stays untouched.
+ */
+export async function appendCorrectionEntries(env: Env, original: InventoryLedgerEntry, correction: LedgerCorrection, approverId: string): Promise<{ reversal: InventoryLedgerEntry; replacement: InventoryLedgerEntry }> {
+  const now = Date.now();
+  const link = { corrects_entry_id: original.id, correction_id: correction.id, is_synced: true, created_at: now, capture_timestamp: now };
+  const reversal = await appendLedgerEntry(env, {
+    ...link,
+    id: crypto.randomUUID(),
+    entry_type: 'reversal',
+    supplier_id: original.supplier_id,
+    material_id: original.material_id,
+    material_type: original.material_type,
+    weight_kg: -original.weight_kg,
+    operator_id: approverId,
+    notes: `Reversal of ${original.id}: ${correction.reason}`,
+  });
+  const replacement = await appendLedgerEntry(env, {
+    ...link,
+    id: crypto.randomUUID(),
+    entry_type: 'correction',
+    supplier_id: correction.proposed.supplier_id,
+    material_id: correction.proposed.material_id,
+    material_type: correction.proposed.material_type,
+    weight_kg: correction.proposed.weight_kg,
+    operator_id: original.operator_id,
+    device_id: original.device_id,
+    scale_id: original.scale_id,
+    photo_attachment_key: original.photo_attachment_key,
+    notes: correction.proposed.notes,
+  });
+  return { reversal, replacement };
+}
@@ -0,0 +1,58 @@
+/**
+ * Server-side price check. The POS prices each line from its cached price list; a line is only recorded
+ * when its amount is what the list gave at capture time, or what a manager approved for that exact load.
+ */
+import type { InventoryLedgerEntry, PriceRule, Supplier, Transaction } from "@shared/types";
+import type { Env } from "./core-utils";
+import { InventoryLedgerEntity, PriceOverrideEntity, PriceRuleEntity, SupplierEntity } from "./entities";
+import type { EprContext } from "./epr";
+import { lineAmount, resolvePriceRule } from "@shared/pricing";
+import { roundMoney } from "@shared/tickets";
+import { roundWeight } from "@shared/weighing";
+export interface PricingContext {
+  rules: PriceRule[];
+  suppliers: Map<string, Supplier>;
+}
+/** Loads the price list and supplier tiers once per request. */
+export async function loadPricingContext(env: Env): Promise<PricingContext> {
+  const [rules, suppliers] = await Promise.all([
+    PriceRuleEntity.list(env, null, 5000),
+    SupplierEntity.list(env, null, 1000),
+  ]);
+  return { rules: rules.items, suppliers: new Map(suppliers.items.map(s => [s.id, s])) };
+}
+type PricedLine = { entry: InventoryLedgerEntry; weight_kg: number; material_id?: string; amount: number; price_override_id?: string };
+/** Pairs each line with its ledger entry; a single-entry transaction is one line for its whole amount. */
+async function pricedLines(env: Env, t: Transaction): Promise<PricedLine[]> {
+  const entryOf = (id: string) => new InventoryLedgerEntity(env, id).getState();
+  if (t.lines?.length) return Promise.all(t.lines.map(async l => ({ ...l, entry: await entryOf(l.ledger_entry_id) })));
+  const entry = await entryOf(t.ledger_entry_id);
+  return [{ entry, weight_kg: entry.weight_kg, amount: t.amount }];
+}
+/**
+ * Returns why a transaction's amounts cannot be accepted, or null when every line is priced correctly.
+ * Supplier, material, weight and capture time come from the ledger entries, which must all be stored.
+ */
+export async function transactionPriceError(env: Env, ctx: PricingContext & Pick<EprContext, 'materialOf'>, t: Transaction): Promise<string | null> {
+  for (const l of await pricedLines(env, t)) {
+    const { entry } = l;
+    const weight = entry.weight_kg;
+    const materialId = ctx.materialOf(entry)?.id ?? entry.material_id;
+    if (roundWeight(l.weight_kg) !== roundWeight(weight)) return `Line weight differs from ledger entry ${entry.id}`;
+    if (l.material_id && l.material_id !== materialId) return `Line material differs from ledger entry ${entry.id}`;
+    if (l.price_override_id) {
+      const inst = new PriceOverrideEntity(env, l.price_override_id);
+      if (!(await inst.exists())) return `Price override ${l.price_override_id} was not found`;
+      const o = await inst.getState();
+      if (o.material_id !== materialId || o.supplier_id !== entry.supplier_id || o.weight_kg !== roundWeight(weight) || o.override_amount !== roundMoney(l.amount)) {
+        return `${entry.material_type}: the amount does not match the approved override for this load`;
+      }
+      continue;
+    }
+    const rule = materialId ? resolvePriceRule(ctx.rules, { material_id: materialId, supplier: ctx.suppliers.get(entry.supplier_id), weight_kg: weight, at: entry.capture_timestamp }) : undefined;
+    if (!rule) return `${entry.material_type}: no price applies at ${weight.toFixed(2)} kg without an approved override`;
+    const expected = lineAmount(rule.price_per_kg, weight);
+    if (roundMoney(l.amount) !== expected) return `${entry.material_type}: ${l.amount.toFixed(2)} differs from the price list amount of ${expected.toFixed(2)}`;
+  }
+  return null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Pull side of offline sync: the reference data a POS needs to capture and price without network,
+ * served as deltas against the cursor the terminal got from its previous pull.
+ */
+import type { OperatorProfile, ReferenceDelta, ReferencePull, User } from "@shared/types";
+import type { Env } from "./core-utils";
+import { EprTariffEntity, MaterialEntity, PriceRuleEntity, SupplierEntity, TarePresetEntity, UserEntity } from "./entities";
+// Writes that land while a pull is listing can carry a timestamp just below its cursor; re-sending
+// that window every time is cheap because the terminal upserts by id.
+const CURSOR_OVERLAP_MS = 5 * 60_000;
+const delta = <T extends { id: string }>(items: T[], changedAt: (item: T) => number, since: number | undefined): ReferenceDelta<T> => {
+  const live = items.filter(i => i.id);
+  return {
+    changed: since === undefined ? live : live.filter(i => changedAt(i) > since - CURSOR_OVERLAP_MS),
+    ids: live.map(i => i.id),
+  };
+};
+/** `offlinePin` picks the operators whose PIN hash the terminal may hold to switch operator without network. */
+export async function pullReferenceData(env: Env, since: number | undefined, offlinePin: (user: User) => boolean): Promise<ReferencePull> {
+  const cursor = Date.now();
+  await Promise.all([MaterialEntity.ensureSeed(env), EprTariffEntity.ensureSeed(env)]);
+  const [suppliers, materials, rules, tariffs, presets, users] = await Promise.all([
+    SupplierEntity.list(env, null, 1000),
+    MaterialEntity.list(env, null, 1000),
+    PriceRuleEntity.list(env, null, 5000),
+    EprTariffEntity.list(env, null, 5000),
+    TarePresetEntity.list(env, null, 1000),
+    UserEntity.list(env, null, 1000),
+  ]);
+  // PIN changes are not timestamped on the user, and the roster is small, so it is always sent whole;
+  // a changed, cleared or locked PIN reaches the terminal with its next pull.
+  const operators: OperatorProfile[] = users.items
+    .filter(u => u.id && u.active && u.pin_hash)
+    .map(u => ({
+      id: u.id,
+      username: u.username,
+      role: u.role,
+      features: u.features,
+      active: u.active,
+      created_at: u.created_at,
+      ...(offlinePin(u) ? { pin_hash: u.pin_hash, pin_locked_until: u.pin_locked_until } : {}),
+    }));
+  return {
+    cursor,
+    full: since === undefined,
+    suppliers: delta(suppliers.items, s => s.updated_at, since),
+    materials: delta(materials.items, m => m.updated_at, since),
+    price_rules: delta(rules.items, r => r.updated_at ?? r.created_at, since),
+    epr_tariffs: delta(tariffs.items, t => t.updated_at ?? t.created_at, since),
+    tare_presets: delta(presets.items.filter(p => p.reference), p => p.updated_at, since),
+    operators,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Credential helpers built on WebCrypto (available natively in the Workers runtime).
+ * Password hashes are stored as `pbkdf2$<iterations>$<salt b64>$<hash b64>` so the
+ * parameters travel with the record and can be raised later without a migration.
+ */
+const PBKDF2_PREFIX = 'pbkdf2';
+// Workers caps PBKDF2 at 100k iterations.
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const encoder = new TextEncoder();
+export const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+export const fromBase64 = (b64: string): Uint8Array => Uint8Array.from(atob(b64), ch => ch.charCodeAt(0));
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+/** Compares two byte arrays without short-circuiting on the first mismatch. */
+export const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+const derive = async (secret: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+export const isHashedPassword = (stored: string): boolean => stored.startsWith(`${PBKDF2_PREFIX}$`);
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return [PBKDF2_PREFIX, PBKDF2_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+/**
+ * Verifies a password against a stored value. Legacy records that still hold the
+ * plaintext secret are accepted so they can be upgraded on the next successful login;
+ * callers should check `needsRehash` and persist a fresh hash.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!stored) return { valid: false, needsRehash: false };
+  if (!isHashedPassword(stored)) {
+    const valid = timingSafeEqual(encoder.encode(password), encoder.encode(stored));
+    return { valid, needsRehash: valid };
+  }
+  const [, iterationsRaw, saltB64, hashB64] = stored.split('$');
+  const iterations = Number(iterationsRaw);
+  if (!Number.isFinite(iterations) || !saltB64 || !hashB64) return { valid: false, needsRehash: false };
+  const expected = fromBase64(hashB64);
+  const actual = await derive(password, fromBase64(saltB64), iterations);
+  const valid = timingSafeEqual(actual, expected);
+  return { valid, needsRehash: valid && iterations < PBKDF2_ITERATIONS };
+}
+// --- TOTP (RFC 6238) ---
+// Standard authenticator-app parameters: SHA-1, 6 digits, 30 second steps.
+export const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+export const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+};
+export const base32Decode = (input: string): Uint8Array => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const out: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+};
+export const generateTotpSecret = (): string => base32Encode(randomBytes(TOTP_SECRET_BYTES));
+export const totpCounter = (now = Date.now()): number => Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+/** HOTP (RFC 4226) value for a counter; TOTP is HOTP over the current time step. */
+export async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const msg = new DataView(new ArrayBuffer(8));
+  msg.setUint32(0, Math.floor(counter / 2 ** 32));
+  msg.setUint32(4, counter >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, msg.buffer));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+/**
+ * Checks a code against the current step and one step either side to absorb clock drift.
+ * Returns the matched counter so callers can refuse to accept the same code twice, or null.
+ */
+export async function verifyTotp(secret: string, code: string, now = Date.now(), window = 1): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+  const current = totpCounter(now);
+  for (let step = -window; step <= window; step++) {
+    const candidate = await hotp(secret, current + step);
+    if (timingSafeEqual(encoder.encode(candidate), encoder.encode(code))) return current + step;
+  }
+  return null;
+}
+export const totpProvisioningUri = (secret: string, account: string, issuer: string): string =>
+  `otpauth://totp/${encodeURIComponent(`${issuer}:${account}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+// --- Recovery codes ---
+// Codes are random and single-use, so a plain SHA-256 digest is sufficient (no PBKDF2 stretching needed).
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+export async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return toBase64(new Uint8Array(digest));
+}
+export const hashRecoveryCode = (code: string): Promise<string> => sha256(normalizeRecoveryCode(code));
+/** Returns fresh codes formatted as XXXXX-XXXXX for display, plus their hashes for storage. */
+export async function generateRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(randomBytes(10), b => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+  return { codes, hashes: await Promise.all(codes.map(hashRecoveryCode)) };
+}
+// --- API keys ---
+// Tokens look like `swk_<id>_<secret>`. The id locates the record; only the SHA-256 of the full
+// token is stored, which is enough because the secret carries 192 bits of randomness.
+export const API_KEY_PREFIX = 'swk_';
+const API_KEY_TOKEN_REGEX = /^swk_([a-f0-9]{12})_([A-Za-z0-9_-]{32})$/;
+const toBase64Url = (bytes: Uint8Array): string => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+export function generateApiKeyToken(): { id: string; token: string } {
+  const id = Array.from(randomBytes(6), b => b.toString(16).padStart(2, '0')).join('');
+  return { id, token: `${API_KEY_PREFIX}${id}_${toBase64Url(randomBytes(24))}` };
+}
+/** Returns the key id embedded in a well-formed token, or null. */
+export const parseApiKeyToken = (token: string): string | null => API_KEY_TOKEN_REGEX.exec(token)?.[1] ?? null;
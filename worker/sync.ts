@@ -0,0 +1,169 @@
+/**
+ * Idempotent intake for items queued offline. A terminal may post the same item more than once (its own
+ * retries plus the service worker's background replay), so every item is claimed under its id before it
+ * is written, and each one gets its own result instead of the batch succeeding or failing as a whole.
+ */
+import type { InventoryLedgerEntry, SyncEnvelope, SyncEnvelopeResponse, SyncItemKind, SyncItemResult, Transaction } from "@shared/types";
+import type { Env } from "./core-utils";
+import { InventoryLedgerEntity, SyncReceiptEntity, TransactionEntity } from "./entities";
+import { appendLedgerEntry, canonicalJson, withNetWeight } from "./ledger";
+import { loadEprContext, withEprFees, type EprContext } from "./epr";
+import { loadPricingContext, transactionPriceError, type PricingContext } from "./pricing";
+import { sha256 } from "./security";
+import { withTicketTotals } from "@shared/tickets";
+import { stabilityEvidenceError } from "@shared/weighing";
+// A claim older than this belongs to a request that died midway, so a replay may take it over.
+const STALE_CLAIM_MS = 60_000;
+// Written or rewritten by the server; a replay differing only in these is still the same item.
+const SERVER_FIELDS = new Set<string>(['is_synced', 'sequence', 'prev_hash', 'entry_hash', 'entry_type', 'corrects_entry_id', 'correction_id', 'epr_basis']);
+const payloadDigest = (item: object): Promise<string> =>
+  sha256(canonicalJson(Object.fromEntries(Object.entries(item).filter(([k]) => !SERVER_FIELDS.has(k)))));
+const isText = (v: unknown, max = 200): v is string => typeof v === 'string' && v.trim().length > 0 && v.length <= max;
+const isAmount = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+const isPositive = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v > 0;
+/** Returns why an offline ledger entry cannot be recorded, or null when it can. */
+export function validateLedgerItem(e: InventoryLedgerEntry): string | null {
+  if (!isText(e.id, 64)) return 'Missing or invalid id';
+  if (!isText(e.supplier_id)) return 'Supplier is required';
+  if (!isText(e.material_type)) return 'Material is required';
+  if (!isPositive(e.capture_timestamp)) return 'Invalid capture time';
+  if ((e.gross_kg !== undefined || e.tare_kg !== undefined) && !(isAmount(e.gross_kg) && isAmount(e.tare_kg))) return 'Gross and tare must be recorded together';
+  if (!isPositive(withNetWeight(e).weight_kg)) return e.gross_kg !== undefined ? 'Tare must be less than the gross weight' : 'Weight must be greater than zero';
+  return stabilityEvidenceError(e.stability);
+}
+/** Returns why an offline transaction cannot be recorded, or null when it can. */
+export function validateTransactionItem(t: Transaction): string | null {
+  if (!isText(t.id, 64)) return 'Missing or invalid id';
+  if (!isText(t.ledger_entry_id, 64)) return 'Ledger entry is required';
+  if (!isAmount(t.amount)) return 'Invalid amount';
+  if (!isPositive(t.transaction_timestamp)) return 'Invalid transaction time';
+  if (t.lines === undefined) return null;
+  if (!Array.isArray(t.lines) || t.lines.length === 0) return 'A ticket needs at least one line';
+  const seen = new Set<string>();
+  for (const l of t.lines) {
+    if (!isText(l.ledger_entry_id, 64) || seen.has(l.ledger_entry_id)) return 'Every line needs its own ledger entry';
+    if (!isPositive(l.weight_kg)) return 'Line weights must be greater than zero';
+    if (!isAmount(l.amount)) return 'Invalid line amount';
+    seen.add(l.ledger_entry_id);
+  }
+  return null;
+}
+type Claim = 'claimed' | 'duplicate' | 'conflict' | 'busy';
+/**
+ * Records one item at most once. `exists` covers items stored before receipts were kept, and requests
+ * that wrote the item but died before finishing the receipt; `write` only runs under a live claim.
+ */
+async function intake(env: Env, kind: SyncItemKind, item: { id: string }, exists: () => Promise<boolean>, write: () => Promise<unknown>): Promise<SyncItemResult> {
+  const digest = await payloadDigest(item);
+  const receipt = new SyncReceiptEntity(env, `${kind}:${item.id}`);
+  const now = Date.now();
+  let claim = 'busy' as Claim;
+  await receipt.mutate(curr => {
+    if (curr.digest && curr.digest !== digest) claim = 'conflict';
+    else if (curr.digest && curr.status === 'done') claim = 'duplicate';
+    else if (curr.digest && now - curr.updated_at < STALE_CLAIM_MS) claim = 'busy';
+    else {
+      claim = 'claimed';
+      return { id: `${kind}:${item.id}`, digest, status: 'pending', updated_at: now };
+    }
+    return curr;
+  });
+  if (claim === 'conflict') return { id: item.id, status: 'rejected', reason: `A different ${kind === 'ledger' ? 'ledger entry' : 'transaction'} was already recorded with this id` };
+  if (claim === 'duplicate') return { id: item.id, status: 'duplicate' };
+  if (claim === 'busy') return { id: item.id, status: 'rejected', reason: 'Already being recorded by another request', retryable: true };
+  let existed: boolean;
+  try {
+    existed = await exists();
+    if (!existed) await write();
+  } catch (err) {
+    // Nothing was stored, so release the id for the next attempt.
+    await receipt.delete();
+    return { id: item.id, status: 'rejected', reason: err instanceof Error ? err.message : 'Could not be recorded', retryable: true };
+  }
+  await receipt.mutate(curr => ({ ...curr, status: 'done', updated_at: Date.now() }));
+  return { id: item.id, status: existed ? 'duplicate' : 'accepted' };
+}
+const malformed = (raw: unknown): SyncItemResult => ({
+  id: raw && typeof raw === 'object' && typeof (raw as { id?: unknown }).id === 'string' ? (raw as { id: string }).id : '',
+  status: 'rejected',
+  reason: 'Malformed item',
+});
+/**
+ * Validates one ledger entry and appends it under a claim on its id, so concurrent posts of the same id
+ * record it once. Chain and correction fields must already be stripped; the server assigns them.
+ */
+export async function recordLedgerEntry(env: Env, entry: InventoryLedgerEntry): Promise<SyncItemResult> {
+  const invalid = validateLedgerItem(entry);
+  if (invalid) return { id: typeof entry.id === 'string' ? entry.id : '', status: 'rejected', reason: invalid };
+  const inst = new InventoryLedgerEntity(env, entry.id);
+  return intake(env, 'ledger', entry, () => inst.exists(), () => appendLedgerEntry(env, { ...entry, is_synced: true }));
+}
+/** Appends each new entry to the ledger chain in the order posted; sequential because the chain is. */
+export async function syncLedgerEntries(env: Env, entries: InventoryLedgerEntry[]): Promise<SyncItemResult[]> {
+  const results: SyncItemResult[] = [];
+  for (const raw of entries) {
+    if (!raw || typeof raw !== 'object') {
+      results.push(malformed(raw));
+      continue;
+    }
+    // Chain and correction fields are only ever assigned by the server.
+    const { sequence, prev_hash, entry_hash, entry_type, corrects_entry_id, correction_id, ...entry } = raw;
+    results.push(await recordLedgerEntry(env, entry));
+  }
+  return results;
+}
+/** What recording a transaction needs besides the transaction itself: fee tariffs and the price list. */
+export type IntakeContext = EprContext & PricingContext;
+export async function loadIntakeContext(env: Env): Promise<IntakeContext> {
+  const [epr, pricing] = await Promise.all([loadEprContext(env), loadPricingContext(env)]);
+  return { ...epr, ...pricing };
+}
+/** Every ledger entry a transaction pays for. */
+const referencedEntries = (t: Transaction): string[] => [...new Set([t.ledger_entry_id, ...(t.lines ?? []).map(l => l.ledger_entry_id)])];
+/**
+ * Records each new transaction with its totals and EPR fees recomputed server-side and its line amounts
+ * checked against the price list. A transaction whose ledger entries are not all on the ledger yet is an
+ * orphan: it is turned away as retryable, since its entries may still be on their way.
+ */
+export async function syncTransactions(env: Env, ctx: IntakeContext, transactions: Transaction[]): Promise<SyncItemResult[]> {
+  const results: SyncItemResult[] = [];
+  for (const t of transactions) {
+    results.push(!t || typeof t !== 'object' ? malformed(t) : await recordTransaction(env, ctx, t));
+  }
+  return results;
+}
+/** One transaction through validation, the orphan and price checks and a claim on its id; see syncTransactions. */
+export async function recordTransaction(env: Env, ctx: IntakeContext, t: Transaction): Promise<SyncItemResult> {
+  const invalid = validateTransactionItem(t);
+  if (invalid) return { id: typeof t.id === 'string' ? t.id : '', status: 'rejected', reason: invalid };
+  const inst = new TransactionEntity(env, t.id);
+  const stored = await Promise.all(referencedEntries(t).map(async id => ({ id, exists: await new InventoryLedgerEntity(env, id).exists() })));
+  const missing = stored.find(r => !r.exists);
+  // A replay of a recorded transaction goes straight to the claim, which reports it as a duplicate.
+  if (!(await inst.exists())) {
+    if (missing) return { id: t.id, status: 'rejected', reason: `Ledger entry ${missing.id} has not been synced yet`, retryable: true };
+    const mispriced = await transactionPriceError(env, ctx, t);
+    if (mispriced) return { id: t.id, status: 'rejected', reason: mispriced };
+  }
+  return intake(env, 'transaction', t, () => inst.exists(), async () =>
+    TransactionEntity.create(env, await withEprFees(env, ctx, withTicketTotals({ ...t, is_synced: true }))));
+}
+/**
+ * Flushes a terminal's whole outbox in dependency order: ledger entries first, then the transactions that
+ * pay for them. Durable Objects give no cross-item transaction, so "atomic" here means a transaction is
+ * never recorded ahead of its entries; a transaction that depends on an entry rejected in the same
+ * envelope is rejected the same way (permanently or for retry) without being looked at further.
+ */
+export async function syncEnvelope(env: Env, envelope: Required<Pick<SyncEnvelope, 'ledger' | 'transactions'>>, loadCtx: () => Promise<IntakeContext>): Promise<SyncEnvelopeResponse> {
+  const ledger = await syncLedgerEntries(env, envelope.ledger);
+  const failed = new Map(ledger.filter(r => r.status === 'rejected').map(r => [r.id, r]));
+  const blocked: SyncItemResult[] = [];
+  const ready: Transaction[] = [];
+  for (const t of envelope.transactions) {
+    const dependency = t && typeof t === 'object' && validateTransactionItem(t) === null ? referencedEntries(t).map(id => failed.get(id)).find(Boolean) : undefined;
+    if (dependency) blocked.push({ id: t.id, status: 'rejected', reason: `Ledger entry ${dependency.id} was rejected: ${dependency.reason}`, retryable: dependency.retryable });
+    else ready.push(t);
+  }
+  const recorded = ready.length > 0 ? await syncTransactions(env, await loadCtx(), ready) : [];
+  return { ledger, transactions: [...blocked, ...recorded] };
+}
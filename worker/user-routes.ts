@@ -1,46 +1,232 @@
 import { Hono } from "hono";
 import type { Context, Next } from 'hono';
-import { SupplierEntity, InventoryLedgerEntity, TransactionEntity, UserEntity, SessionEntity } from "./entities";
+import { SupplierEntity, MaterialEntity, PriceRuleEntity, PriceOverrideEntity, EprTariffEntity, InventoryLedgerEntity, TransactionEntity, UserEntity, SessionEntity, SecurityPolicyEntity, LedgerCorrectionEntity, WeighingSessionEntity, TarePresetEntity, LoginThrottleEntity, AuthEventEntity, LoginChallengeEntity, ApiKeyEntity, DeviceEntity, MigrationEntity } from "./entities";
 import { ok, bad, notFound } from './core-utils';
-import type { InventoryLedgerEntry, Supplier, Transaction, User, ConfigUserUpdate, Session } from "@shared/types";
+import type { ApiResponse, InventoryLedgerEntry, Supplier, Transaction, User, ConfigUserUpdate, Session, SessionInfo, SecurityPolicy, ChangePasswordRequest, ResetPasswordRequest, PublicUser, PinLoginRequest, CreateUserRequest, AuthEvent, UserRole, TotpChallengeResponse, TotpLoginRequest, TotpSetupResponse, ApiKey, PublicApiKey, CreateApiKeyRequest, CreateApiKeyResponse, LedgerCorrection, LedgerCorrectionStatus, CreateLedgerCorrectionRequest, WeighingSession, WeighCapture, OpenWeighingSessionRequest, CompleteWeighingSessionRequest, TarePreset, Material, MaterialInput, PriceRule, CreatePriceRuleRequest, PriceOverride, CreatePriceOverrideRequest, SupplierTier, EprTariff, CreateEprTariffRequest, SyncResponse, SyncEnvelope, DeviceStatus, RegisterDeviceRequest, UpdateDeviceRequest } from "@shared/types";
+import { EPR_STREAMS, MAX_PIN_ATTEMPTS, PIN_LENGTH, PIN_LOCKOUT_MS, SUPPLIER_TIERS } from "@shared/types";
+import { netWeight, normalizeReference, roundWeight, stabilityEvidenceError } from "@shared/weighing";
+import { transactionLines } from "@shared/tickets";
+import { materialResolver, eprStreamOf, materialLabel } from "@shared/materials";
+import { hasPermission, API_KEY_SCOPES, type Permission } from "@shared/permissions";
 import { HTTPException } from "hono/http-exception";
+import { appendLedgerEntry, appendCorrectionEntries, verifyLedgerChain } from "./ledger";
+import { loadEprContext, previewEprTariff } from "./epr";
+import { loadIntakeContext, recordLedgerEntry, recordTransaction, syncEnvelope, syncLedgerEntries, syncTransactions } from "./sync";
+import { pullReferenceData } from "./reference";
+import { isApprovedDevice, parseDeviceName, recordDevicePull, recordDeviceSync } from "./devices";
+import { hashPassword, verifyPassword, generateTotpSecret, verifyTotp, totpProvisioningUri, generateRecoveryCodes, hashRecoveryCode, sha256, timingSafeEqual, fromBase64, generateApiKeyToken, parseApiKeyToken, API_KEY_PREFIX } from "./security";
 export interface Env {
   GlobalDurableObject: DurableObjectNamespace<any>;
 }
-export type HonoApp = Hono<{ Bindings: Env; Variables: { user?: User; sessionId?: string } }>;
-export type HonoContext = Context<{ Bindings: Env; Variables: { user?: User; sessionId?: string } }>;
+// A request is authenticated either as a person (user + sessionId) or as an integration (apiKey), never both.
+export type HonoApp = Hono<{ Bindings: Env; Variables: { user?: User; sessionId?: string; apiKey?: ApiKey } }>;
+export type HonoContext = Context<{ Bindings: Env; Variables: { user?: User; sessionId?: string; apiKey?: ApiKey } }>;
 const unauthorized = () => new HTTPException(401, { message: 'Unauthorized' });
 const forbidden = () => new HTTPException(403, { message: 'Forbidden' });
-const getEprStream = (materialType: string): string => {
-  const lowerMat = materialType.toLowerCase();
-  if (lowerMat.includes('plastic') || lowerMat.includes('pet')) return 'Plastic';
-  if (lowerMat.includes('paper') || lowerMat.includes('cardboard')) return 'Paper & Packaging';
-  if (lowerMat.includes('glass')) return 'Glass';
-  if (lowerMat.includes('copper') || lowerMat.includes('aluminum') || lowerMat.includes('steel') || lowerMat.includes('metal')) return 'Metals';
-  if (lowerMat.includes('electronic') || lowerMat.includes('weee') || lowerMat.includes('battery')) return 'Electrical & Electronic';
-  return 'Other';
+const MIN_PASSWORD_LENGTH = 6;
+const USER_ROLES: UserRole[] = ['operator', 'manager', 'admin', 'auditor'];
+const USERNAME_REGEX = /^[a-z0-9._-]{3,32}$/i;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Login throttling: failures beyond the free allowance lock the key with exponential backoff.
+// The per-IP allowance is higher because a whole yard usually sits behind one address.
+const USER_FREE_ATTEMPTS = 5;
+const IP_FREE_ATTEMPTS = 20;
+const isValidPin = (pin: unknown): pin is string => typeof pin === 'string' && new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+// Two-factor login: the password step hands out a short-lived challenge that the TOTP step redeems.
+const TOTP_ISSUER = 'SuiteWaste OS';
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_TOTP_ATTEMPTS = 5;
+const MAX_API_KEY_LIFETIME_DAYS = 3650;
+// Avoid a storage write on every request; lastSeenAt only needs minute-level precision.
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+const loadSecurityPolicy = (env: Env) => new SecurityPolicyEntity(env, 'global').getState();
+const describeSession = (session: Session, policy: SecurityPolicy): SessionInfo => ({
+  ...session,
+  idleExpiresAt: (session.lastSeenAt ?? session.createdAt) + policy.session_idle_timeout_min * 60 * 1000,
+  absoluteExpiresAt: session.createdAt + policy.session_absolute_timeout_hours * 60 * 60 * 1000,
+});
+const isSessionExpired = (info: SessionInfo, now = Date.now()) => now >= info.idleExpiresAt || now >= info.absoluteExpiresAt;
+const isTotpRequired = (user: Pick<User, 'role'>, policy: SecurityPolicy) => (policy.totp_required_roles ?? []).includes(user.role);
+// Pass the policy when the caller is the user themselves, so the UI can steer them into enrolment.
+const toPublicUser = (user: User, policy?: SecurityPolicy): PublicUser => {
+  const { password_hash, pin_hash, totp_secret, totp_pending_secret, totp_last_counter, recovery_code_hashes, ...rest } = user;
+  return {
+    ...rest,
+    has_pin: !!pin_hash,
+    recovery_codes_remaining: user.totp_enabled ? recovery_code_hashes?.length ?? 0 : undefined,
+    totp_enrollment_required: policy ? isTotpRequired(user, policy) && !user.totp_enabled : undefined,
+  };
+};
+/**
+ * Accepts either a current TOTP code or one of the user's unused recovery codes.
+ * The accepted time step is recorded (and recovery codes consumed) inside the mutation so a code works once.
+ */
+const verifySecondFactor = async (env: Env, user: User, { code, recoveryCode }: { code?: string; recoveryCode?: string }): Promise<'totp' | 'recovery' | null> => {
+  const inst = new UserEntity(env, user.id);
+  let accepted = false;
+  if (code && user.totp_secret) {
+    const counter = await verifyTotp(user.totp_secret, code.trim());
+    if (counter === null) return null;
+    await inst.mutate(curr => {
+      if (counter <= (curr.totp_last_counter ?? -1)) return curr;
+      accepted = true;
+      return { ...curr, totp_last_counter: counter };
+    });
+    return accepted ? 'totp' : null;
+  }
+  if (recoveryCode) {
+    const hash = await hashRecoveryCode(recoveryCode);
+    await inst.mutate(curr => {
+      if (!curr.recovery_code_hashes?.includes(hash)) return curr;
+      accepted = true;
+      return { ...curr, recovery_code_hashes: curr.recovery_code_hashes.filter(h => h !== hash) };
+    });
+    return accepted ? 'recovery' : null;
+  }
+  return null;
+};
+const isActiveAdmin = (u: Pick<User, 'role' | 'active'>) => u.role === 'admin' && u.active;
+// What a client may set when it posts a ledger entry or transaction directly; ids, times, sync state and
+// anything the chain or the fee calculation produces are the server's.
+const LEDGER_INPUT_FIELDS = ['id', 'supplier_id', 'material_id', 'material_type', 'weight_kg', 'gross_kg', 'tare_kg', 'tare_preset_id', 'ticket_id', 'operator_id', 'device_id', 'scale_id', 'stability', 'photo_attachment_key', 'notes'] as const satisfies readonly (keyof InventoryLedgerEntry)[];
+const TRANSACTION_INPUT_FIELDS = ['id', 'ledger_entry_id', 'lines', 'amount', 'epr_fee', 'payment_method', 'receipt_key'] as const satisfies readonly (keyof Transaction)[];
+const pickFields = <T extends object, K extends keyof T>(body: Partial<T>, fields: readonly K[]): Partial<Pick<T, K>> =>
+  Object.fromEntries(fields.filter(f => body[f] !== undefined).map(f => [f, body[f]])) as Partial<Pick<T, K>>;
+const sameFeatures = (a: string[] | undefined, b: string[] | undefined) => [...(a ?? [])].sort().join('\n') === [...(b ?? [])].sort().join('\n');
+/** Signs a user out everywhere, except for `keepSessionId` (the caller's own session on a self-service change). */
+const revokeUserSessions = async (env: Env, userId: string, keepSessionId?: string): Promise<number> => {
+  const sessions = await SessionEntity.list(env, null, 1000);
+  const ids = sessions.items.filter(s => s.userId === userId && s.id !== keepSessionId).map(s => s.id);
+  return SessionEntity.deleteMany(env, ids);
+};
+const toPublicApiKey = (key: ApiKey): PublicApiKey => {
+  const { key_hash, ...rest } = key;
+  return rest;
+};
+/** Resolves an `swk_` bearer token to a live API key, or null if it is unknown, revoked or expired. */
+const authenticateApiKey = async (env: Env, token: string, now: number): Promise<ApiKey | null> => {
+  const id = parseApiKeyToken(token);
+  if (!id) return null;
+  const key = await new ApiKeyEntity(env, id).getState();
+  if (!key.id || key.revoked_at || (key.expires_at && key.expires_at <= now)) return null;
+  return timingSafeEqual(fromBase64(await sha256(token)), fromBase64(key.key_hash)) ? key : null;
+};
+const clientIp = (c: HonoContext) => c.req.header('CF-Connecting-IP') || 'unknown';
+const loginThrottles = (c: HonoContext, username: string) => ({
+  user: new LoginThrottleEntity(c.env, `user:${username.trim().toLowerCase()}`),
+  ip: new LoginThrottleEntity(c.env, `ip:${clientIp(c)}`),
+});
+const lockedUntilFor = async (throttles: ReturnType<typeof loginThrottles>): Promise<number> => {
+  const [u, i] = await Promise.all([throttles.user.getState(), throttles.ip.getState()]);
+  return Math.max(u.lockedUntil, i.lockedUntil);
+};
+const tooManyAttempts = (c: HonoContext, lockedUntil: number) => {
+  const seconds = Math.ceil((lockedUntil - Date.now()) / 1000);
+  const wait = seconds >= 120 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+  c.header('Retry-After', String(seconds));
+  return c.json({ success: false, error: `Too many failed attempts. Try again in ${wait}.` } as ApiResponse, 429);
+};
+/** Appends to the auth audit trail. Logging must never turn a successful auth action into a failure. */
+const logAuthEvent = async (c: HonoContext, event: Omit<AuthEvent, 'id' | 'timestamp' | 'ip' | 'userAgent'>): Promise<void> => {
+  const timestamp = Date.now();
+  try {
+    await AuthEventEntity.create(c.env, {
+      ...event,
+      id: AuthEventEntity.newId(timestamp),
+      timestamp,
+      ip: clientIp(c),
+      userAgent: c.req.header('User-Agent')?.slice(0, 256),
+    });
+  } catch (e) {
+    console.error('[AUTH EVENT] Failed to record', event.type, e);
+  }
+};
+const startSession = async (c: HonoContext, user: User, deviceName?: string): Promise<string> => {
+  const sessionId = crypto.randomUUID();
+  const now = Date.now();
+  await SessionEntity.create(c.env, {
+    id: sessionId,
+    userId: user.id,
+    createdAt: now,
+    lastSeenAt: now,
+    userAgent: c.req.header('User-Agent')?.slice(0, 256),
+    ip: c.req.header('CF-Connecting-IP'),
+    deviceName: deviceName?.trim().slice(0, 64) || undefined,
+  });
+  return sessionId;
+};
+const MATERIAL_UNITS: readonly Material['default_unit'][] = ['kg', 'unit'];
+/** Validates a create/update body for the catalogue, returning an error message or the normalised fields. */
+const parseMaterialInput = (body: Partial<MaterialInput>, current?: Material): MaterialInput | string => {
+  const code = (body.code ?? current?.code ?? '').trim().toUpperCase();
+  const name = (body.name ?? current?.name ?? '').trim();
+  const epr_stream = body.epr_stream ?? current?.epr_stream;
+  const default_unit = body.default_unit ?? current?.default_unit ?? 'kg';
+  if (!code || code.length > 12) return 'Code is required (at most 12 characters)';
+  if (!name) return 'Name is required';
+  if (!epr_stream || !EPR_STREAMS.includes(epr_stream)) return 'A valid EPR stream is required';
+  if (!MATERIAL_UNITS.includes(default_unit)) return 'Unit must be kg or unit';
+  const grade = (body.grade ?? current?.grade)?.trim() || undefined;
+  const pro = (body.pro ?? current?.pro)?.trim() || undefined;
+  return { code, name, grade, epr_stream, pro, default_unit, is_weee: body.is_weee ?? current?.is_weee ?? false, active: body.active ?? current?.active ?? true };
 };
 export function userRoutes(app: HonoApp) {
+  // The base app maps every error to a 500; keep HTTPException status codes so clients can react to 401/403.
+  app.onError((err, c) => {
+    if (err instanceof HTTPException) return c.json({ success: false, error: err.message } as ApiResponse, err.status);
+    console.error(`[ERROR] ${err}`);
+    return c.json({ success: false, error: 'Internal Server Error' } as ApiResponse, 500);
+  });
   // --- AUTH MIDDLEWARE ---
   app.use('/api/*', async (c: HonoContext, next: Next) => {
     const path = c.req.path;
-    if (['/api/auth/init', '/api/auth/login', '/api/health'].some(p => path.startsWith(p))) {
+    if (['/api/auth/init', '/api/auth/login', '/api/auth/pin-login', '/api/health'].some(p => path.startsWith(p))) {
       return next();
     }
     const authHeader = c.req.header('Authorization');
     if (!authHeader || !authHeader.startsWith('Bearer ')) throw unauthorized();
     const token = authHeader.split(' ')[1];
-    const session = await new SessionEntity(c.env, token).getState();
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const now = Date.now();
+      const apiKey = await authenticateApiKey(c.env, token, now);
+      if (!apiKey) throw unauthorized();
+      if (now - (apiKey.last_used_at ?? 0) >= SESSION_TOUCH_INTERVAL_MS) {
+        await new ApiKeyEntity(c.env, apiKey.id).patch({ last_used_at: now, last_used_ip: clientIp(c) });
+      }
+      c.set('apiKey', apiKey);
+      return next();
+    }
+    const sessionInst = new SessionEntity(c.env, token);
+    const [session, policy] = await Promise.all([sessionInst.getState(), loadSecurityPolicy(c.env)]);
     if (!session || !session.userId) throw unauthorized();
+    const now = Date.now();
+    if (isSessionExpired(describeSession(session, policy), now)) {
+      await SessionEntity.delete(c.env, token);
+      throw new HTTPException(401, { message: 'Session expired' });
+    }
     const user = await new UserEntity(c.env, session.userId).getState();
     if (!user || !user.id || !user.active) throw unauthorized();
+    // Until a required second factor is enrolled the session can only reach the auth endpoints (which include enrolment).
+    if (isTotpRequired(user, policy) && !user.totp_enabled && !path.startsWith('/api/auth/')) {
+      throw new HTTPException(403, { message: 'Two-factor enrolment required' });
+    }
+    // Likewise a temporary password set by an admin only reaches the auth endpoints, where it is changed.
+    if (user.must_change_password && !path.startsWith('/api/auth/')) {
+      throw new HTTPException(403, { message: 'Password change required' });
+    }
+    if (now - (session.lastSeenAt ?? session.createdAt) >= SESSION_TOUCH_INTERVAL_MS) {
+      await sessionInst.patch({ lastSeenAt: now });
+    }
     c.set('user', user);
     c.set('sessionId', token);
     await next();
   });
-  const requireRole = (roles: User['role'][]) => async (c: HonoContext, next: Next) => {
-    const user = c.get('user');
-    if (!user || !roles.includes(user.role)) throw forbidden();
+  // Authorisation is resolved from the shared permission catalogue (role + features), never from raw role names.
+  // API keys are checked against their granted scopes, which are drawn from the same catalogue.
+  const requirePermission = (...permissions: Permission[]) => async (c: HonoContext, next: Next) => {
+    const apiKey = c.get('apiKey');
+    const allowed = apiKey ? permissions.every(p => apiKey.scopes.includes(p)) : hasPermission(c.get('user'), ...permissions);
+    if (!allowed) throw forbidden();
     await next();
   };
   // --- AUTH ROUTES ---
@@ -48,47 +234,350 @@ export function userRoutes(app: HonoApp) {
     const allUsers = (await UserEntity.list(c.env, null, 1)).items;
     if (allUsers.length === 0) {
       await UserEntity.ensureSeed(c.env);
+      await UserEntity.backfillUsernameIndex(c.env);
       return ok(c, { seeded: true });
     }
+    // Sign-in screens call this first, so accounts from before the username index are indexed before anyone logs in.
+    await MigrationEntity.runOnce(c.env, 'username-index', () => UserEntity.backfillUsernameIndex(c.env));
     return ok(c, { seeded: false });
   });
   app.post('/api/auth/login', async (c: HonoContext) => {
-    const { username, password } = await c.req.json<{ username?: string; password?: string }>();
+    const { username, password, deviceName } = await c.req.json<{ username?: string; password?: string; deviceName?: string }>();
     if (!username || !password) return bad(c, 'Username and password required');
-    const allUsers = (await UserEntity.list(c.env, null, 100)).items;
-    const user = allUsers.find(u => u.username === username && u.password_hash === password);
-    if (!user || !user.active) return bad(c, 'Invalid credentials');
-    const sessionId = crypto.randomUUID();
-    await SessionEntity.create(c.env, {
-      id: sessionId,
-      userId: user.id,
-      createdAt: Date.now()
-    });
-    const { password_hash, ...userWithoutPassword } = user;
-    return ok(c, { user: userWithoutPassword, token: sessionId });
+    const throttles = loginThrottles(c, username);
+    const lockedUntil = await lockedUntilFor(throttles);
+    if (lockedUntil > Date.now()) {
+      await logAuthEvent(c, { type: 'login_locked', username });
+      return tooManyAttempts(c, lockedUntil);
+    }
+    let user = await UserEntity.findByUsername(c.env, username);
+    const { valid, needsRehash } = user?.active ? await verifyPassword(password, user.password_hash) : { valid: false, needsRehash: false };
+    if (!user || !valid) {
+      // Unknown usernames count against the same counters so the response never reveals which accounts exist.
+      await Promise.all([throttles.user.registerFailure(USER_FREE_ATTEMPTS), throttles.ip.registerFailure(IP_FREE_ATTEMPTS)]);
+      await logAuthEvent(c, { type: 'login_failure', username, userId: user?.id, detail: user && !user.active ? 'inactive account' : undefined });
+      return bad(c, 'Invalid credentials');
+    }
+    if (needsRehash) {
+      // Transparently upgrade legacy plaintext (or weaker) records now that we know the secret.
+      const password_hash = await hashPassword(password);
+      user = await new UserEntity(c.env, user.id).mutate(curr => ({ ...curr, password_hash, password_updated_at: Date.now() }));
+    }
+    if (user.totp_enabled && user.totp_secret) {
+      // The user throttle is only cleared once the second factor succeeds.
+      const challengeToken = crypto.randomUUID();
+      await new LoginChallengeEntity(c.env, challengeToken).save({ id: challengeToken, userId: user.id, expiresAt: Date.now() + LOGIN_CHALLENGE_TTL_MS, attempts: 0, deviceName });
+      return ok(c, { totpRequired: true, challengeToken } satisfies TotpChallengeResponse);
+    }
+    await throttles.user.reset();
+    const sessionId = await startSession(c, user, deviceName);
+    await logAuthEvent(c, { type: 'login_success', username: user.username, userId: user.id });
+    return ok(c, { user: toPublicUser(user, await loadSecurityPolicy(c.env)), token: sessionId });
+  });
+  // Second login step for accounts with TOTP enabled. Wrong codes count against the same per-user throttle as passwords.
+  app.post('/api/auth/login/totp', async (c: HonoContext) => {
+    const { challengeToken, code, recoveryCode } = await c.req.json<Partial<TotpLoginRequest>>();
+    if (!challengeToken || (!code && !recoveryCode)) return bad(c, 'Verification code required');
+    const challengeInst = new LoginChallengeEntity(c.env, challengeToken);
+    const challenge = await challengeInst.getState();
+    if (!challenge.userId || challenge.expiresAt <= Date.now()) {
+      if (challenge.userId) await challengeInst.delete();
+      return bad(c, 'Sign-in attempt expired. Enter your password again.');
+    }
+    const user = await new UserEntity(c.env, challenge.userId).getState();
+    if (!user.id || !user.active || !user.totp_enabled) {
+      await challengeInst.delete();
+      return bad(c, 'Invalid credentials');
+    }
+    const throttles = loginThrottles(c, user.username);
+    const lockedUntil = await lockedUntilFor(throttles);
+    if (lockedUntil > Date.now()) {
+      await logAuthEvent(c, { type: 'login_locked', username: user.username, userId: user.id, detail: 'totp' });
+      return tooManyAttempts(c, lockedUntil);
+    }
+    const method = await verifySecondFactor(c.env, user, { code, recoveryCode });
+    if (!method) {
+      const next = await challengeInst.mutate(curr => ({ ...curr, attempts: curr.attempts + 1 }));
+      await throttles.user.registerFailure(USER_FREE_ATTEMPTS);
+      await logAuthEvent(c, { type: 'totp_failure', username: user.username, userId: user.id });
+      if (next.attempts >= MAX_TOTP_ATTEMPTS) {
+        await challengeInst.delete();
+        return bad(c, 'Too many incorrect codes. Enter your password again.');
+      }
+      return bad(c, 'Invalid verification code');
+    }
+    await challengeInst.delete();
+    await throttles.user.reset();
+    const [fresh, policy] = await Promise.all([new UserEntity(c.env, user.id).getState(), loadSecurityPolicy(c.env)]);
+    if (method === 'recovery') {
+      await logAuthEvent(c, { type: 'recovery_code_used', username: user.username, userId: user.id, detail: `${fresh.recovery_code_hashes?.length ?? 0} remaining` });
+    }
+    const sessionId = await startSession(c, fresh, challenge.deviceName);
+    await logAuthEvent(c, { type: 'login_success', username: user.username, userId: user.id, detail: method === 'recovery' ? 'recovery code' : 'totp' });
+    return ok(c, { user: toPublicUser(fresh, policy), token: sessionId });
+  });
+  // Quick login for operators on shared weighing terminals. Wrong PINs are counted on the user record;
+  // the per-IP counter still applies so one terminal can't cycle through every operator.
+  app.post('/api/auth/pin-login', async (c: HonoContext) => {
+    const { username, pin, deviceName } = await c.req.json<Partial<PinLoginRequest>>();
+    if (!username || !pin) return bad(c, 'Username and PIN required');
+    const throttles = loginThrottles(c, username);
+    const ipLockedUntil = (await throttles.ip.getState()).lockedUntil;
+    if (ipLockedUntil > Date.now()) {
+      await logAuthEvent(c, { type: 'login_locked', username, detail: 'pin' });
+      return tooManyAttempts(c, ipLockedUntil);
+    }
+    const user = await UserEntity.findByUsername(c.env, username);
+    if (!user || !user.active || user.role !== 'operator' || !user.pin_hash) {
+      await throttles.ip.registerFailure(IP_FREE_ATTEMPTS);
+      await logAuthEvent(c, { type: 'pin_login_failure', username, userId: user?.id });
+      return bad(c, 'Invalid credentials');
+    }
+    // A PIN is a single factor, so it can't stand in for an account that uses (or must use) TOTP.
+    const policy = await loadSecurityPolicy(c.env);
+    if (user.totp_enabled || isTotpRequired(user, policy)) return bad(c, 'This account uses two-factor authentication. Sign in with your password.');
+    const now = Date.now();
+    if (user.pin_locked_until && user.pin_locked_until > now) {
+      const minutes = Math.ceil((user.pin_locked_until - now) / 60000);
+      return bad(c, `Too many wrong PINs. Try again in ${minutes} minute${minutes === 1 ? '' : 's'} or ask a manager to unlock.`);
+    }
+    const inst = new UserEntity(c.env, user.id);
+    const { valid } = await verifyPassword(pin, user.pin_hash);
+    if (!valid) {
+      const next = await inst.mutate(curr => {
+        const attempts = (curr.failed_pin_attempts ?? 0) + 1;
+        return attempts >= MAX_PIN_ATTEMPTS
+          ? { ...curr, failed_pin_attempts: 0, pin_locked_until: now + PIN_LOCKOUT_MS }
+          : { ...curr, failed_pin_attempts: attempts };
+      });
+      await throttles.ip.registerFailure(IP_FREE_ATTEMPTS);
+      const locked = !!next.pin_locked_until && next.pin_locked_until > now;
+      await logAuthEvent(c, { type: 'pin_login_failure', username: user.username, userId: user.id, detail: locked ? 'PIN locked' : undefined });
+      if (locked) return bad(c, 'Too many wrong PINs. PIN login is locked for 15 minutes.');
+      return bad(c, `Incorrect PIN. ${MAX_PIN_ATTEMPTS - (next.failed_pin_attempts ?? 0)} attempt(s) left.`);
+    }
+    const fresh = await inst.mutate(curr => ({ ...curr, failed_pin_attempts: 0, pin_locked_until: undefined }));
+    const sessionId = await startSession(c, fresh, deviceName);
+    await logAuthEvent(c, { type: 'pin_login_success', username: fresh.username, userId: fresh.id });
+    return ok(c, { user: toPublicUser(fresh, policy), token: sessionId });
   });
   app.post('/api/auth/logout', async (c: HonoContext) => {
     const sessionId = c.get('sessionId');
     if (sessionId) {
       await SessionEntity.delete(c.env, sessionId);
+      const user = c.get('user');
+      await logAuthEvent(c, { type: 'logout', username: user?.username, userId: user?.id });
     }
     return ok(c, { success: true });
   });
   app.get('/api/auth/me', async (c: HonoContext) => {
     const user = c.get('user');
     if (!user) throw unauthorized();
-    const { password_hash, ...safeUser } = user;
-    return ok(c, safeUser);
+    return ok(c, toPublicUser(user, await loadSecurityPolicy(c.env)));
+  });
+  app.get('/api/auth/session', async (c: HonoContext) => {
+    const sessionId = c.get('sessionId');
+    if (!sessionId) throw unauthorized();
+    const [session, policy] = await Promise.all([new SessionEntity(c.env, sessionId).getState(), loadSecurityPolicy(c.env)]);
+    return ok(c, { ...describeSession(session, policy), current: true });
+  });
+  // Explicit keep-alive: slides the idle window immediately. The absolute lifetime is never extended.
+  app.post('/api/auth/renew', async (c: HonoContext) => {
+    const sessionId = c.get('sessionId');
+    if (!sessionId) throw unauthorized();
+    const inst = new SessionEntity(c.env, sessionId);
+    await inst.patch({ lastSeenAt: Date.now() });
+    const [session, policy] = await Promise.all([inst.getState(), loadSecurityPolicy(c.env)]);
+    return ok(c, { ...describeSession(session, policy), current: true });
+  });
+  app.post('/api/auth/change-password', async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw unauthorized();
+    const { currentPassword, newPassword } = await c.req.json<Partial<ChangePasswordRequest>>();
+    if (!currentPassword || !newPassword) return bad(c, 'Current and new password required');
+    if (newPassword.length < MIN_PASSWORD_LENGTH) return bad(c, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    const { valid } = await verifyPassword(currentPassword, user.password_hash);
+    if (!valid) return bad(c, 'Current password is incorrect');
+    if (currentPassword === newPassword) return bad(c, 'New password must differ from the current one');
+    const password_hash = await hashPassword(newPassword);
+    await new UserEntity(c.env, user.id).mutate(curr => ({ ...curr, password_hash, password_updated_at: Date.now(), must_change_password: false }));
+    // Anyone holding another session on the old password is signed out; this one stays signed in.
+    await revokeUserSessions(c.env, user.id, c.get('sessionId'));
+    await logAuthEvent(c, { type: 'password_changed', username: user.username, userId: user.id });
+    return ok(c, { success: true });
+  });
+  app.post('/api/auth/pin', async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw unauthorized();
+    if (user.role !== 'operator') return bad(c, 'Quick PIN login is only available to operators');
+    const { currentPassword, pin } = await c.req.json<{ currentPassword?: string; pin?: string }>();
+    if (!currentPassword || !(await verifyPassword(currentPassword, user.password_hash)).valid) return bad(c, 'Current password is incorrect');
+    if (!isValidPin(pin)) return bad(c, `PIN must be exactly ${PIN_LENGTH} digits`);
+    const pin_hash = await hashPassword(pin);
+    await new UserEntity(c.env, user.id).mutate(curr => ({ ...curr, pin_hash, failed_pin_attempts: 0, pin_locked_until: undefined }));
+    return ok(c, { success: true });
+  });
+  // --- TWO-FACTOR ENROLMENT ---
+  // Setup issues a pending secret; it only becomes active once the user proves their app generates valid codes.
+  app.post('/api/auth/totp/setup', async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw unauthorized();
+    if (user.totp_enabled) return bad(c, 'Two-factor authentication is already enabled');
+    const { currentPassword } = await c.req.json<{ currentPassword?: string }>();
+    if (!currentPassword || !(await verifyPassword(currentPassword, user.password_hash)).valid) return bad(c, 'Current password is incorrect');
+    const secret = generateTotpSecret();
+    await new UserEntity(c.env, user.id).patch({ totp_pending_secret: secret });
+    return ok(c, { secret, otpauthUri: totpProvisioningUri(secret, user.username, TOTP_ISSUER) } satisfies TotpSetupResponse);
+  });
+  app.post('/api/auth/totp/enable', async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw unauthorized();
+    if (user.totp_enabled) return bad(c, 'Two-factor authentication is already enabled');
+    if (!user.totp_pending_secret) return bad(c, 'Start two-factor setup first');
+    const { code } = await c.req.json<{ code?: string }>();
+    const counter = code ? await verifyTotp(user.totp_pending_secret, code.trim()) : null;
+    if (counter === null) return bad(c, 'Invalid verification code. Check the time on your device and try again.');
+    const { codes, hashes } = await generateRecoveryCodes();
+    await new UserEntity(c.env, user.id).mutate(curr => ({
+      ...curr,
+      totp_enabled: true,
+      totp_secret: curr.totp_pending_secret,
+      totp_pending_secret: undefined,
+      totp_last_counter: counter,
+      recovery_code_hashes: hashes,
+    }));
+    await logAuthEvent(c, { type: 'totp_enabled', username: user.username, userId: user.id });
+    return ok(c, { recoveryCodes: codes });
+  });
+  app.post('/api/auth/totp/disable', async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw unauthorized();
+    if (!user.totp_enabled) return bad(c, 'Two-factor authentication is not enabled');
+    if (isTotpRequired(user, await loadSecurityPolicy(c.env))) return bad(c, 'Your role requires two-factor authentication');
+    const { currentPassword, code, recoveryCode } = await c.req.json<{ currentPassword?: string } & Partial<TotpLoginRequest>>();
+    if (!currentPassword || !(await verifyPassword(currentPassword, user.password_hash)).valid) return bad(c, 'Current password is incorrect');
+    if (!(await verifySecondFactor(c.env, user, { code, recoveryCode }))) return bad(c, 'Invalid verification code');
+    await new UserEntity(c.env, user.id).mutate(curr => ({ ...curr, totp_enabled: false, totp_secret: undefined, totp_pending_secret: undefined, totp_last_counter: undefined, recovery_code_hashes: undefined }));
+    await logAuthEvent(c, { type: 'totp_disabled', username: user.username, userId: user.id });
+    return ok(c, { success: true });
+  });
+  // Regenerating invalidates every previously issued recovery code.
+  app.post('/api/auth/totp/recovery-codes', async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw unauthorized();
+    if (!user.totp_enabled) return bad(c, 'Two-factor authentication is not enabled');
+    const { code } = await c.req.json<{ code?: string }>();
+    if ((await verifySecondFactor(c.env, user, { code })) !== 'totp') return bad(c, 'Invalid verification code');
+    const { codes, hashes } = await generateRecoveryCodes();
+    await new UserEntity(c.env, user.id).patch({ recovery_code_hashes: hashes });
+    return ok(c, { recoveryCodes: codes });
   });
   // --- ADMIN: GLOBAL SESSION CLEAR ---
-  app.post('/api/admin/sessions/clear', requireRole(['admin']), async (c: HonoContext) => {
+  app.post('/api/admin/sessions/clear', requirePermission('security:manage'), async (c: HonoContext) => {
     const sessions = await SessionEntity.list(c.env, null, 1000);
     const ids = sessions.items.map(s => s.id);
     await SessionEntity.deleteMany(c.env, ids);
+    const admin = c.get('user');
+    await logAuthEvent(c, { type: 'sessions_cleared', username: admin?.username, actorId: admin?.id, detail: `${ids.length} session(s)` });
     return ok(c, { cleared: ids.length });
   });
+  // --- ADMIN: PER-USER SESSION MANAGEMENT ---
+  app.get('/api/admin/sessions', requirePermission('security:manage'), async (c: HonoContext) => {
+    const userId = c.req.query('userId');
+    const [sessions, users, policy] = await Promise.all([
+      SessionEntity.list(c.env, null, 1000),
+      UserEntity.list(c.env, null, 200),
+      loadSecurityPolicy(c.env),
+    ]);
+    const usernames = new Map(users.items.map(u => [u.id, u.username]));
+    const now = Date.now();
+    const infos = sessions.items.filter(s => s.id && s.userId).map(s => describeSession(s, policy));
+    // Expired sessions are only removed lazily by the middleware; prune them while we are here.
+    const expired = infos.filter(s => isSessionExpired(s, now)).map(s => s.id);
+    if (expired.length > 0) await SessionEntity.deleteMany(c.env, expired);
+    const active = infos
+      .filter(s => !isSessionExpired(s, now) && (!userId || s.userId === userId))
+      .map(s => ({ ...s, username: usernames.get(s.userId), current: s.id === c.get('sessionId') }))
+      .sort((a, b) => (b.lastSeenAt ?? b.createdAt) - (a.lastSeenAt ?? a.createdAt));
+    return ok(c, active);
+  });
+  app.delete('/api/admin/sessions/:id', requirePermission('security:manage'), async (c: HonoContext) => {
+    const id = c.req.param('id');
+    const session = await new SessionEntity(c.env, id).getState();
+    const revoked = await SessionEntity.delete(c.env, id);
+    if (revoked) await logAuthEvent(c, { type: 'session_revoked', userId: session.userId, actorId: c.get('user')?.id });
+    return ok(c, { id, revoked });
+  });
+  app.get('/api/admin/security-policy', requirePermission('security:manage'), async (c: HonoContext) => ok(c, await loadSecurityPolicy(c.env)));
+  app.put('/api/admin/security-policy', requirePermission('security:manage'), async (c: HonoContext) => {
+    const body = await c.req.json<Partial<SecurityPolicy>>();
+    const idle = Number(body.session_idle_timeout_min);
+    const absolute = Number(body.session_absolute_timeout_hours);
+    if (!Number.isFinite(idle) || idle < 1 || idle > 24 * 60) return bad(c, 'Idle timeout must be between 1 and 1440 minutes');
+    if (!Number.isFinite(absolute) || absolute < 1 || absolute > 24 * 30) return bad(c, 'Absolute timeout must be between 1 and 720 hours');
+    if (body.totp_required_roles !== undefined && (!Array.isArray(body.totp_required_roles) || body.totp_required_roles.some(r => !USER_ROLES.includes(r)))) {
+      return bad(c, 'Invalid role in two-factor requirement');
+    }
+    const next = await new SecurityPolicyEntity(c.env, 'global').mutate(curr => ({
+      ...curr,
+      session_idle_timeout_min: Math.round(idle),
+      session_absolute_timeout_hours: Math.round(absolute),
+      totp_required_roles: body.totp_required_roles ? USER_ROLES.filter(r => body.totp_required_roles!.includes(r)) : curr.totp_required_roles,
+      updated_at: Date.now(),
+    }));
+    return ok(c, next);
+  });
+  // --- ADMIN: INTEGRATION API KEYS ---
+  app.get('/api/admin/api-keys', requirePermission('security:manage'), async (c: HonoContext) => {
+    const { items } = await ApiKeyEntity.list(c.env, null, 500);
+    return ok(c, items.filter(k => k.id).map(toPublicApiKey).sort((a, b) => b.created_at - a.created_at));
+  });
+  app.post('/api/admin/api-keys', requirePermission('security:manage'), async (c: HonoContext) => {
+    const admin = c.get('user');
+    if (!admin) throw forbidden(); // keys can't mint keys
+    const body = await c.req.json<Partial<CreateApiKeyRequest>>();
+    const name = body.name?.trim() ?? '';
+    const scopes = Array.from(new Set(body.scopes ?? []));
+    if (!name || name.length > 64) return bad(c, 'Name must be 1-64 characters');
+    if (scopes.length === 0) return bad(c, 'Select at least one scope');
+    if (scopes.some(s => !API_KEY_SCOPES.includes(s))) return bad(c, 'Invalid scope');
+    const days = body.expiresInDays;
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_API_KEY_LIFETIME_DAYS)) {
+      return bad(c, `Expiry must be between 1 and ${MAX_API_KEY_LIFETIME_DAYS} days`);
+    }
+    const { id, token } = generateApiKeyToken();
+    const now = Date.now();
+    const key = await ApiKeyEntity.create(c.env, {
+      id,
+      name,
+      key_hash: await sha256(token),
+      scopes,
+      created_at: now,
+      created_by: admin.id,
+      expires_at: days ? now + days * 24 * 60 * 60 * 1000 : undefined,
+    });
+    await logAuthEvent(c, { type: 'api_key_created', username: admin.username, actorId: admin.id, detail: `${name} (${id}): ${scopes.join(', ')}` });
+    return ok(c, { key: toPublicApiKey(key), token } satisfies CreateApiKeyResponse);
+  });
+  // Revoked keys are kept (not deleted) so the audit trail can still name them.
+  app.delete('/api/admin/api-keys/:id', requirePermission('security:manage'), async (c: HonoContext) => {
+    const admin = c.get('user');
+    if (!admin) throw forbidden();
+    const inst = new ApiKeyEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'API key not found');
+    const key = await inst.mutate(curr => curr.revoked_at ? curr : { ...curr, revoked_at: Date.now(), revoked_by: admin.id });
+    await logAuthEvent(c, { type: 'api_key_revoked', username: admin.username, actorId: admin.id, detail: `${key.name} (${key.id})` });
+    return ok(c, toPublicApiKey(key));
+  });
+  // --- ADMIN: AUTH EVENT LOG ---
+  app.get('/api/admin/auth-events', requirePermission('audit:read'), async (c: HonoContext) => {
+    const cursor = c.req.query('cursor') || null;
+    const limit = Math.min(Math.max(Number(c.req.query('limit')) || 50, 1), 200);
+    const page = await AuthEventEntity.list(c.env, cursor, limit);
+    return ok(c, page);
+  });
   // --- DASHBOARD ---
-  app.get('/api/dashboard', async (c: HonoContext) => {
+  app.get('/api/dashboard', requirePermission('dashboard:read'), async (c: HonoContext) => {
     const user = c.get('user');
     if (!user) throw unauthorized();
     const [suppliersPage, ledgerPage, transactionsPage] = await Promise.all([
@@ -116,11 +605,12 @@ export function userRoutes(app: HonoApp) {
       pendingSyncCount: 0,
     });
   });
-  app.get('/api/epr-report', requireRole(['admin', 'auditor']), async (c: HonoContext) => {
-    const [suppliers, ledger, transactions] = await Promise.all([
+  app.get('/api/epr-report', requirePermission('epr:read'), async (c: HonoContext) => {
+    const [suppliers, ledger, transactions, materials] = await Promise.all([
       SupplierEntity.list(c.env, null, 1000),
       InventoryLedgerEntity.list(c.env, null, 1000),
       TransactionEntity.list(c.env, null, 1000),
+      MaterialEntity.list(c.env, null, 1000),
     ]);
     const supplierItems = suppliers.items || [];
     const ledgerItems = ledger.items || [];
@@ -129,31 +619,134 @@ export function userRoutes(app: HonoApp) {
     const total_fees = transactionItems.reduce((sum, t) => sum + t.epr_fee, 0);
     const streams: { [key: string]: { weight: number; fees: number } } = {};
     const ledgerMap = new Map(ledgerItems.map(l => [l.id, l]));
-    transactionItems.forEach(t => {
-      const ledgerEntry = ledgerMap.get(t.ledger_entry_id);
+    const materialOf = materialResolver(materials.items || []);
+    transactionItems.flatMap(transactionLines).forEach(line => {
+      const ledgerEntry = ledgerMap.get(line.ledger_entry_id);
       if (ledgerEntry) {
-        const streamName = getEprStream(ledgerEntry.material_type);
+        const streamName = eprStreamOf(materialOf(ledgerEntry));
         if (!streams[streamName]) streams[streamName] = { weight: 0, fees: 0 };
         streams[streamName].weight += ledgerEntry.weight_kg;
-        streams[streamName].fees += t.epr_fee;
+        streams[streamName].fees += line.epr_fee;
       }
     });
     return ok(c, { compliance_pct, total_fees, streams });
   });
-  app.get('/api/config/users', requireRole(['admin']), async (c: HonoContext) => {
+  app.get('/api/config/users', requirePermission('users:manage'), async (c: HonoContext) => {
     const users = (await UserEntity.list(c.env, null, 200)).items || [];
-    return ok(c, users.map(({ password_hash, ...u }) => u));
+    return ok(c, users.map(u => toPublicUser(u)));
   });
-  app.post('/api/config/users', requireRole(['admin']), async (c: HonoContext) => {
+  app.post('/api/config/users', requirePermission('users:manage'), async (c: HonoContext) => {
+    const admin = c.get('user')!;
     const updates = await c.req.json<ConfigUserUpdate[]>();
+    if (!Array.isArray(updates)) return bad(c, 'Expected a list of user updates');
+    if (updates.some(u => !USER_ROLES.includes(u.role))) return bad(c, 'Invalid role');
+    // Nobody widens their own access; another administrator has to.
+    const own = updates.find(u => u.id === admin.id);
+    if (own && (own.role !== admin.role || !sameFeatures(own.features, admin.features))) return bad(c, 'You cannot change your own role or features');
+    // Apply the batch to a snapshot first so it can't leave the system without an active admin.
+    const users = (await UserEntity.list(c.env, null, 200)).items;
+    const updatesById = new Map(updates.map(u => [u.id, u]));
+    const resulting = users.map(u => updatesById.has(u.id) ? { ...u, ...updatesById.get(u.id)! } : u);
+    if (!resulting.some(isActiveAdmin)) return bad(c, 'At least one active admin must remain');
+    const now = Date.now();
     for (const update of updates) {
       const inst = new UserEntity(c.env, update.id);
-      await inst.mutate(curr => ({ ...curr, role: update.role, active: update.active, features: update.features }));
+      if (!(await inst.exists())) continue;
+      await inst.mutate(curr => ({ ...curr, role: update.role, active: update.active, features: update.features, updated_at: now, updated_by: admin.id }));
+      if (!update.active) await revokeUserSessions(c.env, update.id);
     }
     return ok(c, { success: true });
   });
-  app.get('/api/suppliers', async (c: HonoContext) => ok(c, (await SupplierEntity.list(c.env, null, 100)).items || []));
-  app.post('/api/suppliers', requireRole(['admin', 'manager']), async (c: HonoContext) => {
+  app.post('/api/config/users/create', requirePermission('users:manage'), async (c: HonoContext) => {
+    const admin = c.get('user')!;
+    const body = await c.req.json<Partial<CreateUserRequest>>();
+    const username = body.username?.trim() ?? '';
+    const email = body.email?.trim() || undefined;
+    if (!USERNAME_REGEX.test(username)) return bad(c, 'Username must be 3-32 characters: letters, digits, dot, dash or underscore');
+    if (email && !EMAIL_REGEX.test(email)) return bad(c, 'Invalid email address');
+    if (!body.role || !USER_ROLES.includes(body.role)) return bad(c, 'Invalid role');
+    if (!body.password || body.password.length < MIN_PASSWORD_LENGTH) return bad(c, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    const users = (await UserEntity.list(c.env, null, 200)).items;
+    if (email && users.some(u => u.email?.toLowerCase() === email.toLowerCase())) return bad(c, 'Email is already in use');
+    const now = Date.now();
+    const user: User = {
+      id: crypto.randomUUID(),
+      username,
+      email,
+      password_hash: await hashPassword(body.password),
+      password_updated_at: now,
+      must_change_password: true,
+      role: body.role,
+      active: true,
+      features: (body.features || []).map(f => f.trim()).filter(Boolean),
+      created_at: now,
+      created_by: admin.id,
+      updated_at: now,
+      updated_by: admin.id,
+    };
+    // The name is claimed before the user is written, so two concurrent creates cannot both take it.
+    if (!(await UserEntity.claimUsername(c.env, user))) return c.json({ success: false, error: 'Username is already taken' } as ApiResponse, 409);
+    let created: User;
+    try {
+      created = await UserEntity.create(c.env, user);
+    } catch (err) {
+      await UserEntity.unindexUsername(c.env, username);
+      throw err;
+    }
+    await logAuthEvent(c, { type: 'user_created', username, userId: created.id, actorId: admin.id, detail: `role: ${created.role}` });
+    return ok(c, toPublicUser(created));
+  });
+  app.delete('/api/config/users/:id', requirePermission('users:manage'), async (c: HonoContext) => {
+    const admin = c.get('user')!;
+    const id = c.req.param('id');
+    if (id === admin.id) return bad(c, 'You cannot delete your own account');
+    const target = await new UserEntity(c.env, id).getState();
+    if (!target.username) return notFound(c, 'User not found');
+    if (isActiveAdmin(target)) {
+      const users = (await UserEntity.list(c.env, null, 200)).items;
+      if (!users.some(u => u.id !== id && isActiveAdmin(u))) return bad(c, 'Cannot delete the last active admin');
+    }
+    await revokeUserSessions(c.env, id);
+    const deleted = await UserEntity.delete(c.env, id);
+    await UserEntity.unindexUsername(c.env, target.username);
+    await logAuthEvent(c, { type: 'user_deleted', username: target.username, userId: id, actorId: admin.id });
+    return ok(c, { id, deleted });
+  });
+  app.post('/api/config/users/:id/reset-password', requirePermission('users:manage'), async (c: HonoContext) => {
+    const id = c.req.param('id');
+    const { newPassword } = await c.req.json<Partial<ResetPasswordRequest>>();
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) return bad(c, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    const inst = new UserEntity(c.env, id);
+    if (!(await inst.exists())) return notFound(c, 'User not found');
+    const password_hash = await hashPassword(newPassword);
+    // The user must pick their own password on next login; the admin only knows this temporary one.
+    const target = await inst.mutate(curr => ({ ...curr, password_hash, password_updated_at: Date.now(), must_change_password: true }));
+    await revokeUserSessions(c.env, id, c.get('sessionId'));
+    await logAuthEvent(c, { type: 'password_reset', username: target.username, userId: id, actorId: c.get('user')?.id });
+    return ok(c, { id, reset: true });
+  });
+  // For users who lost their authenticator and recovery codes. They re-enrol on next login if policy requires it.
+  app.post('/api/config/users/:id/totp/reset', requirePermission('users:manage'), async (c: HonoContext) => {
+    const id = c.req.param('id');
+    const inst = new UserEntity(c.env, id);
+    if (!(await inst.exists())) return notFound(c, 'User not found');
+    const target = await inst.mutate(curr => ({ ...curr, totp_enabled: false, totp_secret: undefined, totp_pending_secret: undefined, totp_last_counter: undefined, recovery_code_hashes: undefined }));
+    await logAuthEvent(c, { type: 'totp_reset', username: target.username, userId: id, actorId: c.get('user')?.id });
+    return ok(c, toPublicUser(target));
+  });
+  // Setting a PIN (or sending pin: null to remove it) also clears any lockout.
+  app.post('/api/config/users/:id/pin', requirePermission('users:manage'), async (c: HonoContext) => {
+    const id = c.req.param('id');
+    const { pin } = await c.req.json<{ pin?: string | null }>();
+    if (pin !== null && !isValidPin(pin)) return bad(c, `PIN must be exactly ${PIN_LENGTH} digits`);
+    const inst = new UserEntity(c.env, id);
+    if (!(await inst.exists())) return notFound(c, 'User not found');
+    const pin_hash = pin === null ? undefined : await hashPassword(pin);
+    await inst.mutate(curr => ({ ...curr, pin_hash, failed_pin_attempts: 0, pin_locked_until: undefined }));
+    return ok(c, { id, has_pin: !!pin_hash });
+  });
+  app.get('/api/suppliers', requirePermission('supplier:read'), async (c: HonoContext) => ok(c, (await SupplierEntity.list(c.env, null, 100)).items || []));
+  app.post('/api/suppliers', requirePermission('supplier:write'), async (c: HonoContext) => {
     const body = await c.req.json<Partial<Supplier>>();
     const s: Supplier = {
       id: crypto.randomUUID(),
@@ -165,55 +758,554 @@ export function userRoutes(app: HonoApp) {
     };
     return ok(c, await SupplierEntity.create(c.env, s));
   });
-  app.delete('/api/suppliers/:id', requireRole(['admin', 'manager']), async (c: HonoContext) => {
+  app.delete('/api/suppliers/:id', requirePermission('supplier:write'), async (c: HonoContext) => {
     const id = c.req.param('id');
     const existed = await SupplierEntity.delete(c.env, id);
     return ok(c, { id, deleted: existed });
   });
-  app.get('/api/ledger', async (c: HonoContext) => ok(c, (await InventoryLedgerEntity.list(c.env, null, 200)).items || []));
-  app.post('/api/ledger', async (c: HonoContext) => {
+  // --- MATERIAL CATALOGUE ---
+  // Reference data every role needs to label entries and reports, so reading only requires a signed-in caller.
+  app.get('/api/materials', async (c: HonoContext) => {
+    await MaterialEntity.ensureSeed(c.env);
+    const { items } = await MaterialEntity.list(c.env, null, 1000);
+    return ok(c, items.sort((a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code)));
+  });
+  const findMaterialByCode = async (env: Env, code: string) => (await MaterialEntity.list(env, null, 1000)).items.find(m => m.code === code);
+  app.post('/api/materials', requirePermission('materials:manage'), async (c: HonoContext) => {
+    const input = parseMaterialInput(await c.req.json<Partial<MaterialInput>>());
+    if (typeof input === 'string') return bad(c, input);
+    if (await findMaterialByCode(c.env, input.code)) return bad(c, `Code ${input.code} is already in use`);
+    const now = Date.now();
+    return ok(c, await MaterialEntity.create(c.env, { ...input, id: crypto.randomUUID(), created_at: now, updated_at: now }));
+  });
+  app.put('/api/materials/:id', requirePermission('materials:manage'), async (c: HonoContext) => {
+    const inst = new MaterialEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Material not found');
+    const input = parseMaterialInput(await c.req.json<Partial<MaterialInput>>(), await inst.getState());
+    if (typeof input === 'string') return bad(c, input);
+    const clash = await findMaterialByCode(c.env, input.code);
+    if (clash && clash.id !== inst.id) return bad(c, `Code ${input.code} is already in use`);
+    return ok(c, await inst.mutate(curr => ({ ...curr, ...input, updated_at: Date.now() })));
+  });
+  // --- PRICE LISTS ---
+  // Read by every POS to price lines (also offline from its cache), so only a signed-in caller is required.
+  app.get('/api/price-rules', async (c: HonoContext) => {
+    const materialId = c.req.query('material_id');
+    const { items } = await PriceRuleEntity.list(c.env, null, 5000);
+    return ok(c, items.filter(r => !materialId || r.material_id === materialId).sort((a, b) => b.effective_from - a.effective_from));
+  });
+  app.post('/api/price-rules', requirePermission('pricing:manage'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const body = await c.req.json<Partial<CreatePriceRuleRequest>>();
+    const price = Number(body.price_per_kg);
+    const now = Date.now();
+    const effectiveFrom = body.effective_from ?? now;
+    const minKg = body.min_kg ?? undefined;
+    const maxKg = body.max_kg ?? undefined;
+    if (!body.material_id || !(await new MaterialEntity(c.env, body.material_id).exists())) return bad(c, 'Unknown material');
+    if (!Number.isFinite(price) || price < 0) return bad(c, 'Price per kg must be zero or more');
+    if (body.tier && body.supplier_id) return bad(c, 'A rule applies to a tier or to one supplier, not both');
+    if (body.tier && !SUPPLIER_TIERS.includes(body.tier)) return bad(c, 'Unknown supplier tier');
+    if (body.supplier_id && !(await new SupplierEntity(c.env, body.supplier_id).exists())) return bad(c, 'Unknown supplier');
+    if (minKg !== undefined && (!Number.isFinite(minKg) || minKg < 0)) return bad(c, 'Minimum weight must be zero or more');
+    if (maxKg !== undefined && (!Number.isFinite(maxKg) || maxKg <= (minKg ?? 0))) return bad(c, 'Maximum weight must be above the minimum');
+    if (!Number.isFinite(effectiveFrom)) return bad(c, 'Invalid effective date');
+    if (body.effective_to !== undefined && body.effective_to <= effectiveFrom) return bad(c, 'The end date must be after the start date');
+    const rule: PriceRule = {
+      id: crypto.randomUUID(),
+      material_id: body.material_id,
+      price_per_kg: Math.round(price * 10000) / 10000,
+      tier: body.tier || undefined,
+      supplier_id: body.supplier_id || undefined,
+      min_kg: minKg,
+      max_kg: maxKg,
+      effective_from: effectiveFrom,
+      effective_to: body.effective_to,
+      created_by: user.id,
+      created_by_username: user.username,
+      created_at: now,
+    };
+    return ok(c, await PriceRuleEntity.create(c.env, rule));
+  });
+  // Ends a rule from now on (a scheduled rule then never takes effect). History is kept either way.
+  app.post('/api/price-rules/:id/end', requirePermission('pricing:manage'), async (c: HonoContext) => {
+    const inst = new PriceRuleEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Price rule not found');
+    const now = Date.now();
+    let ended = false;
+    const next = await inst.mutate(curr => {
+      if (curr.effective_to !== undefined && curr.effective_to <= now) return curr;
+      ended = true;
+      return { ...curr, effective_to: Math.max(now, curr.effective_from), updated_at: now };
+    });
+    if (!ended) return bad(c, 'Price rule has already ended');
+    return ok(c, next);
+  });
+  app.put('/api/suppliers/:id/price-tier', requirePermission('pricing:manage'), async (c: HonoContext) => {
+    const { price_tier } = await c.req.json<{ price_tier?: SupplierTier }>();
+    if (!price_tier || !SUPPLIER_TIERS.includes(price_tier)) return bad(c, 'Unknown supplier tier');
+    const inst = new SupplierEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Supplier not found');
+    return ok(c, await inst.mutate(curr => ({ ...curr, price_tier, updated_at: Date.now() })));
+  });
+  app.get('/api/pricing/overrides', requirePermission('pricing:manage'), async (c: HonoContext) => {
+    const { items } = await PriceOverrideEntity.list(c.env, null, 1000);
+    return ok(c, items.sort((a, b) => b.created_at - a.created_at));
+  });
+  // A manager either approves for themselves or confirms at the operator's terminal with their password
+  // (and authenticator code). Failed confirmations count against the normal login throttle.
+  app.post('/api/pricing/overrides', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const body = await c.req.json<Partial<CreatePriceOverrideRequest>>();
+    const reason = body.reason?.trim() ?? '';
+    const amount = Number(body.override_amount);
+    const weight = Number(body.weight_kg);
+    if (reason.length < 5) return bad(c, 'Please give a reason of at least 5 characters');
+    if (!Number.isFinite(amount) || amount < 0) return bad(c, 'Enter a valid amount');
+    if (!Number.isFinite(weight) || weight <= 0) return bad(c, 'Weight must be greater than zero');
+    if (!body.material_id || !body.supplier_id) return bad(c, 'Supplier and material are required');
+    let approver: User = user;
+    if (!hasPermission(user, 'pricing:override')) {
+      const { username = '', password = '', code } = body.approver ?? {};
+      if (!username || !password) return bad(c, 'A manager must approve this override');
+      const throttles = loginThrottles(c, username);
+      const lockedUntil = await lockedUntilFor(throttles);
+      if (lockedUntil > Date.now()) return tooManyAttempts(c, lockedUntil);
+      const candidate = await UserEntity.findByUsername(c.env, username);
+      const { valid } = candidate?.active ? await verifyPassword(password, candidate.password_hash) : { valid: false };
+      const secondFactorOk = valid && !!candidate && (!candidate.totp_enabled || (!!code && (await verifySecondFactor(c.env, candidate, { code })) !== null));
+      if (!candidate || !valid || !secondFactorOk) {
+        await Promise.all([throttles.user.registerFailure(USER_FREE_ATTEMPTS), throttles.ip.registerFailure(IP_FREE_ATTEMPTS)]);
+        return bad(c, candidate?.totp_enabled && valid && !code ? 'Authenticator code required' : 'Invalid approver credentials');
+      }
+      if (!hasPermission(candidate, 'pricing:override')) return bad(c, `${candidate.username} is not allowed to approve price overrides`);
+      await throttles.user.reset();
+      approver = candidate;
+    }
+    const override: PriceOverride = {
+      id: crypto.randomUUID(),
+      material_id: body.material_id,
+      supplier_id: body.supplier_id,
+      weight_kg: roundWeight(weight),
+      price_rule_id: body.price_rule_id || undefined,
+      computed_amount: Number(body.computed_amount) || 0,
+      override_amount: Math.round(amount * 100) / 100,
+      reason,
+      requested_by: user.id,
+      approved_by: approver.id,
+      approved_by_username: approver.username,
+      created_at: Date.now(),
+    };
+    return ok(c, await PriceOverrideEntity.create(c.env, override));
+  });
+  // --- EPR TARIFFS ---
+  // Every POS estimates fees from the schedule, so reading it only requires a signed-in caller.
+  app.get('/api/epr/tariffs', async (c: HonoContext) => {
+    await EprTariffEntity.ensureSeed(c.env);
+    const { items } = await EprTariffEntity.list(c.env, null, 5000);
+    return ok(c, items.sort((a, b) => a.epr_stream.localeCompare(b.epr_stream) || b.effective_from - a.effective_from));
+  });
+  /** Validates a proposed tariff; shared by create and preview so both see exactly the same row. */
+  const parseEprTariff = (body: Partial<CreateEprTariffRequest>, user: User): EprTariff | string => {
+    const rate = Number(body.rate_per_kg);
+    const now = Date.now();
+    const effectiveFrom = body.effective_from ?? now;
+    if (!body.epr_stream || !EPR_STREAMS.includes(body.epr_stream)) return 'A valid EPR stream is required';
+    if (!Number.isFinite(rate) || rate < 0) return 'Rate per kg must be zero or more';
+    if (!Number.isFinite(effectiveFrom)) return 'Invalid effective date';
+    return {
+      id: crypto.randomUUID(),
+      epr_stream: body.epr_stream,
+      pro: body.pro?.trim() || undefined,
+      rate_per_kg: Math.round(rate * 10000) / 10000,
+      effective_from: effectiveFrom,
+      created_by: user.id,
+      created_by_username: user.username,
+      created_at: now,
+    };
+  };
+  app.post('/api/epr/tariffs', requirePermission('epr:configure'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const tariff = parseEprTariff(await c.req.json<Partial<CreateEprTariffRequest>>(), user);
+    if (typeof tariff === 'string') return bad(c, tariff);
+    await EprTariffEntity.ensureSeed(c.env);
+    return ok(c, await EprTariffEntity.create(c.env, tariff));
+  });
+  // Dry run against the recorded transactions; recorded fees are never rewritten.
+  app.post('/api/epr/tariffs/preview', requirePermission('epr:configure'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const tariff = parseEprTariff(await c.req.json<Partial<CreateEprTariffRequest>>(), user);
+    if (typeof tariff === 'string') return bad(c, tariff);
+    const [ctx, { items }] = await Promise.all([loadEprContext(c.env), TransactionEntity.list(c.env, null, 5000)]);
+    return ok(c, await previewEprTariff(c.env, ctx, tariff, items));
+  });
+  app.post('/api/epr/tariffs/:id/end', requirePermission('epr:configure'), async (c: HonoContext) => {
+    const inst = new EprTariffEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Tariff not found');
+    const now = Date.now();
+    let ended = false;
+    const next = await inst.mutate(curr => {
+      if (curr.effective_to !== undefined && curr.effective_to <= now) return curr;
+      ended = true;
+      return { ...curr, effective_to: Math.max(now, curr.effective_from), updated_at: now };
+    });
+    if (!ended) return bad(c, 'Tariff has already ended');
+    return ok(c, next);
+  });
+  app.get('/api/ledger', requirePermission('ledger:read'), async (c: HonoContext) => ok(c, (await InventoryLedgerEntity.list(c.env, null, 200)).items || []));
+  // Ledger entries are append-only: chain fields are always assigned here and an existing id is never overwritten.
+  // Reversal/correction links can only be written by the approval flow below.
+  app.post('/api/ledger', requirePermission('ledger:write'), async (c: HonoContext) => {
     const body = await c.req.json<Partial<InventoryLedgerEntry>>();
+    const now = Date.now();
     const entry: InventoryLedgerEntry = {
+      supplier_id: "",
+      material_type: "",
+      weight_kg: 0,
+      ...pickFields(body, LEDGER_INPUT_FIELDS),
+      id: body.id || crypto.randomUUID(),
+      capture_timestamp: now,
+      is_synced: true,
+      created_at: now,
+    };
+    // Same claim as the sync path, so two posts with one id cannot both be appended.
+    const result = await recordLedgerEntry(c.env, entry);
+    if (result.status === 'duplicate') return bad(c, 'Ledger entry already exists and cannot be changed');
+    if (result.status === 'rejected') return bad(c, result.reason ?? 'Ledger entry could not be recorded');
+    return ok(c, await new InventoryLedgerEntity(c.env, entry.id).getState());
+  });
+  app.get('/api/ledger/verify', requirePermission('ledger:read'), async (c: HonoContext) => ok(c, await verifyLedgerChain(c.env)));
+  // --- TWO-PASS WEIGHING ---
+  app.get('/api/weighing/sessions', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const status = c.req.query('status');
+    const { items } = await WeighingSessionEntity.list(c.env, null, 1000);
+    return ok(c, items.filter(s => s.reference && (!status || s.status === status)).sort((a, b) => b.updated_at - a.updated_at));
+  });
+  // The first pass can be either gross (loaded truck arriving) or tare (empty truck collecting).
+  app.post('/api/weighing/sessions', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const user = c.get('user');
+    const body = await c.req.json<Partial<OpenWeighingSessionRequest>>();
+    const reference = normalizeReference(body.reference ?? '');
+    const weight = Number(body.weight_kg);
+    if (!reference) return bad(c, 'Vehicle registration or container id required');
+    if (body.kind !== 'gross' && body.kind !== 'tare') return bad(c, 'Capture must be gross or tare');
+    if (!Number.isFinite(weight) || weight <= 0) return bad(c, 'Weight must be greater than zero');
+    const unstable = stabilityEvidenceError(body.stability);
+    if (unstable) return bad(c, unstable);
+    const open = (await WeighingSessionEntity.list(c.env, null, 1000)).items.find(s => s.status === 'open' && s.reference === reference);
+    if (open) return bad(c, `${reference} already has an open weighing; complete or cancel it first`);
+    const now = Date.now();
+    const capture: WeighCapture = { weight_kg: roundWeight(weight), captured_at: now, operator_id: user?.id, device_id: body.device_id, scale_id: body.scale_id, stability: body.stability };
+    const session: WeighingSession = {
+      id: crypto.randomUUID(),
+      reference,
+      status: 'open',
+      supplier_id: body.supplier_id || undefined,
+      material_type: body.material_type?.trim() || undefined,
+      [body.kind]: capture,
+      created_at: now,
+      updated_at: now,
+    };
+    return ok(c, await WeighingSessionEntity.create(c.env, session));
+  });
+  // The second pass (or a stored tare preset) completes the session and writes the net to the ledger.
+  app.post('/api/weighing/sessions/:id/complete', requirePermission('pos:capture', 'ledger:write'), async (c: HonoContext) => {
+    const user = c.get('user');
+    const inst = new WeighingSessionEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Weighing session not found');
+    const session = await inst.getState();
+    if (session.status !== 'open') return bad(c, `Weighing session is already ${session.status}`);
+    const body = await c.req.json<Partial<CompleteWeighingSessionRequest>>();
+    const now = Date.now();
+    let gross = session.gross;
+    let tare = session.tare;
+    let tarePresetId: string | undefined;
+    if (body.tare_preset_id) {
+      if (!gross) return bad(c, 'A tare preset can only complete a session that has a gross weight');
+      const preset = await new TarePresetEntity(c.env, body.tare_preset_id).getState();
+      if (!preset.reference) return bad(c, 'Unknown tare preset');
+      tare = { weight_kg: preset.tare_kg, captured_at: now, operator_id: user?.id };
+      tarePresetId = preset.id;
+    } else {
+      const weight = Number(body.weight_kg);
+      if (!Number.isFinite(weight) || weight <= 0) return bad(c, 'Weight must be greater than zero');
+      const unstable = stabilityEvidenceError(body.stability);
+      if (unstable) return bad(c, unstable);
+      const capture: WeighCapture = { weight_kg: roundWeight(weight), captured_at: now, operator_id: user?.id, device_id: body.device_id, scale_id: body.scale_id, stability: body.stability };
+      if (gross) tare = capture;
+      else gross = capture;
+    }
+    if (!gross || !tare) return bad(c, 'Both gross and tare weights are required');
+    const net = netWeight(gross.weight_kg, tare.weight_kg);
+    if (net <= 0) return bad(c, `Tare (${tare.weight_kg} kg) must be less than gross (${gross.weight_kg} kg)`);
+    const supplierId = body.supplier_id || session.supplier_id;
+    const materialType = body.material_type?.trim() || session.material_type;
+    if (!supplierId || !materialType) return bad(c, 'Supplier and material are required');
+    // Claim the session first so two terminals can't both complete it.
+    let claimed = false;
+    await inst.mutate(curr => {
+      if (curr.status !== 'open') return curr;
+      claimed = true;
+      return { ...curr, status: 'completed', gross, tare, tare_preset_id: tarePresetId, net_kg: net, supplier_id: supplierId, material_type: materialType, updated_at: now };
+    });
+    if (!claimed) return bad(c, 'Weighing session was completed on another terminal');
+    const entry = await appendLedgerEntry(c.env, {
       id: crypto.randomUUID(),
-      supplier_id: body.supplier_id || "",
-      material_type: body.material_type || "",
-      weight_kg: body.weight_kg || 0,
-      capture_timestamp: Date.now(),
+      supplier_id: supplierId,
+      material_id: body.material_id,
+      material_type: materialType,
+      weight_kg: net,
+      gross_kg: gross.weight_kg,
+      tare_kg: tare.weight_kg,
+      tare_preset_id: tarePresetId,
+      weighing_session_id: session.id,
+      ticket_id: body.ticket_id,
+      capture_timestamp: now,
+      operator_id: user?.id,
+      device_id: body.device_id,
+      scale_id: body.scale_id,
+      // Evidence for the weighing done now; with a preset tare, that of the gross pass.
+      stability: tarePresetId ? gross.stability : body.stability,
+      notes: body.notes?.trim() || undefined,
       is_synced: true,
-      created_at: Date.now(),
-      ...body
+      created_at: now,
+    });
+    const completed = await inst.mutate(curr => ({ ...curr, ledger_entry_id: entry.id }));
+    return ok(c, { session: completed, entry });
+  });
+  app.post('/api/weighing/sessions/:id/cancel', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const inst = new WeighingSessionEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Weighing session not found');
+    let cancelled = false;
+    const next = await inst.mutate(curr => {
+      if (curr.status !== 'open') return curr;
+      cancelled = true;
+      return { ...curr, status: 'cancelled', updated_at: Date.now() };
+    });
+    if (!cancelled) return bad(c, `Weighing session is already ${next.status}`);
+    return ok(c, next);
+  });
+  // --- TARE PRESETS ---
+  app.get('/api/tare-presets', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const { items } = await TarePresetEntity.list(c.env, null, 1000);
+    return ok(c, items.filter(p => p.reference).sort((a, b) => a.reference.localeCompare(b.reference)));
+  });
+  // Upserts by reference: re-weighing a vehicle empty simply refreshes its preset.
+  app.put('/api/tare-presets', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const body = await c.req.json<Partial<TarePreset>>();
+    const reference = body.reference?.trim() ?? '';
+    const tare = Number(body.tare_kg);
+    if (!normalizeReference(reference)) return bad(c, 'Vehicle registration or container id required');
+    if (body.kind !== 'vehicle' && body.kind !== 'container') return bad(c, 'Kind must be vehicle or container');
+    if (!Number.isFinite(tare) || tare <= 0) return bad(c, 'Tare must be greater than zero');
+    const preset: TarePreset = {
+      id: normalizeReference(reference),
+      reference,
+      kind: body.kind,
+      tare_kg: roundWeight(tare),
+      description: body.description?.trim() || undefined,
+      updated_at: Date.now(),
+      updated_by: c.get('user')?.id,
+    };
+    return ok(c, await TarePresetEntity.create(c.env, preset));
+  });
+  app.delete('/api/tare-presets/:id', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const id = c.req.param('id');
+    return ok(c, { id, deleted: await TarePresetEntity.delete(c.env, id) });
+  });
+  // --- LEDGER CORRECTIONS ---
+  app.get('/api/ledger/corrections', requirePermission('ledger:read'), async (c: HonoContext) => {
+    const status = c.req.query('status') as LedgerCorrectionStatus | undefined;
+    const { items } = await LedgerCorrectionEntity.list(c.env, null, 1000);
+    return ok(c, items.filter(k => k.id && (!status || k.status === status)).sort((a, b) => b.requested_at - a.requested_at));
+  });
+  app.post('/api/ledger/:id/corrections', requirePermission('ledger:write'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const entryId = c.req.param('id');
+    const entryInst = new InventoryLedgerEntity(c.env, entryId);
+    if (!(await entryInst.exists())) return notFound(c, 'Ledger entry not found');
+    const original = await entryInst.getState();
+    if (original.entry_type === 'reversal') return bad(c, 'Reversal entries cannot be corrected');
+    const body = await c.req.json<Partial<CreateLedgerCorrectionRequest>>();
+    const reason = body.reason?.trim() ?? '';
+    const weight = Number(body.weight_kg);
+    if (reason.length < 5) return bad(c, 'Please give a reason of at least 5 characters');
+    if (!body.supplier_id || !body.material_type?.trim()) return bad(c, 'Supplier and material are required');
+    if (!Number.isFinite(weight) || weight <= 0) return bad(c, 'Weight must be greater than zero');
+    if (!(await new SupplierEntity(c.env, body.supplier_id).exists())) return bad(c, 'Unknown supplier');
+    let materialType = body.material_type.trim();
+    if (body.material_id) {
+      const material = await new MaterialEntity(c.env, body.material_id).getState();
+      if (!material.code) return bad(c, 'Unknown material');
+      materialType = materialLabel(material);
+    }
+    const existing = (await LedgerCorrectionEntity.list(c.env, null, 1000)).items.filter(k => k.entry_id === entryId);
+    if (existing.some(k => k.status === 'approved')) return bad(c, 'This entry has already been corrected');
+    if (existing.some(k => k.status === 'pending')) return bad(c, 'A correction for this entry is already awaiting approval');
+    const correction: LedgerCorrection = {
+      id: crypto.randomUUID(),
+      entry_id: entryId,
+      reason,
+      proposed: { supplier_id: body.supplier_id, material_id: body.material_id || undefined, material_type: materialType, weight_kg: weight, notes: body.notes?.trim() || undefined },
+      status: 'pending',
+      requested_by: user.id,
+      requested_by_username: user.username,
+      requested_at: Date.now(),
     };
-    return ok(c, await InventoryLedgerEntity.create(c.env, entry));
+    return ok(c, await LedgerCorrectionEntity.create(c.env, correction));
+  });
+  // Four-eyes rule: whoever asked for the correction can't approve it.
+  app.post('/api/ledger/corrections/:id/approve', requirePermission('ledger:approve'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const inst = new LedgerCorrectionEntity(c.env, c.req.param('id'));
+    const correction = await inst.getState();
+    if (!correction.entry_id) return notFound(c, 'Correction not found');
+    if (correction.status !== 'pending') return bad(c, `Correction is already ${correction.status}`);
+    if (correction.requested_by === user.id) return bad(c, 'A correction must be approved by someone other than the requester');
+    // Claim the request before writing so a double-click can't append the entries twice.
+    let claimed = false;
+    await inst.mutate(curr => {
+      if (curr.status !== 'pending') return curr;
+      claimed = true;
+      return { ...curr, status: 'approved', decided_by: user.id, decided_by_username: user.username, decided_at: Date.now() };
+    });
+    if (!claimed) return bad(c, 'Correction was decided by someone else');
+    const original = await new InventoryLedgerEntity(c.env, correction.entry_id).getState();
+    const { reversal, replacement } = await appendCorrectionEntries(c.env, original, correction, user.id);
+    return ok(c, await inst.mutate(curr => ({ ...curr, reversal_entry_id: reversal.id, replacement_entry_id: replacement.id })));
+  });
+  app.post('/api/ledger/corrections/:id/reject', requirePermission('ledger:approve'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const { note } = await c.req.json<{ note?: string }>();
+    const inst = new LedgerCorrectionEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Correction not found');
+    let rejected = false;
+    const next = await inst.mutate(curr => {
+      if (curr.status !== 'pending') return curr;
+      rejected = true;
+      return { ...curr, status: 'rejected', decided_by: user.id, decided_by_username: user.username, decided_at: Date.now(), decision_note: note?.trim() || undefined };
+    });
+    if (!rejected) return bad(c, `Correction is already ${next.status}`);
+    return ok(c, next);
   });
-  app.get('/api/transactions', async (c: HonoContext) => ok(c, (await TransactionEntity.list(c.env, null, 200)).items || []));
-  app.post('/api/transactions', async (c: HonoContext) => {
+  app.get('/api/transactions', requirePermission('transaction:read'), async (c: HonoContext) => ok(c, (await TransactionEntity.list(c.env, null, 200)).items || []));
+  app.post('/api/transactions', requirePermission('transaction:write'), async (c: HonoContext) => {
     const body = await c.req.json<Partial<Transaction>>();
+    const now = Date.now();
     const t: Transaction = {
-      id: crypto.randomUUID(),
-      ledger_entry_id: body.ledger_entry_id || "",
-      amount: body.amount || 0,
+      ledger_entry_id: "",
+      amount: 0,
+      epr_fee: 0,
+      ...pickFields(body, TRANSACTION_INPUT_FIELDS),
+      id: body.id || crypto.randomUUID(),
       currency: "ZAR",
-      transaction_timestamp: Date.now(),
-      epr_fee: body.epr_fee || 0,
+      transaction_timestamp: now,
       is_synced: true,
-      created_at: Date.now(),
-      ...body
+      created_at: now,
     };
-    return ok(c, await TransactionEntity.create(c.env, t));
+    // Validated, orphan-checked and claimed exactly as a synced transaction is.
+    const result = await recordTransaction(c.env, await loadIntakeContext(c.env), t);
+    if (result.status === 'duplicate') return bad(c, 'Transaction already exists and cannot be changed');
+    if (result.status === 'rejected') return bad(c, result.reason ?? 'Transaction could not be recorded');
+    return ok(c, await new TransactionEntity(c.env, t.id).getState());
   });
-  app.post('/api/sync/ledger', async (c: HonoContext) => {
-    const { pendingEntries } = await c.req.json<{ pendingEntries: InventoryLedgerEntry[] }>();
-    if (pendingEntries) {
-      for (const e of pendingEntries) await InventoryLedgerEntity.create(c.env, { ...e, is_synced: true });
-    }
-    return ok(c, { syncedIds: (pendingEntries || []).map(e => e.id) });
+  // Terminals mirror reference data for offline use; `since` is the cursor returned by their previous pull.
+  app.get('/api/sync/pull', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const raw = c.req.query('since');
+    const since = raw === undefined || raw === '' ? undefined : Number(raw);
+    if (since !== undefined && !Number.isFinite(since)) return bad(c, 'Invalid cursor');
+    const deviceId = c.req.query('device');
+    const [approved, policy] = await Promise.all([isApprovedDevice(c.env, deviceId), loadSecurityPolicy(c.env)]);
+    // Offline PIN checks get the same gate as /api/auth/pin-login, and only approved terminals hold the hashes.
+    const offlinePin = (u: User) => approved && u.role === 'operator' && !u.totp_enabled && !isTotpRequired(u, policy);
+    const [pull] = await Promise.all([pullReferenceData(c.env, since, offlinePin), recordDevicePull(c.env, deviceId)]);
+    return ok(c, pull);
   });
-  app.post('/api/sync/transactions', async (c: HonoContext) => {
-    const { pendingTransactions } = await c.req.json<{ pendingTransactions: Transaction[] }>();
-    if (pendingTransactions) {
-      for (const t of pendingTransactions) await TransactionEntity.create(c.env, { ...t, is_synced: true });
-    }
-    return ok(c, { syncedIds: (pendingTransactions || []).map(t => t.id) });
+  // Offline queues post here. Items are idempotent by id and reported one by one (see worker/sync.ts), so a
+  // replayed or partially failed batch never loses or double-counts anything. Terminals flush their whole
+  // outbox through /api/sync; the per-kind endpoints remain for integrations holding only one scope.
+  app.post('/api/sync', requirePermission('ledger:write', 'transaction:write'), async (c: HonoContext) => {
+    const { ledger = [], transactions = [], device_id, rejected } = await c.req.json<SyncEnvelope>();
+    if (!Array.isArray(ledger) || !Array.isArray(transactions)) return bad(c, 'ledger and transactions must be lists');
+    const response = await syncEnvelope(c.env, { ledger, transactions }, () => loadIntakeContext(c.env));
+    await recordDeviceSync(c.env, device_id, response, rejected);
+    return ok(c, response);
+  });
+  app.post('/api/sync/ledger', requirePermission('ledger:write'), async (c: HonoContext) => {
+    const { pendingEntries = [] } = await c.req.json<{ pendingEntries?: InventoryLedgerEntry[] }>();
+    if (!Array.isArray(pendingEntries)) return bad(c, 'pendingEntries must be a list');
+    return ok(c, { results: await syncLedgerEntries(c.env, pendingEntries) } satisfies SyncResponse);
   });
-  app.get('/api/camera/snapshot', async (c: HonoContext) => ok(c, { imageUrl: `https://images.unsplash.com/photo-1581092919546-23c1c35a828d?q=80&w=800&auto=format&fit=crop&ixid=${Math.random()}` }));
+  app.post('/api/sync/transactions', requirePermission('transaction:write'), async (c: HonoContext) => {
+    const { pendingTransactions = [] } = await c.req.json<{ pendingTransactions?: Transaction[] }>();
+    if (!Array.isArray(pendingTransactions)) return bad(c, 'pendingTransactions must be a list');
+    if (pendingTransactions.length === 0) return ok(c, { results: [] } satisfies SyncResponse);
+    // Fees are recomputed and amounts checked here: the terminal only had its cached tariffs and price list.
+    const ctx = await loadIntakeContext(c.env);
+    return ok(c, { results: await syncTransactions(c.env, ctx, pendingTransactions) } satisfies SyncResponse);
+  });
+  // --- TERMINALS ---
+  // Any signed-in POS user can register the terminal in front of them; it captures anonymously until approved.
+  app.post('/api/devices', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden(); // a terminal is registered by the person holding it, not an integration
+    const body = await c.req.json<Partial<RegisterDeviceRequest>>();
+    const name = parseDeviceName(body.name);
+    if (!name) return bad(c, 'Name must be 1-64 characters');
+    const now = Date.now();
+    return ok(c, await DeviceEntity.create(c.env, {
+      id: crypto.randomUUID(),
+      name,
+      status: 'pending',
+      user_agent: c.req.header('User-Agent')?.slice(0, 256),
+      registered_at: now,
+      registered_by: user.id,
+      updated_at: now,
+    }));
+  });
+  app.get('/api/devices', requirePermission('devices:read'), async (c: HonoContext) => {
+    const { items } = await DeviceEntity.list(c.env, null, 1000);
+    const order: Record<DeviceStatus, number> = { pending: 0, approved: 1, revoked: 2 };
+    return ok(c, items.filter(d => d.id).sort((a, b) => order[a.status] - order[b.status] || a.name.localeCompare(b.name)));
+  });
+  // A terminal polls its own record to learn when it has been approved.
+  app.get('/api/devices/:id', requirePermission('pos:capture'), async (c: HonoContext) => {
+    const inst = new DeviceEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Terminal not registered');
+    return ok(c, await inst.getState());
+  });
+  app.put('/api/devices/:id', requirePermission('devices:manage'), async (c: HonoContext) => {
+    const inst = new DeviceEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Terminal not registered');
+    const body = await c.req.json<UpdateDeviceRequest>();
+    const name = body.name === undefined ? undefined : parseDeviceName(body.name);
+    if (name === null) return bad(c, 'Name must be 1-64 characters');
+    const scaleId = body.scale_id === undefined || body.scale_id === '' ? body.scale_id : parseDeviceName(body.scale_id);
+    if (scaleId === null) return bad(c, 'Scale id must be 1-64 characters');
+    return ok(c, await inst.mutate(curr => ({
+      ...curr,
+      name: name ?? curr.name,
+      scale_id: scaleId === undefined ? curr.scale_id : scaleId || undefined,
+      updated_at: Date.now(),
+    })));
+  });
+  const reviewDevice = (status: Extract<DeviceStatus, 'approved' | 'revoked'>) => async (c: HonoContext) => {
+    const user = c.get('user');
+    if (!user) throw forbidden();
+    const inst = new DeviceEntity(c.env, c.req.param('id'));
+    if (!(await inst.exists())) return notFound(c, 'Terminal not registered');
+    const now = Date.now();
+    return ok(c, await inst.mutate(curr => curr.status === status ? curr : { ...curr, status, reviewed_at: now, reviewed_by: user.id, updated_at: now }));
+  };
+  app.post('/api/devices/:id/approve', requirePermission('devices:manage'), reviewDevice('approved'));
+  // Revoked terminals are kept so captures stamped with their id can still be traced to a name.
+  app.post('/api/devices/:id/revoke', requirePermission('devices:manage'), reviewDevice('revoked'));
+  app.get('/api/camera/snapshot', requirePermission('hardware:manage'), async (c: HonoContext) => ok(c, { imageUrl: `https://images.unsplash.com/photo-1581092919546-23c1c35a828d?q=80&w=800&auto=format&fit=crop&ixid=${Math.random()}` }));
 }
\ No newline at end of file